@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FigmaAPI } from '../../../../lib/figma-api';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { projectId, accessToken } = await request.json();
+
+    if (!projectId || !accessToken) {
+      return NextResponse.json({ error: 'Missing projectId or accessToken' }, { status: 400 });
+    }
+
+    const { name, files } = await new FigmaAPI(accessToken).getProjectFiles(projectId);
+    return NextResponse.json({
+      success: true,
+      data: {
+        projectName: name,
+        // Most recently edited first
+        files: files
+          .map(file => ({
+            key: file.key,
+            name: file.name,
+            thumbnail_url: file.thumbnail_url,
+            last_modified: file.last_modified,
+          }))
+          .sort((a, b) => a.last_modified < b.last_modified ? 1 : a.last_modified > b.last_modified ? -1 : 0),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching project files:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch project files',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cacheKeyFor, getFigmaCache } from '../../../../lib/figma-cache';
+import { createSession, sessionResponseData } from '../../../../lib/figma-session';
+import { FigmaSnapshot, ImportedSnapshot, importSnapshots } from '../../../../lib/snapshot-import';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const snapshots: FigmaSnapshot[] = Array.isArray(body.snapshots) ? body.snapshots : [];
+
+    if (snapshots.length === 0 || snapshots.some(snapshot => typeof snapshot?.name !== 'string' || typeof snapshot?.content !== 'string')) {
+      return NextResponse.json(
+        { error: 'snapshots must be a non-empty array of { name, content } JSON files' },
+        { status: 400 }
+      );
+    }
+
+    console.log('📝 Importing snapshots:', snapshots.map(snapshot => snapshot.name));
+
+    let imported: ImportedSnapshot;
+    try {
+      imported = importSnapshots(snapshots);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid snapshot' },
+        { status: 400 }
+      );
+    }
+
+    const cached = await getFigmaCache().get(cacheKeyFor(imported.fileKey, imported.file.version)) ||
+      await createSession(imported.file, { fileKey: imported.fileKey, variables: imported.variables, comments: imported.comments });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...(await sessionResponseData(cached)),
+        offline: true,
+      },
+    });
+  } catch (error) {
+    console.error('📝 Snapshot import error:', error);
+    return NextResponse.json(
+      {
+        error: 'Server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
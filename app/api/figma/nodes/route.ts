@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCachedNodes, getFigmaCache } from '../../../../lib/figma-cache';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const ids = (searchParams.get('ids') || '').split(',').filter(Boolean);
+
+    if (!sessionId || ids.length === 0) {
+      return NextResponse.json({ error: 'Missing sessionId or ids' }, { status: 400 });
+    }
+
+    const cached = await getFigmaCache().getSession(sessionId);
+    if (!cached) {
+      return NextResponse.json({ error: 'Session expired, load the Figma file again' }, { status: 404 });
+    }
+
+    const nodes = findCachedNodes(cached, ids);
+    return NextResponse.json({
+      success: true,
+      data: {
+        nodes,
+        missing: ids.filter(id => !nodes.some(node => node.id === id)),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching session nodes:', error);
+    return NextResponse.json({ error: 'Failed to fetch nodes' }, { status: 500 });
+  }
+}
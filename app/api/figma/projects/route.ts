@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FigmaAPI } from '../../../../lib/figma-api';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { teamId, accessToken } = await request.json();
+
+    if (!teamId || !accessToken) {
+      return NextResponse.json({ error: 'Missing teamId or accessToken' }, { status: 400 });
+    }
+
+    const { name, projects } = await new FigmaAPI(accessToken).getTeamProjects(teamId);
+    return NextResponse.json({
+      success: true,
+      data: {
+        teamName: name,
+        projects: projects.map(project => ({ id: String(project.id), name: project.name })),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching team projects:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch team projects',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,13 @@
 
 
 import { NextRequest, NextResponse } from 'next/server';
-import { processNode, extractAllFrames } from '../../../utils/figma';
+import { FigmaAPI } from '../../../lib/figma-api';
+import { cacheKeyFor, getFigmaCache } from '../../../lib/figma-cache';
+import { createSession, refreshComments, sessionResponseData } from '../../../lib/figma-session';
+import { buildOutline, fetchShallowFile, isRequestTooLarge, loadSubtrees } from '../../../lib/subtree-loader';
+import { FigmaFile } from '../../../types/figma';
+import { parseFigmaUrl } from '../../../utils/figma';
+import { CachedDocument } from '../../../types/figma-cache';
 
 
 export async function GET() {
@@ -17,7 +23,7 @@ export async function POST(request: NextRequest) {
     console.log('📝 Figma API route: POST request received');
     
     const body = await request.json();
-    const { figmaUrl, accessToken } = body;
+    const { figmaUrl, accessToken, nodeIds } = body;
     
     console.log('📝 Request data:', { 
       figmaUrl: figmaUrl?.substring(0, 50) + '...', 
@@ -31,19 +37,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Extract file key from URL
-    let fileKey = '';
-    const apiUrlMatch = figmaUrl.match(/api\.figma\.com\/v1\/files\/([a-zA-Z0-9]+)/);
-    if (apiUrlMatch) {
-      fileKey = apiUrlMatch[1];
-    } else {
-      const urlMatch = figmaUrl.match(/figma\.com\/(?:file|design|proto)\/([a-zA-Z0-9]+)/);
-      if (urlMatch) {
-        fileKey = urlMatch[1];
-      } else if (/^[a-zA-Z0-9]+$/.test(figmaUrl)) {
-        fileKey = figmaUrl;
-      }
-    }
+    // Extract file key and linked nodes from URL
+    const link = parseFigmaUrl(figmaUrl);
+    const fileKey = link ? link.fileKey : '';
 
     if (!fileKey) {
       return NextResponse.json(
@@ -52,88 +48,103 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log('📝 File key extracted:', fileKey);
-
-    // For large files, we'll need to use a different strategy
-    // Start with basic request and handle large responses in processing
-    const figmaApiUrl = `https://api.figma.com/v1/files/${fileKey}`;
-    console.log('📝 Making GET request to:', figmaApiUrl);
+    console.log('📝 File key extracted:', fileKey, link?.mainFileKey ? `(branch of ${link.mainFileKey})` : '');
+
+    const api = new FigmaAPI(accessToken);
+    const cache = getFigmaCache();
+    const requestedNodeIds: string[] = Array.isArray(nodeIds) ? nodeIds.filter((id: unknown) => typeof id === 'string') : [];
+    // Deep links fetch just the linked nodes, unless layers were picked explicitly
+    const linkedNodeIds = requestedNodeIds.length === 0 && link ? link.nodeIds : [];
+    const selectedNodeIds = requestedNodeIds.length > 0 ? requestedNodeIds : linkedNodeIds;
+
+    // Revalidate against the current version; an unchanged file is served from the cache
+    // without fetching or processing its document again
+    let cached: CachedDocument | undefined;
+    try {
+      const { version } = await api.getFileVersion(fileKey);
+      cached = await cache.get(cacheKeyFor(fileKey, version, selectedNodeIds));
+    } catch (error) {
+      console.log('📝 Could not check the file version, loading it fresh:', error instanceof Error ? error.message : error);
+    }
 
-    const figmaResponse = await fetch(figmaApiUrl, {
-      method: 'GET',
-      headers: {
-        'X-Figma-Token': accessToken,
-      },
+    // Comments are read on every load, they change without a new file version
+    const comments = await api.getComments(fileKey).catch(() => {
+      console.log('📝 Could not load comments, generating without them');
+      return undefined;
     });
 
-    console.log('📝 Figma response status:', figmaResponse.status);
-
-    // If the request is still too large, try with more restrictive parameters
-    if (!figmaResponse.ok) {
-      const errorText = await figmaResponse.text();
-      console.error('📝 First attempt failed:', errorText);
-      
-      if (figmaResponse.status === 400 && errorText.includes('Request too large')) {
-        console.log('📝 File too large - providing guidance to user...');
-        
-        return NextResponse.json(
-          { 
-            error: `Figma file is too large (375,000+ elements)`,
-            details: errorText,
-            suggestions: [
-              '1. Break your Figma file into smaller files (recommended)',
-              '2. Create a separate "Components" page with only the frames you want to convert',
-              '3. Use Figma\'s "Export" feature to create smaller component files',
-              '4. Consider using frame-specific URLs if Figma supports them'
-            ],
-            tip: 'For best results, keep Figma files under 50-100 frames for code generation.'
+    if (cached) {
+      console.log('📝 Serving cached version:', cached.version);
+      cached = await refreshComments(cached, comments?.comments);
+    } else {
+      let figmaData: FigmaFile;
+      if (selectedNodeIds.length > 0) {
+        // Layers picked from the outline of an oversized file, or the nodes a link points at
+        figmaData = await loadSubtrees(api, fileKey, selectedNodeIds);
+        console.log('📝 Loaded selected layers:', selectedNodeIds.length);
+      } else {
+        const figmaApiUrl = `https://api.figma.com/v1/files/${fileKey}`;
+        console.log('📝 Making GET request to:', figmaApiUrl);
+
+        const figmaResponse = await fetch(figmaApiUrl, {
+          method: 'GET',
+          headers: {
+            'X-Figma-Token': accessToken,
           },
-          { status: 400 }
-        );
+        });
+
+        console.log('📝 Figma response status:', figmaResponse.status);
+
+        if (!figmaResponse.ok) {
+          const errorText = await figmaResponse.text();
+          console.error('📝 First attempt failed:', errorText);
+
+          // Too large to fetch whole: return the pages and top-level layers so the
+          // user can pick which ones to load through the nodes endpoint
+          if (figmaResponse.status === 400 && isRequestTooLarge(errorText)) {
+            console.log('📝 File too large - returning outline for subtree selection...');
+            const shallow = await fetchShallowFile(api, fileKey);
+
+            return NextResponse.json({
+              success: true,
+              data: {
+                fileName: shallow.name,
+                fileKey,
+                lastModified: shallow.lastModified,
+                thumbnailUrl: shallow.thumbnailUrl,
+                requiresSelection: true,
+                outline: buildOutline(shallow),
+              },
+            });
+          }
+
+          return NextResponse.json(
+            { error: `Figma API error: ${figmaResponse.status} - ${errorText}` },
+            { status: figmaResponse.status }
+          );
+        }
+
+        figmaData = await figmaResponse.json();
       }
-      
-      return NextResponse.json(
-        { error: `Figma API error: ${figmaResponse.status} - ${errorText}` },
-        { status: figmaResponse.status }
-      );
-    }
 
-    const figmaData = await figmaResponse.json();
-    console.log('📝 Success! File name:', figmaData.name);
+      console.log('📝 Success! File name:', figmaData.name);
 
-    // Process the entire document first
-    const processedDocument = processNode(figmaData.document);
-    
-    // Extract all frames from the processed document (including nested frames)
-    const allFrames = extractAllFrames(processedDocument);
-    
-    // Also get top-level frames the old way for backwards compatibility
-    const pages = figmaData.document?.children || [];
-    let topLevelFrames: any[] = [];
-    
-    pages.forEach((page: any) => {
-      if (page.type === 'CANVAS' && page.children) {
-        const pageFrames = page.children.filter((child: any) => child.type === 'FRAME');
-        topLevelFrames.push(...pageFrames);
-      }
-    });
+      // Variable names are only available on plans with the Variables API; without them
+      // bound variables are named after their values
+      const variables = await api.getLocalVariables(fileKey).catch(() => {
+        console.log('📝 Variables API unavailable, naming variable tokens by value');
+        return undefined;
+      });
 
-    console.log('📝 Extracted frames:', {
-      topLevelFrames: topLevelFrames.length,
-      allNestedFrames: allFrames.length,
-      frameNames: allFrames.map(f => f.name)
-    });
+      cached = await createSession(figmaData, { fileKey, nodeIds: selectedNodeIds, variables: variables?.meta, comments: comments?.comments });
+    }
 
     return NextResponse.json({
       success: true,
       data: {
-        fileName: figmaData.name,
-        fileKey,
-        lastModified: figmaData.lastModified,
-        thumbnailUrl: figmaData.thumbnailUrl,
-        frames: allFrames,
-        totalFrames: allFrames.length,
-        rawDocument: figmaData.document, // Include raw data for debugging
+        ...(await sessionResponseData(cached)),
+        mainFileKey: link?.mainFileKey,
+        linkedNodeIds: linkedNodeIds.length > 0 ? linkedNodeIds : undefined, // Preselected in the frame list
       },
     });
 
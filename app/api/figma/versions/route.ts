@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FigmaAPI } from '../../../../lib/figma-api';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { fileKey, accessToken } = await request.json();
+
+    if (!fileKey || !accessToken) {
+      return NextResponse.json({ error: 'Missing fileKey or accessToken' }, { status: 400 });
+    }
+
+    const { versions } = await new FigmaAPI(accessToken).getVersions(fileKey);
+    return NextResponse.json({
+      success: true,
+      data: {
+        versions: versions.map(version => ({
+          id: version.id,
+          created_at: version.created_at,
+          label: version.label,
+          description: version.description,
+          user: version.user && { handle: version.user.handle },
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching versions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch versions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,32 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ClaudeAPI } from '../../../lib/claude-api';
-import { OpenAIAPI } from '../../../lib/openai-api';
-import { GeminiAPI } from '../../../lib/gemini-api';
+import { AssetExportOptions, ExportedAssets, assetPaths, exportAssets } from '../../../lib/asset-exporter';
+import { FigmaAPI } from '../../../lib/figma-api';
+import { findCachedNodes, getFigmaCache } from '../../../lib/figma-cache';
+import { getHistoryStore, hashPromptInputs } from '../../../lib/history-store';
+import { getMissingEnv, getProviderRegistration, listProviders } from '../../../lib/provider-registry';
 import { ProcessedNode } from '../../../types/figma';
-import { findComponents } from '../../../utils/figma';
+import { GenerationRecord } from '../../../types/history';
+import {
+  ComponentGenerationOptions,
+  FlowGenerationOptions,
+  GeneratedFile,
+  GenerationEngine,
+  GenerationEvent,
+  GenerationListener,
+  GenerationResult,
+  GenerationStreamEvent,
+  GenerationType,
+  PageGenerationOptions,
+} from '../../../types/codegen';
+import { attachDesignerNotes } from '../../../utils/designer-notes';
+import { findComponents, nodesToJSON } from '../../../utils/figma';
+import { fontManifestFiles } from '../../../utils/font-manifest';
+import { mergeResponsiveFrames } from '../../../utils/responsive-variants';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { 
-      nodes, 
+      nodes: requestNodes, 
       generationType, 
+      sessionId,
+      nodeIds,
       options = {},
-      provider = 'gemini'
+      provider = 'gemini',
+      model,
+      fileKey: requestFileKey,
+      assets,
+      reuseUnchanged = false,
+      stream = false
     }: {
-      nodes: ProcessedNode[];
-      generationType: 'component' | 'page' | 'multiple';
-      provider?: 'claude' | 'openai' | 'gemini';
-      options: {
-        framework?: 'react' | 'vue' | 'angular';
-        styling?: 'tailwind' | 'css' | 'styled-components';
-        typescript?: boolean;
-        includeProps?: boolean;
-        responsive?: boolean;
-        pageName?: string;
-      };
+      nodes?: ProcessedNode[];
+      sessionId?: string; // Session from /api/figma; nodeIds are resolved from its cached document
+      nodeIds?: string[];
+      generationType: GenerationType;
+      provider?: string;
+      model?: string;
+      fileKey?: string; // Source Figma file, kept with the history record
+      assets?: AssetExportOptions & { accessToken: string }; // Export images and icons from fileKey into assets/
+      reuseUnchanged?: boolean; // Copy earlier generations with identical inputs instead of generating them again
+      stream?: boolean; // Respond with Server-Sent Events instead of a single JSON body
+      options: ComponentGenerationOptions & PageGenerationOptions & FlowGenerationOptions;
     } = body;
 
+    // Nodes come from the request, or by id from the session /api/figma created
+    const cached = sessionId ? await getFigmaCache().getSession(sessionId) : undefined;
+    if (sessionId && !cached) {
+      return NextResponse.json(
+        { error: 'Session expired, load the Figma file again' },
+        { status: 404 }
+      );
+    }
+    // Session nodes carry the designer's comments and component descriptions as notes
+    const nodes = cached ?
+      attachDesignerNotes(findCachedNodes(cached, Array.isArray(nodeIds) ? nodeIds : []), cached.file, cached.comments) :
+      requestNodes;
+    const fileKey = requestFileKey || cached?.fileKey;
+
     // Validate required fields
     if (!nodes || !Array.isArray(nodes) || nodes.length === 0) {
       return NextResponse.json(
@@ -35,117 +74,78 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!generationType || !['component', 'page', 'multiple'].includes(generationType)) {
+    if (!generationType || !['component', 'page', 'multiple', 'flow'].includes(generationType)) {
       return NextResponse.json(
-        { error: 'Valid generation type is required (component, page, or multiple)' },
+        { error: 'Valid generation type is required (component, page, multiple, or flow)' },
         { status: 400 }
       );
     }
 
-    // Get API keys from environment
-    const claudeApiKey = process.env.ANTHROPIC_API_KEY;
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    const geminiApiKey = process.env.GEMINI_API_KEY;
+    if (generationType === 'flow' && options.framework && options.framework !== 'react') {
+      return NextResponse.json(
+        { error: 'Flow generation supports React only' },
+        { status: 400 }
+      );
+    }
 
-    // Initialize API client based on provider
-    let apiClient: ClaudeAPI | OpenAIAPI | GeminiAPI;
-    
-    if (provider === 'openai') {
-      if (!openaiApiKey) {
-        return NextResponse.json(
-          { error: 'OpenAI API key is not configured' },
-          { status: 500 }
-        );
-      }
-      apiClient = new OpenAIAPI(openaiApiKey);
-    } else if (provider === 'gemini') {
-      if (!geminiApiKey) {
-        return NextResponse.json(
-          { error: 'Gemini API key is not configured' },
-          { status: 500 }
-        );
-      }
-      apiClient = new GeminiAPI(geminiApiKey);
-    } else {
-      if (!claudeApiKey) {
-        return NextResponse.json(
-          { error: 'Claude API key is not configured' },
-          { status: 500 }
-        );
-      }
-      apiClient = new ClaudeAPI(claudeApiKey);
+    // Resolve the provider from the registry
+    const registration = getProviderRegistration(provider);
+    if (!registration) {
+      return NextResponse.json(
+        { error: `Unknown provider '${provider}'. Available providers: ${listProviders().map(p => p.id).join(', ')}` },
+        { status: 400 }
+      );
     }
 
-    let result;
+    const missingEnv = getMissingEnv(registration);
+    if (missingEnv.length > 0) {
+      return NextResponse.json(
+        { error: `${registration.displayName} is not configured (missing ${missingEnv.join(', ')})` },
+        { status: 500 }
+      );
+    }
 
-    switch (generationType) {
-      case 'component':
-        // Generate single component from first node
-        const node = nodes[0];
-        try {
-          const generated = await apiClient.generateComponent(node, options);
-          result = {
-            type: 'component',
-            componentName: node.componentName || node.name,
-            code: generated.tsx, // Keep backwards compatibility
-            files: generated.files,
-          };
-        } catch (error) {
-          console.error('Error in component generation:', error);
-          throw error;
-        }
-        break;
-
-      case 'multiple':
-        // Find all components in the nodes
-        const allComponents: ProcessedNode[] = [];
-        nodes.forEach(node => {
-          allComponents.push(...findComponents(node));
-        });
-
-        // If no components found, treat each node as a component
-        if (allComponents.length === 0) {
-          console.log('⚠️  No components found, treating each node as a component');
-          allComponents.push(...nodes);
-        }
-        
-        console.log(`🔄 Generating ${allComponents.length} components...`);
+    if (assets && (!fileKey || !assets.accessToken)) {
+      return NextResponse.json(
+        { error: 'Asset export needs the fileKey and a Figma accessToken' },
+        { status: 400 }
+      );
+    }
 
-        // Generate code for each component
-        const components = await apiClient.generateMultipleComponents(allComponents, options);
-        result = {
-          type: 'multiple',
-          components: components.map(comp => ({
-            componentName: comp.componentName,
-            code: comp.files.find(f => f.type === 'tsx' || f.type === 'typescript')?.content || '', // Angular compatibility
-            files: comp.files,
-          })),
-        };
-        break;
+    const apiClient = registration.createEngine(process.env, { model });
+    const context: GenerationContext = { fileKey, provider: registration.id, model, generationType, options };
+    // Earlier generations are read once, on the first lookup
+    let reusable: Promise<Map<string, GenerationRecord>> | undefined;
+    const findReusable = reuseUnchanged ?
+      async (unitNodes: ProcessedNode[]) => {
+        reusable = reusable || getHistoryStore().promptHashIndex();
+        return (await reusable).get(hashUnitInputs(context, unitNodes));
+      } :
+      undefined;
 
-      case 'page':
-        // Generate complete page
-        try {
-          const pageGenerated = await apiClient.generatePage(nodes, options);
-          result = {
-            type: 'page',
-            pageName: options.pageName || 'HomePage',
-            code: pageGenerated.tsx, // Keep backwards compatibility
-            files: pageGenerated.files,
-          };
-        } catch (error) {
-          console.error('Error in page generation:', error);
-          throw error;
-        }
-        break;
+    const run = async (onEvent?: GenerationListener, signal?: AbortSignal) => {
+      const exported = assets && fileKey ?
+        await exportAssets(new FigmaAPI(assets.accessToken), fileKey, nodes, assets) :
+        undefined;
+      const processed = exported ? exported.nodes : nodes;
+      // Frames of one screen at several breakpoints become one responsive component or section;
+      // flow screens stay apart, since prototype links point at each frame
+      const merged = generationType !== 'flow' ? mergeResponsiveFrames(processed) : processed;
+      const output = await runGeneration(apiClient, generationType, merged, options, onEvent, findReusable, signal);
+      if (exported) {
+        attachAssetFiles(output, exported, generationType);
+      }
+      attachFontFiles(output, generationType, options);
+      await recordHistory(output, context);
+      return output.result;
+    };
 
-      default:
-        return NextResponse.json(
-          { error: 'Invalid generation type' },
-          { status: 400 }
-        );
+    if (stream) {
+      return streamGeneration(run, registration.displayName);
     }
 
+    const result = await run();
+
     return NextResponse.json({
       success: true,
       data: result,
@@ -158,55 +158,395 @@ export async function POST(request: NextRequest) {
     let errorProvider = 'AI';
     try {
       const errorBody = await request.clone().json();
-      errorProvider = errorBody.provider === 'openai' ? 'OpenAI' : 
-                     errorBody.provider === 'gemini' ? 'Gemini' : 'Claude';
+      errorProvider = getProviderRegistration(errorBody.provider || 'gemini')?.displayName || errorProvider;
     } catch {
       // Fallback if can't parse body again
     }
-    
-    if (error instanceof Error) {
-      // Handle specific API errors
-      if (error.message.includes('401') || error.message.includes('authentication')) {
-        return NextResponse.json(
-          { error: `Invalid ${errorProvider} API key. Please check your configuration.` },
-          { status: 401 }
-        );
+
+    const { error: message, status } = describeGenerationError(error, errorProvider);
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+interface GenerationContext {
+  fileKey?: string;
+  provider: string;
+  model?: string;
+  generationType: GenerationType;
+  options: ComponentGenerationOptions & PageGenerationOptions & FlowGenerationOptions;
+}
+
+// Looks up an earlier generation of a component or page with identical inputs
+type ReusableLookup = (nodes: ProcessedNode[]) => Promise<GenerationRecord | undefined>;
+
+/**
+ * Hash of everything a generated component or page depends on; equal hashes can share output
+ */
+function hashUnitInputs(context: GenerationContext, nodes: ProcessedNode[]): string {
+  return hashPromptInputs({
+    generationType: context.generationType,
+    provider: context.provider,
+    model: context.model,
+    options: context.options,
+    nodes: nodesToJSON(nodes),
+  });
+}
+
+interface GenerationOutput {
+  result: GenerationResult;
+  sources: Array<{ nodes: ProcessedNode[]; frameName: string }>; // Source of each generated component or page, in result order
+}
+
+/**
+ * Run the requested generation, forwarding incremental output to onEvent when streaming.
+ * With findReusable, components and pages generated before from identical inputs are
+ * copied from the history instead of generated again. Aborting the signal cancels the
+ * provider calls still running.
+ */
+async function runGeneration(
+  apiClient: GenerationEngine,
+  generationType: GenerationType,
+  nodes: ProcessedNode[],
+  options: ComponentGenerationOptions & PageGenerationOptions & FlowGenerationOptions,
+  onEvent?: GenerationListener,
+  findReusable?: ReusableLookup,
+  signal?: AbortSignal
+): Promise<GenerationOutput> {
+  switch (generationType) {
+    case 'component':
+      // Generate single component from first node
+      const node = nodes[0];
+      const reusedComponent = findReusable && await findReusable([node]);
+      if (reusedComponent) {
+        console.log(`♻️ Reusing unchanged component ${reusedComponent.componentName}`);
+        return {
+          result: {
+            type: 'component',
+            componentName: reusedComponent.componentName,
+            code: reusedComponent.code,
+            files: reusedComponent.files,
+            reused: true,
+          },
+          sources: [{ nodes: [node], frameName: node.name }],
+        };
       }
-      
-      if (error.message.includes('rate limit') || error.message.includes('429')) {
-        return NextResponse.json(
-          { error: 'Rate limit exceeded. Please try again later.' },
-          { status: 429 }
-        );
+
+      try {
+        const generated = await apiClient.generateComponent(node, options, onEvent, signal);
+        return {
+          result: {
+            type: 'component',
+            componentName: node.componentName || node.name,
+            code: generated.tsx, // Keep backwards compatibility
+            files: generated.files,
+          },
+          sources: [{ nodes: [node], frameName: node.name }],
+        };
+      } catch (error) {
+        console.error('Error in component generation:', error);
+        throw error;
       }
-      
-      if (error.message.includes('529') || error.message.includes('Overloaded')) {
-        return NextResponse.json(
-          { error: `${errorProvider} API is currently overloaded. Please wait a few minutes and try again.` },
-          { status: 529 }
-        );
+
+    case 'multiple':
+      // Find all components in the nodes, remembering the frame each came from
+      const found: Array<{ component: ProcessedNode; frame: ProcessedNode }> = [];
+      nodes.forEach(frame => {
+        findComponents(frame).forEach(component => found.push({ component, frame }));
+      });
+
+      // If no components found, treat each node as a component
+      if (found.length === 0) {
+        console.log('⚠️  No components found, treating each node as a component');
+        nodes.forEach(frame => found.push({ component: frame, frame }));
       }
       
-      if (error.message.includes('503') || error.message.includes('service')) {
-        return NextResponse.json(
-          { error: `${errorProvider} service is temporarily unavailable. Please try again later.` },
-          { status: 503 }
-        );
+      // Components whose inputs haven't changed since they were last generated are copied
+      const reusedRecords: Array<GenerationRecord | undefined> = [];
+      for (const { component } of found) {
+        reusedRecords.push(findReusable && await findReusable([component]));
       }
-      
-      return NextResponse.json(
-        { error: `Code generation failed: ${error.message}` },
-        { status: 500 }
-      );
+      const pending = found.map((_, i) => i).filter(i => !reusedRecords[i]);
+
+      reusedRecords.forEach((record, i) => {
+        if (record) {
+          onEvent?.({ type: 'progress', component: i, total: found.length, componentName: record.componentName, status: 'completed' });
+        }
+      });
+      if (pending.length < found.length) {
+        console.log(`♻️ Reusing ${found.length - pending.length} unchanged components`);
+      }
+
+      // Events of the generated components carry their index in the full list
+      const remapEvent = (event: GenerationEvent): GenerationEvent => {
+        if (event.component === undefined) return event;
+        const component = pending[event.component];
+        return event.type === 'progress' ? { ...event, component, total: found.length } : { ...event, component };
+      };
+
+      console.log(`🔄 Generating ${pending.length} components...`);
+
+      // Generate code for each component
+      const generated = pending.length > 0 ?
+        await apiClient.generateMultipleComponents(
+          pending.map(i => found[i].component),
+          options,
+          onEvent && (event => onEvent(remapEvent(event))),
+          signal
+        ) :
+        [];
+      return {
+        result: {
+          type: 'multiple',
+          components: found.map((_, i) => {
+            const record = reusedRecords[i];
+            if (record) {
+              return { componentName: record.componentName, code: record.code, files: record.files, reused: true };
+            }
+            const comp = generated[pending.indexOf(i)];
+            return {
+              componentName: comp.componentName,
+              code: comp.files.find(f => f.type === 'tsx' || f.type === 'typescript')?.content || '', // Angular compatibility
+              files: comp.files,
+            };
+          }),
+        },
+        sources: found.map(f => ({ nodes: [f.component], frameName: f.frame.name })),
+      };
+
+    case 'page':
+      // Generate complete page
+      const reusedPage = findReusable && await findReusable(nodes);
+      if (reusedPage) {
+        console.log(`♻️ Reusing unchanged page ${reusedPage.componentName}`);
+        return {
+          result: {
+            type: 'page',
+            pageName: reusedPage.componentName,
+            code: reusedPage.code,
+            files: reusedPage.files,
+            reused: true,
+          },
+          sources: [{ nodes, frameName: nodes.map(n => n.name).join(', ') }],
+        };
+      }
+
+      try {
+        const pageGenerated = await apiClient.generatePage(nodes, options, onEvent, signal);
+        return {
+          result: {
+            type: 'page',
+            pageName: options.pageName || 'HomePage',
+            code: pageGenerated.tsx, // Keep backwards compatibility
+            files: pageGenerated.files,
+          },
+          sources: [{ nodes, frameName: nodes.map(n => n.name).join(', ') }],
+        };
+      } catch (error) {
+        console.error('Error in page generation:', error);
+        throw error;
+      }
+
+    case 'flow': {
+      // One route per frame, linked as in the prototype
+      const router = options.router || 'next-app';
+      const reusedFlow = findReusable && await findReusable(nodes);
+      if (reusedFlow) {
+        console.log(`♻️ Reusing unchanged flow ${reusedFlow.componentName}`);
+        return {
+          result: {
+            type: 'flow',
+            router,
+            pageName: reusedFlow.componentName,
+            code: reusedFlow.code,
+            files: reusedFlow.files,
+            reused: true,
+          },
+          sources: [{ nodes, frameName: nodes.map(n => n.name).join(', ') }],
+        };
+      }
+
+      const flowGenerated = await apiClient.generateFlow(nodes, options, onEvent, signal);
+      return {
+        result: {
+          type: 'flow',
+          router,
+          pageName: nodes[0].name,
+          code: flowGenerated.tsx,
+          files: flowGenerated.files,
+        },
+        sources: [{ nodes, frameName: nodes.map(n => n.name).join(', ') }],
+      };
     }
 
-    return NextResponse.json(
-      { error: 'An unexpected error occurred during code generation.' },
-      { status: 500 }
-    );
+    default:
+      throw new Error('Invalid generation type');
+  }
+}
+
+/**
+ * Add the font manifest of each generated component or page to its files: next/font
+ * loaders for Next.js flows, a stylesheet with Google Fonts imports and @font-face rules otherwise
+ */
+function attachFontFiles({ result, sources }: GenerationOutput, generationType: GenerationType, options: GenerationContext['options']): void {
+  const target = { router: generationType === 'flow' ? options.router || 'next-app' : undefined, typescript: options.typescript };
+  const filesFor = (nodes: ProcessedNode[], existing: GeneratedFile[]) =>
+    fontManifestFiles(nodes, target).filter(file => !existing.some(f => f.name === file.name));
+
+  if (result.components) {
+    result.components = result.components.map((component, i) => ({
+      ...component,
+      files: [...component.files, ...filesFor(sources[i].nodes, component.files)],
+    }));
+  } else {
+    result.files = [...(result.files || []), ...filesFor(sources[0].nodes, result.files || [])];
   }
 }
 
+/**
+ * Add the exported assets each generated component or page references to its files.
+ * A flow app's routes sit in folders of their own, so its assets go in public/ and are
+ * referenced from the site root.
+ */
+function attachAssetFiles({ result, sources }: GenerationOutput, exported: ExportedAssets, generationType: GenerationType): void {
+  const directory = generationType === 'flow' ? 'public/' : '';
+  // Reused generations already carry their SVG assets
+  const filesFor = (nodes: ProcessedNode[], existing: GeneratedFile[]) => {
+    const paths = nodes.map(assetPaths).reduce((all, nodePaths) => all.concat(nodePaths), []);
+    return exported.files
+      .filter(file => paths.indexOf(file.name) !== -1)
+      .map(file => ({ ...file, name: `${directory}${file.name}` }))
+      .filter(file => !existing.some(f => f.name === file.name));
+  };
+
+  if (result.components) {
+    result.components = result.components.map((component, i) => ({
+      ...component,
+      files: [...component.files, ...filesFor(sources[i].nodes, component.files)],
+    }));
+  } else {
+    result.files = [...(result.files || []), ...filesFor(sources[0].nodes, result.files || [])];
+  }
+}
+
+/**
+ * Save each generated component or page to the history store. Failures are logged
+ * rather than thrown so a full disk doesn't cost the user their generated code.
+ */
+async function recordHistory({ result, sources }: GenerationOutput, context: GenerationContext): Promise<void> {
+  const units = result.components || [{
+    componentName: result.componentName || result.pageName || 'Component',
+    code: result.code || '',
+    files: result.files || [],
+    reused: result.reused,
+  }];
+
+  try {
+    const store = getHistoryStore();
+    for (let i = 0; i < units.length; i++) {
+      // Failed components only carry an error placeholder; reused ones are already recorded
+      if (!units[i].code || units[i].reused) continue;
+
+      const { nodes, frameName } = sources[i];
+      await store.add({
+        fileKey: context.fileKey,
+        nodeIds: nodes.map(n => n.id),
+        frameName,
+        componentName: units[i].componentName,
+        generationType: context.generationType,
+        provider: context.provider,
+        model: context.model,
+        options: context.options,
+        promptHash: hashUnitInputs(context, nodes),
+        code: units[i].code,
+        // Binary assets would bloat the history file; SVGs are small enough to keep
+        files: units[i].files.filter(file => file.encoding !== 'base64'),
+      });
+    }
+  } catch (error) {
+    console.error('⚠️ Failed to save generation history:', error);
+  }
+}
+
+/**
+ * Send generation events as Server-Sent Events, ending with a result or error event.
+ * Status codes can't change once the stream has started, so errors carry theirs in the event.
+ * A client that disconnects cancels the generation, so abandoned streams stop using the provider.
+ */
+function streamGeneration(
+  run: (onEvent: GenerationListener, signal: AbortSignal) => Promise<GenerationResult>,
+  providerName: string
+): Response {
+  const encoder = new TextEncoder();
+  const cancellation = new AbortController();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GenerationStreamEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        send({ type: 'result', data: await run(send, cancellation.signal) });
+      } catch (error) {
+        if (cancellation.signal.aborted) {
+          console.log('🛑 Client disconnected, generation cancelled');
+          return;
+        }
+        console.error('Error generating code:', error);
+        send({ type: 'error', ...describeGenerationError(error, providerName) });
+      }
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      // The client went away; stop the provider calls and send nothing more
+      closed = true;
+      cancellation.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Map provider errors to a user-facing message and HTTP status
+ */
+function describeGenerationError(error: unknown, errorProvider: string): { error: string; status: number } {
+  if (error instanceof Error) {
+    // Handle specific API errors
+    if (error.message.includes('401') || error.message.includes('authentication')) {
+      return { error: `Invalid ${errorProvider} API key. Please check your configuration.`, status: 401 };
+    }
+    
+    if (error.message.includes('rate limit') || error.message.includes('429')) {
+      return { error: 'Rate limit exceeded. Please try again later.', status: 429 };
+    }
+    
+    if (error.message.includes('529') || error.message.includes('Overloaded')) {
+      return { error: `${errorProvider} API is currently overloaded. Please wait a few minutes and try again.`, status: 529 };
+    }
+    
+    if (error.message.includes('503') || error.message.includes('service')) {
+      return { error: `${errorProvider} service is temporarily unavailable. Please try again later.`, status: 503 };
+    }
+    
+    return { error: `Code generation failed: ${error.message}`, status: 500 };
+  }
+
+  return { error: 'An unexpected error occurred during code generation.', status: 500 };
+}
+
 export async function GET() {
   return NextResponse.json(
     { message: 'Code generation API endpoint. Use POST to generate code from Figma designs.' },
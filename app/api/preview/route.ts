@@ -1,35 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getHistoryStore } from '../../../lib/history-store';
+import { GenerationType } from '../../../types/codegen';
 
-interface ComponentData {
-  componentName: string;
-  code: string;
-  timestamp: number;
-  lineCount: number;
-  frameName?: string;
-  files?: Array<{ name: string; content: string; type: string }>;
+/**
+ * Parse a positive integer query parameter
+ */
+function parsePositiveInt(value: string | null): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return parsed > 0 ? parsed : undefined;
 }
 
-// In-memory storage for components
-let components: ComponentData[] = [];
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const frameName = searchParams.get('frame');
-    
-    if (frameName) {
-      // Filter components by frame name
-      const frameComponents = components.filter(comp => 
-        comp.frameName?.toLowerCase() === frameName.toLowerCase()
-      );
-      return NextResponse.json({ components: frameComponents });
+    const store = getHistoryStore();
+
+    const id = searchParams.get('id');
+    if (id) {
+      const record = await store.get(id);
+      if (!record) {
+        return NextResponse.json({ error: 'Component not found' }, { status: 404 });
+      }
+      return NextResponse.json({ component: record });
     }
-    
-    // Return all components with metadata
-    return NextResponse.json({ 
-      components,
-      total: components.length,
-      lastUpdated: components.length > 0 ? Math.max(...components.map(c => c.timestamp)) : null
+
+    const page = await store.list({
+      frameName: searchParams.get('frame') || undefined,
+      search: searchParams.get('search') || undefined,
+      page: parsePositiveInt(searchParams.get('page')),
+      pageSize: parsePositiveInt(searchParams.get('pageSize')),
+    });
+
+    return NextResponse.json({
+      components: page.records,
+      total: page.total,
+      page: page.page,
+      pageSize: page.pageSize,
+      totalPages: page.totalPages,
+      lastUpdated: page.lastUpdated,
     });
   } catch (error) {
     console.error('Error fetching components:', error);
@@ -40,33 +48,43 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { componentName, code, frameName, files } = body;
+    const {
+      componentName,
+      code,
+      frameName,
+      files,
+      fileKey,
+      nodeIds,
+      provider,
+      model,
+      generationType,
+      options,
+      promptHash,
+    } = body;
     
     if (!componentName || !code) {
       return NextResponse.json({ error: 'Component name and code are required' }, { status: 400 });
     }
     
-    const newComponent: ComponentData = {
+    const newComponent = await getHistoryStore().add({
       componentName,
       code,
       frameName: frameName || 'default',
-      timestamp: Date.now(),
-      lineCount: code.split('\n').length,
-      files: files || []
-    };
-    
-    // Add to components array
-    components.unshift(newComponent);
-    
-    // Keep only the last 10 components
-    if (components.length > 10) {
-      components = components.slice(0, 10);
-    }
+      files: files || [],
+      fileKey,
+      nodeIds: nodeIds || [],
+      provider: provider || 'manual',
+      model,
+      generationType: (generationType || 'component') as GenerationType,
+      options: options || {},
+      promptHash: promptHash || '',
+    });
+    const { total } = await getHistoryStore().list({ pageSize: 1 });
     
     return NextResponse.json({ 
       message: 'Component saved successfully',
       component: newComponent,
-      total: components.length
+      total
     });
   } catch (error) {
     console.error('Error saving component:', error);
@@ -77,32 +95,28 @@ export async function POST(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const frameName = searchParams.get('frame');
-    
-    if (frameName) {
-      // Delete components for specific frame
-      const initialCount = components.length;
-      components = components.filter(comp => 
-        comp.frameName?.toLowerCase() !== frameName.toLowerCase()
-      );
-      const deletedCount = initialCount - components.length;
-      
-      return NextResponse.json({ 
-        message: `Deleted ${deletedCount} components for frame '${frameName}'`,
-        remaining: components.length
-      });
+    const store = getHistoryStore();
+
+    const id = searchParams.get('id');
+    if (id) {
+      const deleted = await store.delete(id);
+      if (!deleted) {
+        return NextResponse.json({ error: 'Component not found' }, { status: 404 });
+      }
+      return NextResponse.json({ message: 'Deleted 1 component' });
     }
-    
-    // Clear all components
-    const deletedCount = components.length;
-    components = [];
-    
+
+    const frameName = searchParams.get('frame');
+    const { deleted, remaining } = await store.clear(frameName || undefined);
+
     return NextResponse.json({ 
-      message: `Deleted ${deletedCount} components`,
-      remaining: 0
+      message: frameName ?
+        `Deleted ${deleted} components for frame '${frameName}'` :
+        `Deleted ${deleted} components`,
+      remaining
     });
   } catch (error) {
     console.error('Error deleting components:', error);
     return NextResponse.json({ error: 'Failed to delete components' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -1,42 +1,53 @@
 'use client';
 
 import { useState } from 'react';
-import { FileText, Download, Copy, Eye, Settings, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
-import { ProcessedNode } from '../types/figma';
+import { FileText, Download, Copy, Eye, Settings, Loader2, AlertCircle, CheckCircle2, GitCompare } from 'lucide-react';
+import { FigmaFileOutline, ProcessedNode } from '../types/figma';
+import { GenerationResult } from '../types/codegen';
+import { DesignTokenSet } from '../types/tokens';
 import CodeViewer from '../components/CodeViewer';
 import MultiFileCodeViewer from '../components/MultiFileCodeViewer';
 import FigmaInput from '../components/FigmaInput';
 import FrameSelector from '../components/FrameSelector';
 import SmartFrameSelector from '../components/SmartFrameSelector';
+import SubtreeSelector from '../components/SubtreeSelector';
+import VersionDiff from '../components/VersionDiff';
 import GenerationOptions from '../components/GenerationOptions';
+import { applyGenerationEvent, readGenerationStream } from '../utils/generation-stream';
+import { designTokenFiles } from '../utils/design-tokens';
 
 interface FigmaData {
+  sessionId: string; // Server-side copy of the file; generation resolves frames from it by id
   fileName: string;
   fileKey: string;
-  frames: ProcessedNode[];
-  processedDocument: ProcessedNode;
+  frames: ProcessedNode[]; // Summaries, children below a few levels are left out
+  tokens?: DesignTokenSet;
+  loadedNodeIds?: string[]; // Set when only some layers of an oversized file or a deep link were loaded
 }
 
-interface GeneratedCode {
-  type: 'component' | 'page' | 'multiple';
-  componentName?: string;
-  pageName?: string;
-  code?: string;
-  files?: Array<{ name: string; content: string; type: string }>;
-  components?: Array<{ componentName: string; code: string; files?: Array<{ name: string; content: string; type: string }> }>;
+// Returned instead of the file when it is too large to fetch whole
+interface FileOutline {
+  figmaUrl: string;
+  accessToken: string;
+  fileName: string;
+  outline: FigmaFileOutline;
 }
 
 export default function HomePage() {
   const [figmaData, setFigmaData] = useState<FigmaData | null>(null);
+  const [accessToken, setAccessToken] = useState<string | null>(null); // Kept in memory for asset export
+  const [fileOutline, setFileOutline] = useState<FileOutline | null>(null);
   const [selectedFrames, setSelectedFrames] = useState<ProcessedNode[]>([]);
-  const [generatedCode, setGeneratedCode] = useState<GeneratedCode | null>(null);
+  const [generatedCode, setGeneratedCode] = useState<GenerationResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [useSmartSelector, setUseSmartSelector] = useState(true);
   
   // Generation options
-  const [generationType, setGenerationType] = useState<'component' | 'page' | 'multiple'>('component');
+  const [generationType, setGenerationType] = useState<'component' | 'page' | 'multiple' | 'flow'>('component');
   const [options, setOptions] = useState({
     framework: 'react' as const,
     styling: 'tailwind' as const,
@@ -44,14 +55,19 @@ export default function HomePage() {
     includeProps: true,
     responsive: true,
     pageName: 'HomePage',
-    provider: 'gemini' as const,
+    router: 'next-app' as 'next-app' | 'react-router',
+    provider: 'gemini' as 'claude' | 'openai' | 'gemini' | 'local' | 'deterministic',
+    model: '',
+    exportAssets: true,
+    assetScale: 2,
   });
 
-  const handleFigmaSubmit = async (figmaUrl: string, accessToken: string) => {
+  const handleFigmaSubmit = async (figmaUrl: string, accessToken: string, nodeIds?: string[]) => {
     setIsLoading(true);
     setError(null);
     setSuccess(null);
     setGeneratedCode(null);
+    if (!nodeIds) setFileOutline(null);
 
     try {
       console.log('Making request to /api/figma with:', { figmaUrl: figmaUrl.substring(0, 50) + '...', tokenLength: accessToken.length });
@@ -64,6 +80,7 @@ export default function HomePage() {
         body: JSON.stringify({
           figmaUrl,
           accessToken,
+          nodeIds,
         }),
       });
 
@@ -86,8 +103,23 @@ export default function HomePage() {
         throw new Error(result.error || 'Failed to fetch Figma file');
       }
 
+      if (result.data.requiresSelection) {
+        setFigmaData(null);
+        setSelectedFrames([]);
+        setFileOutline({ figmaUrl, accessToken, fileName: result.data.fileName, outline: result.data.outline });
+        return;
+      }
+
+      // Frames a deep link pointed at start out selected
+      const linkedNodeIds: string[] = result.data.linkedNodeIds || [];
+      const linkedFrames = result.data.frames.filter((frame: ProcessedNode) => linkedNodeIds.indexOf(frame.id) !== -1);
+
       setFigmaData(result.data);
-      setSuccess(`Successfully loaded "${result.data.fileName}" with ${result.data.frames.length} frames`);
+      setSelectedFrames(linkedFrames);
+      setAccessToken(accessToken);
+      setSuccess(linkedNodeIds.length > 0 ?
+        `Loaded the linked ${linkedNodeIds.length === 1 ? 'node' : 'nodes'} of "${result.data.fileName}" (${result.data.frames.length} frames)` :
+        `Successfully loaded "${result.data.fileName}" with ${result.data.frames.length} frames`);
     } catch (err) {
       console.error('Full error object:', err);
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
@@ -96,7 +128,41 @@ export default function HomePage() {
     }
   };
 
-  const handleGenerateCode = async () => {
+  // Saved Figma responses go through the same processing, without an access token
+  const handleSnapshotImport = async (snapshots: Array<{ name: string; content: string }>) => {
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+    setGeneratedCode(null);
+    setFileOutline(null);
+
+    try {
+      const response = await fetch('/api/figma/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ snapshots }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to import snapshot');
+      }
+
+      setFigmaData(result.data);
+      setSelectedFrames([]);
+      setAccessToken(null); // Assets can't be exported without the Figma API
+      setSuccess(`Imported "${result.data.fileName}" with ${result.data.frames.length} frames from ${snapshots.length} snapshot file${snapshots.length !== 1 ? 's' : ''}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Snapshot import failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // After a version diff, sessionId points at the newer version and unchanged components are reused
+  const handleGenerateCode = async (incremental?: { sessionId: string }) => {
     if (!selectedFrames.length) {
       setError('Please select at least one frame to generate code');
       return;
@@ -105,33 +171,79 @@ export default function HomePage() {
     setIsLoading(true);
     setError(null);
     setSuccess(null);
+    setGenerationProgress(null);
 
     try {
+      const { exportAssets, assetScale, ...generationOptions } = options;
       const response = await fetch('/api/generate', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          nodes: selectedFrames,
+          sessionId: incremental ? incremental.sessionId : figmaData?.sessionId,
+          nodeIds: selectedFrames.map(frame => frame.id),
+          reuseUnchanged: !!incremental,
           generationType,
-          options,
+          options: generationOptions,
           provider: options.provider,
+          model: options.model || undefined,
+          fileKey: figmaData?.fileKey,
+          assets: exportAssets && accessToken && figmaData ? { accessToken, scale: assetScale } : undefined,
+          stream: true,
         }),
       });
 
-      const result = await response.json();
-
+      // Validation and configuration errors arrive as plain JSON before streaming starts
       if (!response.ok) {
+        const result = await response.json();
         throw new Error(result.error || 'Failed to generate code');
       }
 
-      setGeneratedCode(result.data);
-      setSuccess('Code generated successfully!');
+      // Render code into the viewer as it arrives; the final result event replaces it with parsed files
+      setIsStreaming(true);
+      setGeneratedCode({
+        type: generationType,
+        componentName: generationType === 'component' ? (selectedFrames[0].componentName || selectedFrames[0].name) : undefined,
+        pageName: generationType === 'page' ? options.pageName : undefined,
+        router: generationType === 'flow' ? options.router : undefined,
+        files: [],
+        components: generationType === 'multiple' ? [] : undefined,
+      });
+
+      let completed = null as GenerationResult | null; // Set from the stream callback
+      await readGenerationStream(response, event => {
+        switch (event.type) {
+          case 'result':
+            completed = event.data;
+            setGeneratedCode(event.data);
+            break;
+          case 'error':
+            throw new Error(event.error);
+          case 'progress':
+            setGenerationProgress(`${event.status === 'started' ? 'Generating' : event.status === 'completed' ? 'Finished' : 'Failed'} component ${event.component + 1}/${event.total}: ${event.componentName}`);
+            setGeneratedCode(current => current && applyGenerationEvent(current, event));
+            break;
+          default:
+            setGeneratedCode(current => current && applyGenerationEvent(current, event));
+        }
+      });
+
+      if (!completed) {
+        throw new Error('Code generation stream ended unexpectedly');
+      }
+
+      const units: Array<{ reused?: boolean }> = completed.components || [completed];
+      const reusedCount = units.filter(unit => unit.reused).length;
+      setSuccess(incremental ?
+        `Regenerated ${units.length - reusedCount} changed and reused ${reusedCount} unchanged of ${units.length}` :
+        'Code generated successfully!');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Code generation failed');
     } finally {
       setIsLoading(false);
+      setIsStreaming(false);
+      setGenerationProgress(null);
     }
   };
 
@@ -303,9 +415,25 @@ The HTML file has been automatically created in your project root. Just double-c
               <FileText className="h-5 w-5" />
               Step 1: Import from Figma
             </h2>
-            <FigmaInput onSubmit={handleFigmaSubmit} isLoading={isLoading} />
+            <FigmaInput onSubmit={handleFigmaSubmit} onImport={handleSnapshotImport} isLoading={isLoading} />
           </div>
 
+          {/* Page and frame picker for files too large to load whole */}
+          {fileOutline && (
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-xl font-semibold text-slate-800 mb-4 flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Choose What to Load
+              </h2>
+              <SubtreeSelector
+                fileName={fileOutline.fileName}
+                outline={fileOutline.outline}
+                isLoading={isLoading}
+                onLoad={nodeIds => handleFigmaSubmit(fileOutline.figmaUrl, fileOutline.accessToken, nodeIds)}
+              />
+            </div>
+          )}
+
           {/* Frame Selection */}
           {figmaData && (
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
@@ -338,6 +466,24 @@ The HTML file has been automatically created in your project root. Just double-c
             </div>
           )}
 
+          {/* Version comparison, needs the Figma API */}
+          {figmaData && accessToken && (
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-xl font-semibold text-slate-800 mb-4 flex items-center gap-2">
+                <GitCompare className="h-5 w-5" />
+                Design Changes
+              </h2>
+              <VersionDiff
+                fileKey={figmaData.fileKey}
+                accessToken={accessToken}
+                nodeIds={figmaData.loadedNodeIds}
+                canRegenerate={selectedFrames.length > 0}
+                isLoading={isLoading}
+                onRegenerateChanged={sessionId => handleGenerateCode({ sessionId })}
+              />
+            </div>
+          )}
+
           {/* Generation Options */}
           {selectedFrames.length > 0 && (
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
@@ -353,14 +499,14 @@ The HTML file has been automatically created in your project root. Just double-c
               />
               
               <button
-                onClick={handleGenerateCode}
+                onClick={() => handleGenerateCode()}
                 disabled={isLoading || selectedFrames.length === 0}
                 className="mt-6 w-full bg-gradient-to-r from-blue-500 to-purple-600 text-white py-3 px-6 rounded-lg font-medium hover:from-blue-600 hover:to-purple-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
               >
                 {isLoading ? (
                   <>
                     <Loader2 className="h-5 w-5 animate-spin" />
-                    Generating...
+                    {generationProgress || 'Generating...'}
                   </>
                 ) : (
                   'Generate Code'
@@ -467,6 +613,7 @@ export default function TestComponent() {
                     <MultiFileCodeViewer
                       files={generatedCode.files}
                       title={generatedCode.componentName}
+                      streaming={isStreaming}
                     />
                   ) : generatedCode.code && (
                     <CodeViewer
@@ -539,6 +686,7 @@ export default function TestComponent() {
                     <MultiFileCodeViewer
                       files={generatedCode.files}
                       title={generatedCode.pageName}
+                      streaming={isStreaming}
                     />
                   ) : generatedCode.code && (
                     <CodeViewer
@@ -592,6 +740,28 @@ export default function TestComponent() {
                 </div>
               )}
 
+              {generatedCode.type === 'flow' && (generatedCode.code || generatedCode.files) && (
+                <div className="space-y-4">
+                  <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-4">
+                    <div className="flex items-center gap-2 text-orange-800 font-medium mb-2">
+                      <FileText className="h-4 w-4" />
+                      Prototype Flow Generated
+                    </div>
+                    <div className="text-sm text-orange-700">
+                      ✅ One {generatedCode.router === 'react-router' ? 'React Router' : 'Next.js App Router'} route per frame, the first selected frame at /<br/>
+                      ✅ Clickable elements link to the route their prototype connection leads to<br/>
+                      ✅ Overlays open as modals kept in the state of the screen that opens them
+                    </div>
+                  </div>
+
+                  <MultiFileCodeViewer
+                    files={generatedCode.files || []}
+                    title={generatedCode.pageName}
+                    streaming={isStreaming}
+                  />
+                </div>
+              )}
+
               {generatedCode.type === 'multiple' && generatedCode.components && (
                 <div className="space-y-4">
                   <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
@@ -631,6 +801,7 @@ export default function TestComponent() {
                         <MultiFileCodeViewer
                           files={component.files}
                           title={component.componentName}
+                          streaming={isStreaming}
                         />
                       ) : (
                         <CodeViewer
@@ -646,6 +817,23 @@ export default function TestComponent() {
             </div>
           )}
 
+          {/* Design tokens the generated code references */}
+          {generatedCode && figmaData?.tokens && figmaData.tokens.tokens.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-xl font-semibold text-slate-800 mb-2 flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Design Tokens
+              </h2>
+              <p className="text-sm text-slate-600 mb-4">
+                {figmaData.tokens.tokens.length} tokens from Figma styles and variables. Include tokens.css globally so the var(--…) references resolve.
+              </p>
+              <MultiFileCodeViewer
+                files={designTokenFiles(figmaData.tokens)}
+                title="Design Tokens"
+              />
+            </div>
+          )}
+
           {/* Instructions */}
           {!figmaData && (
             <div className="space-y-4">
@@ -1,25 +1,31 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { RefreshCw, Trash2, Code, Clock, FileText, Eye, Copy, CheckCircle2, Monitor } from 'lucide-react';
+import { RefreshCw, Trash2, Code, Clock, FileText, Eye, Copy, CheckCircle2, Monitor, Search, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import LivePreview from '../../components/LivePreview';
 
 interface ComponentData {
+  id: string;
   componentName: string;
   code: string;
   timestamp: number;
   lineCount: number;
   frameName?: string;
+  provider?: string;
 }
 
 interface PreviewResponse {
   components: ComponentData[];
   total: number;
+  page: number;
+  totalPages: number;
   lastUpdated: number | null;
 }
 
+const PAGE_SIZE = 20;
+
 export default function PreviewPage() {
   const [components, setComponents] = useState<ComponentData[]>([]);
   const [selectedComponent, setSelectedComponent] = useState<ComponentData | null>(null);
@@ -28,18 +34,34 @@ export default function PreviewPage() {
   const [copied, setCopied] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<number | null>(null);
   const [viewMode, setViewMode] = useState<'code' | 'preview'>('code');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
 
   const fetchComponents = async () => {
     setLoading(true);
     setError(null);
     
     try {
-      const response = await fetch('/api/preview');
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      if (search.trim()) {
+        params.set('search', search.trim());
+      }
+
+      const response = await fetch(`/api/preview?${params}`);
       const data: PreviewResponse = await response.json();
       
       if (response.ok) {
         setComponents(data.components);
         setLastUpdated(data.lastUpdated);
+        setTotal(data.total);
+        setTotalPages(data.totalPages);
+
+        // Deleting the last record on the last page leaves it empty
+        if (data.page > data.totalPages) {
+          setPage(data.totalPages);
+        }
         
         // Auto-select the first component if none selected
         if (!selectedComponent && data.components.length > 0) {
@@ -63,12 +85,31 @@ export default function PreviewPage() {
         setComponents([]);
         setSelectedComponent(null);
         setLastUpdated(null);
+        setTotal(0);
+        setTotalPages(1);
+        setPage(1);
       }
     } catch (err) {
       setError('Failed to clear components');
     }
   };
 
+  const deleteComponent = async (id: string) => {
+    try {
+      const response = await fetch(`/api/preview?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+      if (response.ok) {
+        if (selectedComponent?.id === id) {
+          setSelectedComponent(null);
+        }
+        await fetchComponents();
+      } else {
+        setError('Failed to delete component');
+      }
+    } catch (err) {
+      setError('Failed to delete component');
+    }
+  };
+
   const copyCode = async () => {
     if (selectedComponent) {
       try {
@@ -87,7 +128,7 @@ export default function PreviewPage() {
     // Auto-refresh every 3 seconds
     const interval = setInterval(fetchComponents, 3000);
     return () => clearInterval(interval);
-  }, []);
+  }, [page, search]);
 
   const formatTimestamp = (timestamp: number) => {
     return new Date(timestamp).toLocaleString();
@@ -132,7 +173,7 @@ export default function PreviewPage() {
               <div className="flex items-center space-x-4">
                 <span className="flex items-center space-x-2">
                   <FileText className="w-4 h-4" />
-                  <span>{components.length} components</span>
+                  <span>{total} components</span>
                 </span>
                 {lastUpdated && (
                   <span className="flex items-center space-x-2">
@@ -155,20 +196,39 @@ export default function PreviewPage() {
             <div className="w-1/3 border-r border-gray-200 overflow-y-auto">
               <div className="p-4">
                 <h2 className="text-lg font-semibold mb-3">Components</h2>
+                <div className="relative mb-3">
+                  <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                  <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => {
+                      setSearch(e.target.value);
+                      setPage(1);
+                    }}
+                    placeholder="Search by frame name"
+                    className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
                 {components.length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
                     <Code className="w-12 h-12 mx-auto mb-3 text-gray-300" />
-                    <p>No components generated yet</p>
-                    <p className="text-sm mt-1">Generate code from the main app to see previews</p>
+                    {search.trim() ? (
+                      <p>No components match "{search.trim()}"</p>
+                    ) : (
+                      <>
+                        <p>No components generated yet</p>
+                        <p className="text-sm mt-1">Generate code from the main app to see previews</p>
+                      </>
+                    )}
                   </div>
                 ) : (
                   <div className="space-y-2">
-                    {components.map((component, index) => (
+                    {components.map((component) => (
                       <div
-                        key={index}
+                        key={component.id}
                         onClick={() => setSelectedComponent(component)}
                         className={`p-3 rounded-lg cursor-pointer transition-colors ${
-                          selectedComponent === component
+                          selectedComponent?.id === component.id
                             ? 'bg-blue-50 border-2 border-blue-200'
                             : 'bg-gray-50 hover:bg-gray-100 border-2 border-transparent'
                         }`}
@@ -177,9 +237,21 @@ export default function PreviewPage() {
                           <h3 className="font-medium text-gray-900 truncate">
                             {component.componentName}
                           </h3>
-                          <span className="text-xs text-gray-500">
-                            {component.lineCount} lines
-                          </span>
+                          <div className="flex items-center space-x-2">
+                            <span className="text-xs text-gray-500">
+                              {component.lineCount} lines
+                            </span>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                deleteComponent(component.id);
+                              }}
+                              className="p-1 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                              title="Delete from history"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          </div>
                         </div>
                         {component.frameName && (
                           <div className="text-xs text-blue-600 mb-1">
@@ -188,11 +260,33 @@ export default function PreviewPage() {
                         )}
                         <div className="text-xs text-gray-500">
                           {formatTimestamp(component.timestamp)}
+                          {component.provider && ` • ${component.provider}`}
                         </div>
                       </div>
                     ))}
                   </div>
                 )}
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                    <button
+                      onClick={() => setPage(page - 1)}
+                      disabled={page <= 1}
+                      className="flex items-center space-x-1 px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                      <span>Newer</span>
+                    </button>
+                    <span>Page {page} of {totalPages}</span>
+                    <button
+                      onClick={() => setPage(page + 1)}
+                      disabled={page >= totalPages}
+                      className="flex items-center space-x-1 px-2 py-1 rounded hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      <span>Older</span>
+                      <ChevronRight className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -1,16 +1,26 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Link, Key, Loader2 } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Link, Key, Loader2, Upload, FolderOpen, FileJson } from 'lucide-react';
+import FileBrowser from './FileBrowser';
 
 interface FigmaInputProps {
   onSubmit: (figmaUrl: string, accessToken: string) => void;
+  onImport: (snapshots: Array<{ name: string; content: string }>) => void;
   isLoading: boolean;
 }
 
-export default function FigmaInput({ onSubmit, isLoading }: FigmaInputProps) {
+export default function FigmaInput({ onSubmit, onImport, isLoading }: FigmaInputProps) {
+  const [mode, setMode] = useState<'url' | 'browse' | 'snapshot'>('url');
   const [figmaUrl, setFigmaUrl] = useState('');
   const [accessToken, setAccessToken] = useState('');
+  const [snapshotFiles, setSnapshotFiles] = useState<File[]>([]);
+  const directoryInputRef = useRef<HTMLInputElement>(null);
+
+  // React doesn't know the directory picker attribute, so set it on the element
+  useEffect(() => {
+    directoryInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [mode]);
 
   // Check if form is valid - both fields have content
   const isFormValid = figmaUrl.length > 0 && accessToken.length > 0;
@@ -35,8 +45,163 @@ export default function FigmaInput({ onSubmit, isLoading }: FigmaInputProps) {
     }
   };
 
+  const handleFilesChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.prototype.slice.call(e.target.files || []) as File[];
+    setSnapshotFiles(files.filter(file => file.name.toLowerCase().endsWith('.json')));
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    const snapshots = await Promise.all(snapshotFiles.map(async file => ({
+      name: file.webkitRelativePath || file.name,
+      content: await file.text(),
+    })));
+    onImport(snapshots);
+  };
+
+  const modeButton = (value: 'url' | 'browse' | 'snapshot', label: string) => (
+    <button
+      type="button"
+      onClick={() => setMode(value)}
+      className={`flex-1 py-2 text-sm font-medium rounded-md transition-colors ${
+        mode === value ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  // Shared by the URL form and the team browser
+  const tokenField = (
+    <div>
+      <label htmlFor="access-token" className="block text-sm font-medium text-slate-700 mb-2">
+        Figma Access Token
+      </label>
+      <div className="relative">
+        <Key className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400" />
+        <input
+          id="access-token"
+          type="password"
+          value={accessToken}
+          onChange={(e) => setAccessToken(e.target.value)}
+          placeholder="figd_..."
+          className="w-full pl-10 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+          required
+          disabled={isLoading}
+        />
+      </div>
+      <p className="text-sm text-slate-500 mt-1">
+        Get your token from{' '}
+        <a
+          href="https://www.figma.com/settings"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 hover:text-blue-700 underline"
+        >
+          Figma Settings → Personal Access Tokens
+        </a>
+      </p>
+    </div>
+  );
+
+  if (mode === 'browse') {
+    return (
+      <div className="space-y-4">
+        <div className="flex gap-1 p-1 bg-slate-100 rounded-lg">
+          {modeButton('url', 'Figma URL')}
+          {modeButton('browse', 'Browse Team')}
+          {modeButton('snapshot', 'Import JSON')}
+        </div>
+
+        {tokenField}
+
+        <FileBrowser
+          accessToken={accessToken.trim()}
+          isLoading={isLoading}
+          onOpen={fileKey => onSubmit(`https://www.figma.com/file/${fileKey}`, accessToken.trim())}
+        />
+
+        {isLoading && (
+          <p className="flex items-center justify-center gap-2 text-sm text-slate-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading File...
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  if (mode === 'snapshot') {
+    return (
+      <div className="space-y-4">
+        <div className="flex gap-1 p-1 bg-slate-100 rounded-lg">
+          {modeButton('url', 'Figma URL')}
+          {modeButton('browse', 'Browse Team')}
+          {modeButton('snapshot', 'Import JSON')}
+        </div>
+
+        <div>
+          <p className="text-sm text-slate-600 mb-3">
+            Upload saved responses of <code>GET /v1/files/:key</code> or <code>GET /v1/files/:key/nodes</code>, or a
+            folder of them. A saved <code>/variables/local</code> response adds variable names.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex items-center justify-center gap-2 py-3 border-2 border-dashed border-slate-300 rounded-lg text-sm text-slate-600 hover:border-blue-400 hover:text-blue-600 cursor-pointer transition-colors">
+              <Upload className="h-4 w-4" />
+              Choose files
+              <input type="file" accept=".json,application/json" multiple className="hidden" onChange={handleFilesChosen} disabled={isLoading} />
+            </label>
+            <label className="flex items-center justify-center gap-2 py-3 border-2 border-dashed border-slate-300 rounded-lg text-sm text-slate-600 hover:border-blue-400 hover:text-blue-600 cursor-pointer transition-colors">
+              <FolderOpen className="h-4 w-4" />
+              Choose folder
+              <input ref={directoryInputRef} type="file" multiple className="hidden" onChange={handleFilesChosen} disabled={isLoading} />
+            </label>
+          </div>
+        </div>
+
+        {snapshotFiles.length > 0 && (
+          <ul className="max-h-40 overflow-y-auto space-y-1 text-sm text-slate-600">
+            {snapshotFiles.map(file => (
+              <li key={file.webkitRelativePath || file.name} className="flex items-center gap-2">
+                <FileJson className="h-4 w-4 text-slate-400 flex-shrink-0" />
+                <span className="truncate">{file.webkitRelativePath || file.name}</span>
+                <span className="text-xs text-slate-400 flex-shrink-0">{Math.ceil(file.size / 1024)} KB</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={snapshotFiles.length === 0 || isLoading}
+          className={`w-full py-3 px-4 rounded-lg font-medium transition-colors duration-200 flex items-center justify-center gap-2 ${
+            snapshotFiles.length > 0 && !isLoading
+              ? 'bg-blue-600 text-white hover:bg-blue-700'
+              : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+          }`}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            `Import ${snapshotFiles.length || ''} Snapshot${snapshotFiles.length === 1 ? '' : 's'}`
+          )}
+        </button>
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex gap-1 p-1 bg-slate-100 rounded-lg">
+        {modeButton('url', 'Figma URL')}
+        {modeButton('browse', 'Browse Team')}
+        {modeButton('snapshot', 'Import JSON')}
+      </div>
+
       {/* Figma URL Input */}
       <div>
         <label htmlFor="figma-url" className="block text-sm font-medium text-slate-700 mb-2">
@@ -60,36 +225,7 @@ export default function FigmaInput({ onSubmit, isLoading }: FigmaInputProps) {
         </p>
       </div>
 
-      {/* Access Token Input */}
-      <div>
-        <label htmlFor="access-token" className="block text-sm font-medium text-slate-700 mb-2">
-          Figma Access Token
-        </label>
-        <div className="relative">
-          <Key className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-slate-400" />
-          <input
-            id="access-token"
-            type="password"
-            value={accessToken}
-            onChange={(e) => setAccessToken(e.target.value)}
-            placeholder="figd_..."
-            className="w-full pl-10 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
-            required
-            disabled={isLoading}
-          />
-        </div>
-        <p className="text-sm text-slate-500 mt-1">
-          Get your token from{' '}
-          <a
-            href="https://www.figma.com/settings"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-blue-600 hover:text-blue-700 underline"
-          >
-            Figma Settings → Personal Access Tokens
-          </a>
-        </p>
-      </div>
+      {tokenField}
 
       {/* Submit Button */}
       <button
@@ -119,6 +255,7 @@ export default function FigmaInput({ onSubmit, isLoading }: FigmaInputProps) {
           <li>• Your access token needs read access to the file</li>
           <li>• You can use direct API URLs like: https://api.figma.com/v1/files/YOUR_FILE_KEY</li>
           <li>• Or paste regular Figma URLs like: https://www.figma.com/file/...</li>
+          <li>• Links to a frame (<code>?node-id=...</code>), a prototype or a branch load just that frame, preselected</li>
         </ul>
       </div>
     </form>
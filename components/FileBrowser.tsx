@@ -0,0 +1,257 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FigmaProject, FigmaProjectFile } from '../types/figma';
+import { ArrowLeft, Folder, Loader2, Pin, Search, X } from 'lucide-react';
+
+interface FileBrowserProps {
+  accessToken: string;
+  isLoading: boolean;
+  onOpen: (fileKey: string) => void;
+}
+
+// A file opened from the browser, pinned above the team's projects
+interface PinnedFile extends FigmaProjectFile {
+  projectName?: string;
+}
+
+const TEAM_ID_KEY = 'figma-browser-team-id';
+const PINNED_FILES_KEY = 'figma-browser-pinned-files';
+const MAX_PINNED_FILES = 8;
+
+/**
+ * Team id from a bare id or a team URL such as https://www.figma.com/files/team/123/...
+ */
+function parseTeamId(input: string): string {
+  const match = input.match(/team\/(\d+)/);
+  return match ? match[1] : input.trim();
+}
+
+/**
+ * Pinned files saved in this browser, most recently opened first
+ */
+function loadPinnedFiles(): PinnedFile[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PINNED_FILES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export default function FileBrowser({ accessToken, isLoading, onOpen }: FileBrowserProps) {
+  const [teamInput, setTeamInput] = useState('');
+  const [teamName, setTeamName] = useState<string | null>(null);
+  const [projects, setProjects] = useState<FigmaProject[] | null>(null);
+  const [project, setProject] = useState<FigmaProject | null>(null);
+  const [files, setFiles] = useState<FigmaProjectFile[] | null>(null);
+  const [pinnedFiles, setPinnedFiles] = useState<PinnedFile[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // localStorage is only available once mounted in the browser
+  useEffect(() => {
+    setTeamInput(localStorage.getItem(TEAM_ID_KEY) || '');
+    setPinnedFiles(loadPinnedFiles());
+  }, []);
+
+  const post = async (url: string, body: object) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details || result.error || 'Request failed');
+    }
+    return result.data;
+  };
+
+  const loadProjects = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const teamId = parseTeamId(teamInput);
+    if (!teamId || !accessToken) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await post('/api/figma/projects', { teamId, accessToken });
+      localStorage.setItem(TEAM_ID_KEY, teamId);
+      setTeamInput(teamId);
+      setTeamName(data.teamName);
+      setProjects(data.projects);
+      setProject(null);
+      setFiles(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load projects');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openProject = async (selected: FigmaProject) => {
+    setBusy(true);
+    setError(null);
+    setProject(selected);
+    setFiles(null);
+    try {
+      const data = await post('/api/figma/files', { projectId: selected.id, accessToken });
+      setFiles(data.files);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load files');
+      setProject(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const savePinnedFiles = (next: PinnedFile[]) => {
+    setPinnedFiles(next);
+    localStorage.setItem(PINNED_FILES_KEY, JSON.stringify(next));
+  };
+
+  const openFile = (file: PinnedFile) => {
+    const pinned: PinnedFile = { ...file, projectName: file.projectName || project?.name };
+    savePinnedFiles([pinned].concat(pinnedFiles.filter(p => p.key !== file.key)).slice(0, MAX_PINNED_FILES));
+    onOpen(file.key);
+  };
+
+  const unpin = (key: string) => {
+    savePinnedFiles(pinnedFiles.filter(file => file.key !== key));
+  };
+
+  const renderFile = (file: PinnedFile, pinned: boolean) => (
+    <li key={file.key} className="relative group">
+      <button
+        type="button"
+        onClick={() => openFile(file)}
+        disabled={isLoading || !accessToken}
+        className="w-full text-left border border-slate-200 rounded-lg overflow-hidden hover:border-blue-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <div className="h-20 bg-slate-100">
+          {file.thumbnail_url && (
+            // Thumbnail URLs expire; pinned files fall back to the placeholder
+            <img
+              src={file.thumbnail_url}
+              alt=""
+              className="w-full h-full object-cover"
+              onError={(e) => { e.currentTarget.style.display = 'none'; }}
+            />
+          )}
+        </div>
+        <div className="p-2">
+          <p className="text-sm font-medium text-slate-700 truncate">{file.name}</p>
+          <p className="text-xs text-slate-400 truncate">
+            {pinned && file.projectName ? `${file.projectName} · ` : ''}Edited {new Date(file.last_modified).toLocaleDateString()}
+          </p>
+        </div>
+      </button>
+      {pinned && (
+        <button
+          type="button"
+          onClick={() => unpin(file.key)}
+          title="Unpin"
+          className="absolute top-1 right-1 p-1 rounded bg-white/90 text-slate-500 hover:text-slate-800 opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="space-y-4">
+      {pinnedFiles.length > 0 && (
+        <div>
+          <h4 className="flex items-center gap-1 text-sm font-medium text-slate-700 mb-2">
+            <Pin className="h-4 w-4" />
+            Recently opened
+          </h4>
+          <ul className="grid grid-cols-2 gap-3">
+            {pinnedFiles.map(file => renderFile(file, true))}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={loadProjects}>
+        <label htmlFor="team-id" className="block text-sm font-medium text-slate-700 mb-2">
+          Team
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="team-id"
+            type="text"
+            value={teamInput}
+            onChange={(e) => setTeamInput(e.target.value)}
+            placeholder="Team id or https://www.figma.com/files/team/..."
+            className="flex-1 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={busy}
+          />
+          <button
+            type="submit"
+            disabled={busy || !teamInput.trim() || !accessToken}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-slate-800 text-white rounded-lg hover:bg-slate-900 transition-colors disabled:opacity-50"
+          >
+            {busy && !project ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            Projects
+          </button>
+        </div>
+        <p className="text-sm text-slate-500 mt-1">
+          The team id is the number after <code>/team/</code> in the URL of your team&apos;s page in Figma
+        </p>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {projects && !project && (
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 mb-2">{teamName || 'Projects'}</h4>
+          {projects.length === 0 ? (
+            <p className="text-sm text-slate-500">This team has no projects you can access.</p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto space-y-1">
+              {projects.map(p => (
+                <li key={p.id}>
+                  <button
+                    type="button"
+                    onClick={() => openProject(p)}
+                    disabled={busy}
+                    className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-slate-700 rounded-lg hover:bg-slate-100 transition-colors"
+                  >
+                    <Folder className="h-4 w-4 text-slate-400 flex-shrink-0" />
+                    <span className="truncate">{p.name}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {project && (
+        <div>
+          <button
+            type="button"
+            onClick={() => { setProject(null); setFiles(null); }}
+            className="flex items-center gap-1 text-sm font-medium text-slate-700 mb-2 hover:text-slate-900"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            {project.name}
+          </button>
+          {!files ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+            </div>
+          ) : files.length === 0 ? (
+            <p className="text-sm text-slate-500">This project has no files.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto grid grid-cols-2 gap-3">
+              {files.map(file => renderFile(file, false))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
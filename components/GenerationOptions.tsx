@@ -1,7 +1,7 @@
 'use client';
 
 interface GenerationOptionsProps {
-  generationType: 'component' | 'page' | 'multiple';
+  generationType: 'component' | 'page' | 'multiple' | 'flow';
   options: {
     framework: 'react' | 'vue' | 'angular';
     styling: 'tailwind' | 'css' | 'styled-components';
@@ -9,9 +9,13 @@ interface GenerationOptionsProps {
     includeProps: boolean;
     responsive: boolean;
     pageName: string;
-    provider: 'claude' | 'openai' | 'gemini';
+    router: 'next-app' | 'react-router';
+    provider: 'claude' | 'openai' | 'gemini' | 'local' | 'deterministic';
+    model: string;
+    exportAssets: boolean;
+    assetScale: number;
   };
-  onGenerationTypeChange: (type: 'component' | 'page' | 'multiple') => void;
+  onGenerationTypeChange: (type: 'component' | 'page' | 'multiple' | 'flow') => void;
   onOptionsChange: (options: any) => void;
 }
 
@@ -28,6 +32,15 @@ export default function GenerationOptions({
     });
   };
 
+  // A model name only makes sense for the provider it was typed for
+  const selectProvider = (provider: GenerationOptionsProps['options']['provider']) => {
+    onOptionsChange({
+      ...options,
+      provider,
+      model: provider === options.provider ? options.model : '',
+    });
+  };
+
   return (
     <div className="space-y-6">
       {/* Generation Type */}
@@ -74,6 +87,19 @@ export default function GenerationOptions({
             <div className="text-sm opacity-75">Generate one complete page with all frames as sections</div>
             <div className="text-xs mt-1 text-purple-600">→ Output: 1 comprehensive page file</div>
           </button>
+
+          <button
+            onClick={() => onGenerationTypeChange('flow')}
+            className={`p-3 text-left border rounded-lg transition-all ${
+              generationType === 'flow'
+                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                : 'border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <div className="font-medium">Prototype Flow</div>
+            <div className="text-sm opacity-75">Generate an app with one route per frame, linked as in the prototype</div>
+            <div className="text-xs mt-1 text-orange-600">→ Output: Route files, modals for overlays</div>
+          </button>
         </div>
       </div>
 
@@ -82,9 +108,9 @@ export default function GenerationOptions({
         <label className="block text-sm font-medium text-slate-700 mb-3">
           LLM Arena
         </label>
-        <div className="grid grid-cols-3 gap-2">
+        <div className="grid grid-cols-2 gap-2">
           <button
-            onClick={() => updateOption('provider', 'claude')}
+            onClick={() => selectProvider('claude')}
             className={`p-3 text-left border rounded-lg transition-all ${
               options.provider === 'claude'
                 ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -96,7 +122,7 @@ export default function GenerationOptions({
           </button>
           
           <button
-            onClick={() => updateOption('provider', 'openai')}
+            onClick={() => selectProvider('openai')}
             className={`p-3 text-left border rounded-lg transition-all ${
               options.provider === 'openai'
                 ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -108,7 +134,7 @@ export default function GenerationOptions({
           </button>
 
           <button
-            onClick={() => updateOption('provider', 'gemini')}
+            onClick={() => selectProvider('gemini')}
             className={`p-3 text-left border rounded-lg transition-all ${
               options.provider === 'gemini'
                 ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -118,7 +144,53 @@ export default function GenerationOptions({
             <div className="font-medium">Gemini</div>
             <div className="text-xs opacity-75">Google's Gemini 2.5 Flash</div>
           </button>
+
+          <button
+            onClick={() => selectProvider('local')}
+            className={`p-3 text-left border rounded-lg transition-all ${
+              options.provider === 'local'
+                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                : 'border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <div className="font-medium">Local LLM</div>
+            <div className="text-xs opacity-75">Ollama, vLLM, llama.cpp (OpenAI-compatible)</div>
+          </button>
+
+          <button
+            onClick={() => selectProvider('deterministic')}
+            className={`p-3 text-left border rounded-lg transition-all ${
+              options.provider === 'deterministic'
+                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                : 'border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <div className="font-medium">No LLM</div>
+            <div className="text-xs opacity-75">Deterministic, React only</div>
+          </button>
+        </div>
+
+        {/* Model override, required in practice for self-hosted servers */}
+        {options.provider !== 'deterministic' && (
+        <div className="mt-3">
+          <label htmlFor="model-name" className="block text-sm font-medium text-slate-700 mb-2">
+            Model Name {options.provider !== 'local' && <span className="font-normal text-slate-500">(optional)</span>}
+          </label>
+          <input
+            id="model-name"
+            type="text"
+            value={options.model}
+            onChange={(e) => updateOption('model', e.target.value)}
+            placeholder={options.provider === 'local' ? 'llama3.1 (defaults to LOCAL_LLM_MODEL)' : 'Provider default'}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {options.provider === 'local' && (
+            <p className="text-sm text-slate-500 mt-1">
+              Requests go to the server in LOCAL_LLM_BASE_URL, e.g. http://localhost:11434/v1 for Ollama
+            </p>
+          )}
         </div>
+        )}
       </div>
 
       {/* Framework Selection */}
@@ -235,6 +307,30 @@ export default function GenerationOptions({
               <div className="text-sm text-slate-500">Include mobile-first responsive styles</div>
             </div>
           </label>
+
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.exportAssets}
+              onChange={(e) => updateOption('exportAssets', e.target.checked)}
+              className="w-4 h-4 text-blue-600 border-slate-300 rounded focus:ring-blue-500"
+            />
+            <div className="flex-1">
+              <div className="font-medium text-slate-700">Export Images & Icons</div>
+              <div className="text-sm text-slate-500">Add image fills and vectors to an assets/ folder (SVG, PNG at the chosen scale)</div>
+            </div>
+            {options.exportAssets && (
+              <select
+                value={options.assetScale}
+                onChange={(e) => updateOption('assetScale', Number(e.target.value))}
+                className="px-2 py-1 text-sm border border-slate-300 rounded"
+              >
+                {[1, 2, 3, 4].map(scale => (
+                  <option key={scale} value={scale}>{scale}x</option>
+                ))}
+              </select>
+            )}
+          </label>
         </div>
       </div>
 
@@ -258,11 +354,45 @@ export default function GenerationOptions({
         </div>
       )}
 
+      {/* Router (only for flow generation) */}
+      {generationType === 'flow' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-3">
+            Router
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              { value: 'next-app', label: 'Next.js App Router', desc: 'app/<route>/page.tsx' },
+              { value: 'react-router', label: 'React Router', desc: 'src/App.tsx with <Routes>' },
+            ] as const).map((router) => (
+              <button
+                key={router.value}
+                onClick={() => updateOption('router', router.value)}
+                className={`p-3 text-left border rounded-lg transition-all ${
+                  options.router === router.value
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <div className="font-medium">{router.label}</div>
+                <div className="text-xs opacity-75">{router.desc}</div>
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-slate-500 mt-2">
+            The first selected frame is the home route. Frames only opened as overlays become modals.
+          </p>
+        </div>
+      )}
+
       {/* Preview Settings */}
       <div className="bg-slate-50 rounded-lg p-4 text-sm">
         <h4 className="font-medium text-slate-700 mb-2">Generation Preview:</h4>
         <ul className="space-y-1 text-slate-600">
-          <li>• AI Provider: <span className="font-medium">{options.provider === 'claude' ? 'Claude AI' : options.provider === 'openai' ? 'OpenAI' : 'Gemini'}</span></li>
+          <li>• AI Provider: <span className="font-medium">{options.provider === 'claude' ? 'Claude AI' : options.provider === 'openai' ? 'OpenAI' : options.provider === 'local' ? 'Local LLM' : options.provider === 'deterministic' ? 'No LLM (Deterministic)' : 'Gemini'}</span></li>
+          {options.model && (
+            <li>• Model: <span className="font-medium">{options.model}</span></li>
+          )}
           <li>• Framework: <span className="font-medium">{options.framework === 'angular' ? 'Angular 8' : options.framework.charAt(0).toUpperCase() + options.framework.slice(1)}</span></li>
           <li>• Styling: <span className="font-medium">{
             options.styling === 'tailwind' ? 'Tailwind CSS' : 
@@ -274,6 +404,9 @@ export default function GenerationOptions({
           {generationType === 'page' && (
             <li>• Page Name: <span className="font-medium">{options.pageName}</span></li>
           )}
+          {generationType === 'flow' && (
+            <li>• Router: <span className="font-medium">{options.router === 'next-app' ? 'Next.js App Router' : 'React Router'}</span></li>
+          )}
         </ul>
       </div>
     </div>
@@ -1,23 +1,31 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import CodeViewer from './CodeViewer';
-import { FileText, Code, Palette, Globe } from 'lucide-react';
+import { FileText, Code, Palette, Globe, Image as ImageIcon } from 'lucide-react';
 
 interface CodeFile {
   name: string;
   content: string;
   type: string;
+  encoding?: 'base64';
 }
 
 interface MultiFileCodeViewerProps {
   files: CodeFile[];
   title?: string;
+  streaming?: boolean; // Files are still arriving; follow the one being written
 }
 
-export default function MultiFileCodeViewer({ files, title }: MultiFileCodeViewerProps) {
+export default function MultiFileCodeViewer({ files, title, streaming = false }: MultiFileCodeViewerProps) {
   const [activeFile, setActiveFile] = useState(0);
 
+  useEffect(() => {
+    if (streaming && files.length > 0) {
+      setActiveFile(files.length - 1);
+    }
+  }, [streaming, files.length]);
+
   if (files.length === 0) {
     return (
       <div className="border border-slate-200 rounded-lg p-8 text-center text-slate-500">
@@ -27,16 +35,27 @@ export default function MultiFileCodeViewer({ files, title }: MultiFileCodeViewe
     );
   }
 
+  // Binary assets are shown rather than dumped as base64
+  const renderFile = (file: CodeFile, language: string) => file.encoding === 'base64' ? (
+    <div className="p-6 flex flex-col items-center gap-2 bg-slate-50">
+      <img src={`data:image/${file.type === 'jpg' ? 'jpeg' : file.type};base64,${file.content}`} alt={file.name} className="max-w-full max-h-96" />
+      <span className="text-xs text-slate-500">{file.name}</span>
+    </div>
+  ) : (
+    <CodeViewer
+      code={file.content}
+      language={language}
+      title={file.name}
+    />
+  );
+
   if (files.length === 1) {
-    return (
-      <CodeViewer
-        code={files[0].content}
-        language={files[0].type}
-        title={files[0].name}
-      />
-    );
+    return renderFile(files[0], files[0].type);
   }
 
+  // A retry can restart the stream with fewer files than the selected tab
+  const currentFile = Math.min(activeFile, files.length - 1);
+
   const getFileIcon = (type: string) => {
     switch (type.toLowerCase()) {
       case 'tsx':
@@ -51,6 +70,12 @@ export default function MultiFileCodeViewer({ files, title }: MultiFileCodeViewe
       case 'scss':
       case 'sass':
         return <Palette className="h-4 w-4" />;
+      case 'png':
+      case 'jpg':
+      case 'gif':
+      case 'webp':
+      case 'svg':
+        return <ImageIcon className="h-4 w-4" />;
       default:
         return <FileText className="h-4 w-4" />;
     }
@@ -66,6 +91,8 @@ export default function MultiFileCodeViewer({ files, title }: MultiFileCodeViewe
         return 'typescript';
       case 'js':
         return 'javascript';
+      case 'json':
+        return 'json';
       case 'html':
         return 'html';
       case 'css':
@@ -73,6 +100,8 @@ export default function MultiFileCodeViewer({ files, title }: MultiFileCodeViewe
       case 'scss':
       case 'sass':
         return 'scss';
+      case 'svg':
+        return 'markup';
       default:
         return 'text';
     }
@@ -95,7 +124,7 @@ export default function MultiFileCodeViewer({ files, title }: MultiFileCodeViewe
               key={index}
               onClick={() => setActiveFile(index)}
               className={`flex items-center gap-2 px-4 py-3 text-sm font-medium whitespace-nowrap transition-colors ${
-                activeFile === index
+                currentFile === index
                   ? 'bg-white text-blue-600 border-b-2 border-blue-600'
                   : 'text-slate-600 hover:text-slate-800 hover:bg-slate-50'
               }`}
@@ -109,11 +138,7 @@ export default function MultiFileCodeViewer({ files, title }: MultiFileCodeViewe
 
       {/* Active file content */}
       <div className="bg-white">
-        <CodeViewer
-          code={files[activeFile].content}
-          language={getLanguageForFile(files[activeFile].type)}
-          title={files[activeFile].name}
-        />
+        {renderFile(files[currentFile], getLanguageForFile(files[currentFile].type))}
       </div>
     </div>
   );
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { FigmaFileOutline } from '../types/figma';
+import { FileText, ChevronDown, ChevronRight, Check, Loader2 } from 'lucide-react';
+
+interface SubtreeSelectorProps {
+  fileName: string;
+  outline: FigmaFileOutline;
+  isLoading: boolean;
+  onLoad: (nodeIds: string[]) => void;
+}
+
+export default function SubtreeSelector({ fileName, outline, isLoading, onLoad }: SubtreeSelectorProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [expandedPages, setExpandedPages] = useState<string[]>(outline.pages.slice(0, 1).map(page => page.id));
+
+  const toggleLayer = (id: string) => {
+    setSelectedIds(current => current.indexOf(id) !== -1 ? current.filter(selected => selected !== id) : [...current, id]);
+  };
+
+  // Selecting a page selects its top-level layers, which are fetched in batches
+  const togglePage = (layerIds: string[]) => {
+    const allSelected = layerIds.every(id => selectedIds.indexOf(id) !== -1);
+    setSelectedIds(current => allSelected
+      ? current.filter(id => layerIds.indexOf(id) === -1)
+      : [...current, ...layerIds.filter(id => current.indexOf(id) === -1)]);
+  };
+
+  const toggleExpanded = (pageId: string) => {
+    setExpandedPages(current => current.indexOf(pageId) !== -1 ? current.filter(id => id !== pageId) : [...current, pageId]);
+  };
+
+  const checkbox = (checked: boolean, partial = false) => (
+    <div className={`w-4 h-4 border-2 rounded flex items-center justify-center flex-shrink-0 transition-all ${
+      checked ? 'bg-blue-600 border-blue-600' : partial ? 'bg-blue-200 border-blue-400' : 'border-slate-300'
+    }`}>
+      {checked && <Check className="h-3 w-3 text-white" />}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+        <strong>{fileName}</strong> is too large to load at once. Pick the pages or frames you want to work with and
+        only those layers will be fetched.
+      </div>
+
+      <div className="max-h-96 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-200">
+        {outline.pages.map(page => {
+          const layerIds = page.layers.map(layer => layer.id);
+          const selectedCount = layerIds.filter(id => selectedIds.indexOf(id) !== -1).length;
+          const isExpanded = expandedPages.indexOf(page.id) !== -1;
+
+          return (
+            <div key={page.id}>
+              <div className="flex items-center gap-2 px-3 py-2 bg-slate-50">
+                <button
+                  onClick={() => toggleExpanded(page.id)}
+                  className="text-slate-500 hover:text-slate-700"
+                  title={isExpanded ? 'Collapse page' : 'Expand page'}
+                >
+                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </button>
+                <button
+                  onClick={() => togglePage(layerIds)}
+                  disabled={layerIds.length === 0}
+                  className="flex items-center gap-2 flex-1 min-w-0 text-left disabled:opacity-50"
+                >
+                  {checkbox(layerIds.length > 0 && selectedCount === layerIds.length, selectedCount > 0)}
+                  <FileText className="h-4 w-4 text-slate-500 flex-shrink-0" />
+                  <span className="font-medium text-slate-700 truncate">{page.name}</span>
+                  <span className="text-xs text-slate-500 flex-shrink-0">
+                    {selectedCount > 0 ? `${selectedCount}/` : ''}{layerIds.length} layer{layerIds.length !== 1 ? 's' : ''}
+                  </span>
+                </button>
+              </div>
+
+              {isExpanded && page.layers.map(layer => (
+                <button
+                  key={layer.id}
+                  onClick={() => toggleLayer(layer.id)}
+                  className="w-full flex items-center gap-2 pl-10 pr-3 py-1.5 text-left text-sm hover:bg-slate-50"
+                >
+                  {checkbox(selectedIds.indexOf(layer.id) !== -1)}
+                  <span className="text-slate-700 truncate flex-1">{layer.name}</span>
+                  <span className="text-xs text-slate-400 flex-shrink-0">
+                    {layer.type}
+                    {layer.width && layer.height ? ` · ${Math.round(layer.width)}×${Math.round(layer.height)}` : ''}
+                  </span>
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => onLoad(selectedIds)}
+        disabled={isLoading || selectedIds.length === 0}
+        className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isLoading ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading layers...
+          </>
+        ) : (
+          `Load ${selectedIds.length} selected layer${selectedIds.length !== 1 ? 's' : ''}`
+        )}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import { DesignDiff, DiffEntry, DiffStatus, FigmaVersion } from '../types/diff';
+import { GitCompare, History, Loader2, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface VersionDiffProps {
+  fileKey: string;
+  accessToken: string;
+  nodeIds?: string[]; // Loaded layers of an oversized file; versions are compared on the same layers
+  canRegenerate: boolean; // Whether frames are selected to regenerate
+  isLoading: boolean;
+  onRegenerateChanged: (sessionId: string) => void;
+}
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-amber-100 text-amber-700',
+  unchanged: 'bg-slate-100 text-slate-500',
+};
+
+const MAX_LISTED_CHANGES = 20;
+
+export default function VersionDiff({ fileKey, accessToken, nodeIds, canRegenerate, isLoading, onRegenerateChanged }: VersionDiffProps) {
+  const [versions, setVersions] = useState<FigmaVersion[] | null>(null);
+  const [fromVersion, setFromVersion] = useState('');
+  const [toVersion, setToVersion] = useState(''); // Empty means the current file
+  const [diff, setDiff] = useState<DesignDiff | null>(null);
+  const [toSessionId, setToSessionId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string[]>([]);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (url: string, body: object) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.details || result.error || 'Request failed');
+    }
+    return result.data;
+  };
+
+  const loadVersions = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await post('/api/figma/versions', { fileKey, accessToken });
+      setVersions(data.versions);
+      if (data.versions.length > 1) setFromVersion(data.versions[1].id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const compare = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await post('/api/figma/diff', {
+        fileKey,
+        accessToken,
+        from: fromVersion,
+        to: toVersion || undefined,
+        nodeIds,
+      });
+      setDiff(data.diff);
+      setToSessionId(data.toSessionId);
+      setExpanded([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const versionLabel = (version: FigmaVersion) =>
+    `${version.label || new Date(version.created_at).toLocaleString()}${version.user ? ` · ${version.user.handle}` : ''}`;
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(current => current.indexOf(key) !== -1 ? current.filter(k => k !== key) : [...current, key]);
+  };
+
+  const renderEntries = (title: string, entries: DiffEntry[]) => {
+    const listed = entries.filter(entry => showUnchanged || entry.status !== 'unchanged');
+    if (listed.length === 0) return null;
+
+    return (
+      <div>
+        <h4 className="text-sm font-medium text-slate-700 mb-2">{title}</h4>
+        <ul className="space-y-1">
+          {listed.map(entry => {
+            const key = `${title}:${entry.id}`;
+            const isExpanded = expanded.indexOf(key) !== -1;
+            return (
+              <li key={key} className="text-sm">
+                <button
+                  onClick={() => entry.changes.length > 0 && toggleExpanded(key)}
+                  className="w-full flex items-center gap-2 text-left"
+                >
+                  {entry.changes.length > 0 ?
+                    (isExpanded ? <ChevronDown className="h-3 w-3 text-slate-400" /> : <ChevronRight className="h-3 w-3 text-slate-400" />) :
+                    <span className="w-3" />}
+                  <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                  <span className="text-slate-700 truncate flex-1">{entry.name}</span>
+                  {entry.moved && (
+                    <span className="text-xs text-slate-400">moved {entry.moved.before} → {entry.moved.after}</span>
+                  )}
+                  {entry.changes.length > 0 && (
+                    <span className="text-xs text-slate-400">{entry.changes.length} change{entry.changes.length !== 1 ? 's' : ''}</span>
+                  )}
+                </button>
+                {isExpanded && (
+                  <ul className="ml-8 mt-1 mb-2 space-y-0.5 text-xs text-slate-600">
+                    {entry.changes.slice(0, MAX_LISTED_CHANGES).map((change, i) => (
+                      <li key={i}>
+                        <span className="text-slate-400">{change.kind}</span>{' '}
+                        <span className="font-medium">{change.nodeName}</span> {change.property}
+                        {change.before !== undefined && <>: <span className="line-through text-red-600">{change.before}</span></>}
+                        {change.after !== undefined && <> → <span className="text-green-700">{change.after}</span></>}
+                      </li>
+                    ))}
+                    {entry.changes.length > MAX_LISTED_CHANGES && (
+                      <li className="text-slate-400">+{entry.changes.length - MAX_LISTED_CHANGES} more</li>
+                    )}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    );
+  };
+
+  if (!versions) {
+    return (
+      <button
+        onClick={loadVersions}
+        disabled={busy}
+        className="w-full flex items-center justify-center gap-2 py-2 px-4 text-sm border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+      >
+        {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
+        Load version history
+        {error && <span className="text-red-600">({error})</span>}
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-sm text-slate-600">
+          From
+          <select
+            value={fromVersion}
+            onChange={(e) => setFromVersion(e.target.value)}
+            className="mt-1 w-full p-2 border border-slate-300 rounded-lg text-sm"
+          >
+            <option value="" disabled>Choose a version</option>
+            {versions.map(version => (
+              <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-slate-600">
+          To
+          <select
+            value={toVersion}
+            onChange={(e) => setToVersion(e.target.value)}
+            className="mt-1 w-full p-2 border border-slate-300 rounded-lg text-sm"
+          >
+            <option value="">Current file</option>
+            {versions.map(version => (
+              <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <button
+        onClick={compare}
+        disabled={busy || !fromVersion}
+        className="w-full flex items-center justify-center gap-2 py-2 px-4 text-sm bg-slate-800 text-white rounded-lg hover:bg-slate-900 transition-colors disabled:opacity-50"
+      >
+        {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitCompare className="h-4 w-4" />}
+        Compare versions
+      </button>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {diff && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {(['added', 'removed', 'changed', 'unchanged'] as DiffStatus[]).map(status => (
+              <span key={status} className={`px-2 py-1 rounded ${STATUS_STYLES[status]}`}>
+                {diff.summary[status]} {status}
+              </span>
+            ))}
+            <label className="ml-auto flex items-center gap-1 text-slate-500">
+              <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+              Show unchanged
+            </label>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto space-y-4">
+            {renderEntries('Frames', diff.frames)}
+            {renderEntries('Components', diff.components)}
+          </div>
+
+          <button
+            onClick={() => toSessionId && onRegenerateChanged(toSessionId)}
+            disabled={isLoading || !toSessionId || !canRegenerate}
+            className="w-full flex items-center justify-center gap-2 py-2 px-4 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Regenerate only what changed
+          </button>
+          {!canRegenerate && (
+            <p className="text-xs text-slate-500">Select the frames to regenerate; unchanged ones are copied from earlier generations.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
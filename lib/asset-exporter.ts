@@ -0,0 +1,204 @@
+import { FigmaAPI } from './figma-api';
+import { ProcessedNode } from '../types/figma';
+import { GeneratedFile } from '../types/codegen';
+
+export interface AssetExportOptions {
+  scale?: number; // Render scale for PNG exports, 1 to 4
+  vectorFormat?: 'svg' | 'png';
+}
+
+export interface ExportedAssets {
+  nodes: ProcessedNode[]; // Copies of the input nodes with asset paths filled in
+  files: GeneratedFile[]; // One per exported asset, under assets/
+}
+
+const ASSET_DIR = 'assets';
+
+/**
+ * Turn a layer name into a file name
+ */
+function toFileName(name: string): string {
+  const kebab = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return kebab || 'asset';
+}
+
+/**
+ * File extension for a downloaded image's content type
+ */
+function extensionFor(contentType: string): string {
+  if (contentType.includes('svg')) return 'svg';
+  if (contentType.includes('jpeg') || contentType.includes('jpg')) return 'jpg';
+  if (contentType.includes('gif')) return 'gif';
+  if (contentType.includes('webp')) return 'webp';
+  return 'png';
+}
+
+/**
+ * Download a rendered or original image; SVGs stay text, everything else is base64
+ */
+async function download(url: string): Promise<{ content: string; encoding?: 'base64'; extension: string }> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Asset download failed (${response.status})`);
+  }
+
+  const extension = extensionFor(response.headers.get('content-type') || '');
+  if (extension === 'svg') {
+    return { content: await response.text(), extension };
+  }
+  return { content: Buffer.from(await response.arrayBuffer()).toString('base64'), encoding: 'base64', extension };
+}
+
+/**
+ * Collect the nodes that need exporting, without descending into graphics exported whole
+ */
+function collectAssetNodes(node: ProcessedNode, found: ProcessedNode[] = []): ProcessedNode[] {
+  if (node.asset) found.push(node);
+  if (!node.asset || node.asset.imageRef) {
+    node.children?.forEach(child => collectAssetNodes(child, found));
+  }
+  return found;
+}
+
+/**
+ * Collect the nodes masked by a mask layer that's exported for mask-image, without
+ * descending into graphics exported whole
+ */
+function collectMaskedNodes(node: ProcessedNode, found: ProcessedNode[] = []): ProcessedNode[] {
+  if (node.mask) found.push(node);
+  if (!node.asset || node.asset.imageRef) {
+    node.children?.forEach(child => collectMaskedNodes(child, found));
+  }
+  return found;
+}
+
+/**
+ * Relative paths of every asset a node tree references
+ */
+export function assetPaths(node: ProcessedNode): string[] {
+  return collectAssetNodes(node)
+    .map(assetNode => assetNode.asset!.path)
+    .concat(collectMaskedNodes(node).map(maskedNode => maskedNode.mask!.path))
+    .filter((path, i, all): path is string => !!path && all.indexOf(path) === i);
+}
+
+/**
+ * Export the images and vector graphics in the given node trees through the Figma API.
+ * Vectors render as SVG (or PNG at the given scale), image leaves render as PNG, and image
+ * fills behind other content use the original image. Masks that aren't plain shapes render
+ * in the vector format and become the mask-image of what they mask. Assets that fail to
+ * export are logged and left without a path, so generation carries on without them.
+ */
+export async function exportAssets(
+  api: FigmaAPI,
+  fileKey: string,
+  nodes: ProcessedNode[],
+  options: AssetExportOptions = {}
+): Promise<ExportedAssets> {
+  const scale = Math.min(Math.max(options.scale || 2, 1), 4);
+  const vectorFormat = options.vectorFormat || 'svg';
+
+  const copies: ProcessedNode[] = JSON.parse(JSON.stringify(nodes));
+  const assetNodes: ProcessedNode[] = [];
+  copies.forEach(node => collectAssetNodes(node, assetNodes));
+
+  const files: GeneratedFile[] = [];
+  const usedNames = new Set<string>();
+  const addFile = (name: string, asset: { content: string; encoding?: 'base64'; extension: string }): string => {
+    let path = `${ASSET_DIR}/${toFileName(name)}.${asset.extension}`;
+    for (let counter = 2; usedNames.has(path); counter++) {
+      path = `${ASSET_DIR}/${toFileName(name)}-${counter}.${asset.extension}`;
+    }
+    usedNames.add(path);
+    files.push({ name: path, content: asset.content, type: asset.extension, encoding: asset.encoding });
+    return path;
+  };
+
+  // The same node can appear in several selected trees; export it once
+  const renderGroups: Record<'svg' | 'png', Record<string, ProcessedNode[]>> = { svg: {}, png: {} };
+  const fillGroups: Record<string, ProcessedNode[]> = {};
+  assetNodes.forEach(node => {
+    const asset = node.asset!;
+    if (asset.imageRef) {
+      fillGroups[asset.imageRef] = [...(fillGroups[asset.imageRef] || []), node];
+    } else {
+      const format = asset.kind === 'vector' ? vectorFormat : 'png';
+      renderGroups[format][node.id] = [...(renderGroups[format][node.id] || []), node];
+    }
+  });
+
+  // A mask can cut several nodes; it's rendered once for all of them
+  const maskGroups: Record<string, ProcessedNode[]> = {};
+  copies.forEach(node => collectMaskedNodes(node).forEach(masked => {
+    const id = masked.mask!.nodeId;
+    maskGroups[id] = [...(maskGroups[id] || []), masked];
+  }));
+
+  for (const format of ['svg', 'png'] as const) {
+    const masks = format === vectorFormat ? maskGroups : {};
+    const ids = Object.keys(renderGroups[format]).concat(Object.keys(masks));
+    if (ids.length === 0) continue;
+
+    try {
+      const { images } = await api.getImages(fileKey, ids, {
+        format,
+        scale: format === 'png' ? scale : 1,
+        svg_include_id: false,
+        svg_simplify_stroke: true,
+      });
+
+      for (const id of ids) {
+        const group = renderGroups[format][id] || [];
+        const masked = masks[id] || [];
+        const name = group.length > 0 ? group[0].name : masked[0].mask!.name;
+        if (!images[id]) {
+          // Figma renders nothing for invisible or empty nodes
+          console.warn(`⚠️ Figma returned no ${format} render for "${name}" (${id})`);
+          continue;
+        }
+        try {
+          const path = addFile(name, await download(images[id]));
+          group.forEach(node => { node.asset!.path = path; });
+          masked.forEach(node => {
+            node.mask!.path = path;
+            node.styles.maskImage = `url('./${path}')`;
+          });
+        } catch (error) {
+          console.warn(`⚠️ Failed to export "${name}":`, error);
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to render ${format} assets:`, error);
+    }
+  }
+
+  const imageRefs = Object.keys(fillGroups);
+  if (imageRefs.length > 0) {
+    try {
+      const { meta } = await api.getImageFills(fileKey);
+      for (const imageRef of imageRefs) {
+        const group = fillGroups[imageRef];
+        if (!meta.images[imageRef]) continue;
+        try {
+          const path = addFile(group[0].name, await download(meta.images[imageRef]));
+          group.forEach(node => {
+            node.asset!.path = path;
+            // Gradients are usually overlays on the photo, so the image is the bottom layer
+            node.styles.backgroundImage = [node.styles.backgroundImage, `url('./${path}')`].filter(Boolean).join(', ');
+          });
+        } catch (error) {
+          console.warn(`⚠️ Failed to export image fill of "${group[0].name}":`, error);
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to fetch image fills:', error);
+    }
+  }
+
+  console.log(`🖼️ Exported ${files.length} of ${assetNodes.length + Object.keys(maskGroups).length} assets`);
+  return { nodes: copies, files };
+}
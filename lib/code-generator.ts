@@ -0,0 +1,264 @@
+import { ProcessedNode } from '../types/figma';
+import {
+  CodeGenProvider,
+  CompletionRequest,
+  ComponentGenerationOptions,
+  FlowGenerationOptions,
+  GeneratedCode,
+  GeneratedComponent,
+  GenerationListener,
+  PageGenerationOptions,
+} from '../types/codegen';
+import {
+  buildAngularComponentPrompt,
+  buildComponentPrompt,
+  buildFlowPrompt,
+  buildOptimizePrompt,
+  buildPagePrompt,
+} from './prompt-builder';
+import {
+  extractAngularFilesFromResponse,
+  extractCodeFromResponse,
+  extractMultipleFilesFromResponse,
+  extractPathFilesFromResponse,
+} from './response-parser';
+import { ResponseStreamSplitter } from './response-stream';
+import { withRetry } from './retry';
+import { analyzeFlow } from '../utils/prototype-flow';
+
+/**
+ * Provider-agnostic code generator. Builds prompts, retries the provider
+ * transport and parses the response into files.
+ */
+export class CodeGenerator {
+  private provider: CodeGenProvider;
+
+  constructor(provider: CodeGenProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Generate component code from processed Figma node
+   */
+  async generateComponent(
+    node: ProcessedNode,
+    options: ComponentGenerationOptions = {},
+    onEvent?: GenerationListener,
+    signal?: AbortSignal
+  ): Promise<GeneratedCode> {
+    const {
+      framework = 'react',
+      styling = 'tailwind',
+      typescript = true,
+      includeProps = true,
+      responsive = true,
+    } = options;
+
+    // Angular with "styled-components" means Bootstrap + Material and three separate files
+    const isAngular = framework === 'angular' && styling === 'styled-components';
+    const prompt = isAngular ?
+      buildAngularComponentPrompt(node) :
+      buildComponentPrompt(node, {
+        framework,
+        styling,
+        typescript,
+        includeProps,
+        responsive,
+      });
+
+    console.log(`🔥 Generating ${framework} component with ${this.provider.displayName}...`);
+    console.log(`📏 Prompt length: ${prompt.length} chars`);
+
+    const componentName = node.componentName || node.name;
+    const splitter = onEvent && new ResponseStreamSplitter(componentName, onEvent, isAngular ? 'TYPESCRIPT' : 'TSX');
+
+    try {
+      const content = await this.complete({ prompt, kind: 'component', angular: isAngular, signal }, splitter);
+      console.log(`✅ ${this.provider.displayName} generation completed, response length: ${content.length} chars`);
+
+      return isAngular ?
+        extractAngularFilesFromResponse(content, componentName) :
+        extractMultipleFilesFromResponse(content, componentName, styling);
+    } catch (error) {
+      throw this.wrapError('Failed to generate component', error);
+    }
+  }
+
+  /**
+   * Generate multiple components from a list of nodes
+   */
+  async generateMultipleComponents(
+    nodes: ProcessedNode[],
+    options: ComponentGenerationOptions = {},
+    onEvent?: GenerationListener,
+    signal?: AbortSignal
+  ): Promise<GeneratedComponent[]> {
+    const results: GeneratedComponent[] = [];
+    const { framework = 'react', styling = 'tailwind' } = options;
+
+    console.log(`🔄 Starting multiple component generation: ${nodes.length} components (${framework}/${styling})`);
+
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i];
+      const componentName = node.componentName || node.name;
+      const progress = { type: 'progress' as const, component: i, total: nodes.length, componentName };
+      try {
+        console.log(`📦 Generating component ${i + 1}/${nodes.length}: ${node.name}`);
+        onEvent?.({ ...progress, status: 'started' });
+        const generated = await this.generateComponent(node, options, onEvent && (event => onEvent({ ...event, component: i })), signal);
+        results.push({
+          componentName,
+          files: generated.files,
+        });
+        onEvent?.({ ...progress, status: 'completed' });
+        console.log(`✅ Component ${i + 1}/${nodes.length} completed: ${node.name}`);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`❌ Failed to generate component ${i + 1}/${nodes.length} (${node.name}):`, error);
+        onEvent?.({ ...progress, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+        // Continue with other components, keeping a placeholder so the failure is visible
+        results.push({
+          componentName,
+          files: [{
+            name: `${componentName.replace(/[^a-zA-Z0-9]/g, '')}.error.txt`,
+            content: `Error generating component: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            type: 'text'
+          }]
+        });
+      }
+    }
+
+    console.log(`🎯 Multiple component generation completed: ${results.length}/${nodes.length} processed`);
+    return results;
+  }
+
+  /**
+   * Generate a complete page from processed nodes
+   */
+  async generatePage(
+    nodes: ProcessedNode[],
+    options: PageGenerationOptions = {},
+    onEvent?: GenerationListener,
+    signal?: AbortSignal
+  ): Promise<GeneratedCode> {
+    const {
+      framework = 'react',
+      styling = 'tailwind',
+      typescript = true,
+      responsive = true,
+      pageName = 'HomePage',
+    } = options;
+
+    const prompt = buildPagePrompt(nodes, {
+      framework,
+      styling,
+      typescript,
+      responsive,
+      pageName,
+    });
+
+    try {
+      const content = await this.complete({ prompt, kind: 'page', signal }, onEvent && new ResponseStreamSplitter(pageName, onEvent));
+      return extractMultipleFilesFromResponse(content, pageName, styling);
+    } catch (error) {
+      throw this.wrapError('Failed to generate page', error);
+    }
+  }
+
+  /**
+   * Generate a multi-route app from the prototype connections between frames
+   */
+  async generateFlow(
+    nodes: ProcessedNode[],
+    options: FlowGenerationOptions = {},
+    onEvent?: GenerationListener,
+    signal?: AbortSignal
+  ): Promise<GeneratedCode> {
+    const {
+      framework = 'react',
+      styling = 'tailwind',
+      typescript = true,
+      responsive = true,
+      router = 'next-app',
+    } = options;
+    if (framework !== 'react') {
+      throw new Error(`Flow generation supports React only (requested ${framework})`);
+    }
+
+    const prompt = buildFlowPrompt(analyzeFlow(nodes), { styling, typescript, responsive, router });
+    const mainFile = router === 'next-app' ? 'app/page' : 'src/App';
+
+    try {
+      const content = await this.complete({ prompt, kind: 'page', signal }, onEvent && new ResponseStreamSplitter(mainFile, onEvent));
+      return extractPathFilesFromResponse(content, `${mainFile}.${typescript ? 'tsx' : 'jsx'}`);
+    } catch (error) {
+      throw this.wrapError('Failed to generate flow', error);
+    }
+  }
+
+  /**
+   * Optimize generated code
+   */
+  async optimizeCode(
+    code: string,
+    optimizationType: 'performance' | 'accessibility' | 'responsive' | 'clean-code'
+  ): Promise<string> {
+    try {
+      const content = await this.complete({ prompt: buildOptimizePrompt(code, optimizationType), kind: 'optimize' });
+      return extractCodeFromResponse(content);
+    } catch (error) {
+      throw this.wrapError('Failed to optimize code', error);
+    }
+  }
+
+  /**
+   * Send a prompt through the provider transport with its retry policy,
+   * streaming into the splitter when one is given. Aborting the signal stops the request
+   * and any retries still to come.
+   */
+  private async complete(
+    completion: Omit<CompletionRequest, 'attempt'>,
+    splitter?: ResponseStreamSplitter
+  ): Promise<string> {
+    const content = await withRetry(
+      this.provider.displayName,
+      async attempt => {
+        const request = { ...completion, attempt };
+        if (!splitter) {
+          return this.provider.complete(request);
+        }
+
+        if (attempt > 1) {
+          splitter.reset(attempt);
+        }
+        if (this.provider.stream) {
+          return this.provider.stream(request, text => splitter.push(text));
+        }
+        // Transports without streaming deliver the whole response at once
+        const text = await this.provider.complete(request);
+        splitter.push(text);
+        return text;
+      },
+      this.provider.retryPolicy,
+      completion.signal
+    );
+
+    if (!content) {
+      throw new Error(`No content received from ${this.provider.displayName} API`);
+    }
+
+    splitter?.flush();
+    return content;
+  }
+
+  /**
+   * Prefix errors with the failed operation, keeping the status codes the routes match on
+   */
+  private wrapError(operation: string, error: unknown): Error {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (/^(429|503|529) /.test(message)) {
+      return error as Error;
+    }
+    return new Error(`${operation}: ${message}`);
+  }
+}
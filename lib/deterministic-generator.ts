@@ -0,0 +1,1336 @@
+import { ComponentProp, Interaction, ProcessedNode, ResponsiveVariant, TextRun } from '../types/figma';
+import {
+  ComponentGenerationOptions,
+  FlowGenerationOptions,
+  GeneratedCode,
+  GeneratedComponent,
+  GeneratedFile,
+  GenerationEngine,
+  GenerationListener,
+  PageGenerationOptions,
+  Router,
+  Styling,
+} from '../types/codegen';
+import { generateComponentName } from '../utils/figma';
+import {
+  ComponentVariants,
+  VariantDeclarations,
+  VariantLayer,
+  VariantSwitch,
+  analyzeComponentVariants,
+  isVariantProp,
+  resolvePropertyReference,
+  splitDeclarations,
+  switchValues,
+} from '../utils/component-variants';
+import { InstanceProp, findInstanceComponents } from '../utils/component-instances';
+import { collectDesignerNotes } from '../utils/designer-notes';
+import { ManifestFont, collectFonts, fontVariableStack } from '../utils/font-manifest';
+import { FlowScreen, PrototypeFlow, analyzeFlow, collectInteractions } from '../utils/prototype-flow';
+import { responsiveLayers } from '../utils/responsive-variants';
+import { CSSDeclaration, cssToTailwind, formatDeclarations, splitPlacement, stylesToCSS } from '../utils/styles';
+
+/**
+ * Per-file state while emitting JSX: collected CSS rules or styled-components
+ * definitions, module-level lookups, and the names already taken by them
+ */
+interface EmitContext {
+  styling: Styling;
+  responsive: boolean;
+  typescript: boolean;
+  imports: string[];
+  constants: string[]; // Lookups of variant-specific classes, styles and text
+  cssRules: string[];
+  styledDefinitions: string[];
+  usedNames: Set<string>;
+  component?: ComponentScope; // Set while emitting a component with props
+  instanceCalls?: Record<string, InstanceCall>; // Instance id → the component call it renders as
+  instanceProps?: Record<string, InstanceProp[]>; // Layer id → props bound to it, set while emitting an instance's component
+  flow?: FlowScope; // Set while emitting a screen of a prototype flow
+  clientComponent?: boolean; // Has hooks or event handlers, so Next.js must render it on the client
+  nextFonts?: ManifestFont[]; // Loaded with next/font, so font families reference their variables
+  assetRoot?: string; // Prefix of exported asset paths: './' beside a component, '/' for a flow app serving them from public/
+}
+
+/**
+ * The flow screen being emitted: where its clicks lead and what they need declared
+ */
+interface FlowScope {
+  flow: PrototypeFlow;
+  screen: FlowScreen;
+  router: Router;
+  modalState: Record<string, string>; // Modal screen id → name of the state that shows it
+  usesLink: boolean;
+  usesRouter: boolean; // Navigates or goes back from a click handler
+}
+
+/**
+ * What a click does on an element of a flow screen: the element it renders as, the
+ * link target or click handler, and declarations that make it look clickable
+ */
+interface FlowAction {
+  tag?: string;
+  target?: string; // href or to attribute
+  handler?: string; // onClick attribute
+  declarations: CSSDeclaration[];
+}
+
+/**
+ * A component instance rendered as a call with the values it sets
+ */
+interface InstanceCall {
+  componentName: string;
+  props: InstanceProp[];
+  values: Record<string, string>;
+}
+
+/**
+ * The component whose props the emitted JSX switches on
+ */
+interface ComponentScope {
+  variants: ComponentVariants;
+  usesVariantKey: boolean; // Some value depends on the whole variant rather than one prop
+}
+
+/**
+ * LLM-free generator that walks ProcessedNode trees and emits React code directly.
+ * The same input always produces the same output, so it also serves as a baseline
+ * to diff LLM output against.
+ */
+export class DeterministicGenerator implements GenerationEngine {
+  /**
+   * Generate component code from processed Figma node
+   */
+  async generateComponent(
+    node: ProcessedNode,
+    options: ComponentGenerationOptions = {}
+  ): Promise<GeneratedCode> {
+    const {
+      framework = 'react',
+      styling = 'tailwind',
+      typescript = true,
+      includeProps = true,
+      responsive = true,
+    } = options;
+    this.assertSupportedFramework(framework);
+
+    const componentName = toComponentName(node.componentName || node.name);
+    const ctx = createContext(styling, responsive, typescript, [componentName, `${componentName}Props`]);
+
+    // Component sets and components with properties get their props whatever includeProps says
+    if (node.componentProps) {
+      const body = emitPropsComponent(node, componentName, ctx, { includeClassName: includeProps, exported: true });
+      return this.assembleFiles(componentName, styling, ctx, body);
+    }
+
+    // Merged breakpoints render instances inline, their overrides can differ per breakpoint
+    const instanceComponents = node.responsive ? [] : emitInstanceComponents([node], ctx);
+    const jsx = emitFrame(node, ctx, 2, includeProps);
+
+    const body = [
+      ...instanceComponents,
+      ...this.buildPropsInterface(componentName, typescript, includeProps),
+      ...designerNotesDoc(node),
+      `export default function ${componentName}(${this.buildPropsSignature(componentName, typescript, includeProps)}) {`,
+      `  return (`,
+      jsx,
+      `  );`,
+      `}`,
+    ];
+
+    return this.assembleFiles(componentName, styling, ctx, body);
+  }
+
+  /**
+   * Generate multiple components from a list of nodes. Output is produced in one go,
+   * so streaming callers only get progress events.
+   */
+  async generateMultipleComponents(
+    nodes: ProcessedNode[],
+    options: ComponentGenerationOptions = {},
+    onEvent?: GenerationListener
+  ): Promise<GeneratedComponent[]> {
+    const results: GeneratedComponent[] = [];
+
+    for (let i = 0; i < nodes.length; i++) {
+      const componentName = nodes[i].componentName || nodes[i].name;
+      const generated = await this.generateComponent(nodes[i], options);
+      results.push({
+        componentName,
+        files: generated.files,
+      });
+      onEvent?.({ type: 'progress', component: i, total: nodes.length, componentName, status: 'completed' });
+    }
+
+    return results;
+  }
+
+  /**
+   * Generate a complete page with one section component per node
+   */
+  async generatePage(
+    nodes: ProcessedNode[],
+    options: PageGenerationOptions = {}
+  ): Promise<GeneratedCode> {
+    const {
+      framework = 'react',
+      styling = 'tailwind',
+      typescript = true,
+      responsive = true,
+      pageName = 'HomePage',
+    } = options;
+    this.assertSupportedFramework(framework);
+
+    const ctx = createContext(styling, responsive, typescript, [pageName]);
+    const sectionNames: string[] = [];
+    const body = emitInstanceComponents(nodes.filter(node => !node.componentProps && !node.responsive), ctx);
+
+    nodes.forEach(node => {
+      const sectionName = uniqueName(`${toComponentName(node.componentName || node.name)}Section`, ctx.usedNames);
+      sectionNames.push(sectionName);
+
+      // Component sets render their default variant
+      if (node.componentProps) {
+        ctx.usedNames.add(`${sectionName}Props`);
+        body.push(...emitPropsComponent(node, sectionName, ctx, { includeClassName: false, exported: false }), '');
+        return;
+      }
+
+      body.push(
+        ...designerNotesDoc(node),
+        `function ${sectionName}() {`,
+        `  return (`,
+        emitFrame(node, ctx, 2, false),
+        `  );`,
+        `}`,
+        ''
+      );
+    });
+
+    body.push(
+      `export default function ${pageName}() {`,
+      `  return (`,
+      `    <main>`,
+      ...sectionNames.map(name => `      <${name} />`),
+      `    </main>`,
+      `  );`,
+      `}`
+    );
+
+    return this.assembleFiles(pageName, styling, ctx, body);
+  }
+
+  /**
+   * Generate an app with one route per frame of a prototype flow. Clicks that navigate
+   * become links, overlays open modals kept in the opening screen's state.
+   */
+  async generateFlow(
+    nodes: ProcessedNode[],
+    options: FlowGenerationOptions = {}
+  ): Promise<GeneratedCode> {
+    const {
+      framework = 'react',
+      styling = 'tailwind',
+      typescript = true,
+      responsive = true,
+      router = 'next-app',
+    } = options;
+    this.assertSupportedFramework(framework);
+    if (nodes.length === 0) {
+      throw new Error('Flow generation needs at least one frame');
+    }
+
+    const flow = analyzeFlow(nodes);
+    const extension = typescript ? 'tsx' : 'jsx';
+    // The route adds the font manifest: next/font loaders for Next.js, a stylesheet for React Router
+    const fonts = collectFonts(nodes);
+    const componentNames: Record<string, string> = {};
+    const takenNames = new Set<string>(['App', 'RootLayout']);
+    flow.screens.forEach(screen => {
+      const suffix = screen.kind === 'modal' ? 'Modal' : 'Page';
+      componentNames[screen.node.id] = uniqueName(`${toComponentName(screen.node.componentName || screen.node.name)}${suffix}`, takenNames);
+    });
+
+    // Next.js routes are page files in a folder per path; React Router pages are named after their component
+    const fileOf = (screen: FlowScreen) => {
+      const name = componentNames[screen.node.id];
+      if (screen.kind === 'modal') return { directory: router === 'next-app' ? 'components/' : 'src/components/', name };
+      if (router === 'react-router') return { directory: 'src/pages/', name };
+      return { directory: screen.path === '/' ? 'app/' : `app${screen.path}/`, name: 'page' };
+    };
+
+    const screenFiles = flow.screens.map(screen => {
+      const file = fileOf(screen);
+      const modals = screen.modals.map(id => {
+        const modalFile = fileOf(flow.byId[id]);
+        return { id, name: componentNames[id], importPath: relativeImport(file.directory, `${modalFile.directory}${modalFile.name}`) };
+      });
+      const componentName = componentNames[screen.node.id];
+      const ctx = createContext(styling, responsive, typescript, [componentName, `${componentName}Props`, 'Link'].concat(modals.map(modal => modal.name)));
+      if (router === 'next-app' && fonts.length > 0) ctx.nextFonts = fonts;
+      // Routes live in folders of their own, so assets are served from public/ rather than referenced beside them
+      ctx.assetRoot = '/';
+      const body = emitFlowScreen(screen, componentName, modals, ctx, { flow, screen, router, modalState: {}, usesLink: false, usesRouter: false });
+      return this.assembleFiles(file.name, styling, ctx, body, file.directory, extension).files;
+    });
+
+    const entry = router === 'next-app' ?
+      nextLayoutFile(typescript, fonts.length > 0) :
+      reactRouterAppFile(flow, componentNames, typescript, fonts.length > 0);
+    const files = [entry].concat(...screenFiles);
+    const main = router === 'next-app' ? screenFiles[0][0] : entry;
+    return { tsx: main.content, files };
+  }
+
+  private assertSupportedFramework(framework: string): void {
+    if (framework !== 'react') {
+      throw new Error(`Deterministic generation supports React only (requested ${framework})`);
+    }
+  }
+
+  private buildPropsInterface(componentName: string, typescript: boolean, includeProps: boolean): string[] {
+    if (!typescript || !includeProps) return [];
+    return [
+      `interface ${componentName}Props {`,
+      `  className?: string;`,
+      `}`,
+      '',
+    ];
+  }
+
+  private buildPropsSignature(componentName: string, typescript: boolean, includeProps: boolean): string {
+    if (!includeProps) return '';
+    return typescript ? `{ className }: ${componentName}Props` : '{ className }';
+  }
+
+  /**
+   * Prepend imports and styled-components definitions, and split out the CSS file
+   */
+  private assembleFiles(
+    name: string,
+    styling: Styling,
+    ctx: EmitContext,
+    body: string[],
+    directory = '',
+    extension: 'tsx' | 'jsx' = 'tsx'
+  ): GeneratedCode {
+    const imports = ctx.imports.slice();
+    if (styling === 'css') {
+      imports.push(`import './${name}.css';`);
+    }
+    if (styling === 'styled-components') {
+      imports.push(`import styled from 'styled-components';`);
+    }
+
+    const header: string[] = [];
+    if (ctx.clientComponent) {
+      header.push(`'use client';`, '');
+    }
+    if (imports.length > 0) {
+      header.push(...imports, '');
+    }
+    if (ctx.constants.length > 0) {
+      header.push(ctx.constants.join('\n\n'), '');
+    }
+    if (styling === 'styled-components' && ctx.styledDefinitions.length > 0) {
+      header.push(ctx.styledDefinitions.join('\n\n'), '');
+    }
+
+    const tsx = [...header, ...body].join('\n') + '\n';
+    const files: GeneratedFile[] = [{ name: `${directory}${name}.${extension}`, content: tsx, type: extension }];
+
+    let css: string | undefined;
+    if (styling === 'css') {
+      css = ctx.cssRules.join('\n\n') + '\n';
+      files.push({ name: `${directory}${name}.css`, content: css, type: 'css' });
+    }
+
+    return { tsx, css, files };
+  }
+}
+
+/**
+ * Fresh emit context; reserved names are identifiers the file declares itself
+ */
+function createContext(styling: Styling, responsive: boolean, typescript: boolean, reservedNames: string[]): EmitContext {
+  return {
+    styling,
+    responsive,
+    typescript,
+    imports: [],
+    constants: [],
+    cssRules: [],
+    styledDefinitions: [],
+    usedNames: new Set<string>(reservedNames),
+  };
+}
+
+/**
+ * Turn a Figma layer name into a valid PascalCase identifier
+ */
+function toComponentName(name: string): string {
+  const pascal = generateComponentName(name);
+  if (!pascal) return 'Component';
+  return /^[A-Za-z]/.test(pascal) ? pascal : `Component${pascal}`;
+}
+
+/**
+ * Turn a Figma layer name into a kebab-case CSS class name
+ */
+function toClassName(name: string): string {
+  const kebab = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return /^[a-z]/.test(kebab) ? kebab : `node-${kebab || 'element'}`;
+}
+
+/**
+ * Reserve a name, suffixing a counter when it is already taken
+ */
+function uniqueName(base: string, usedNames: Set<string>): string {
+  let name = base;
+  let counter = 2;
+  while (usedNames.has(name)) {
+    name = `${base}${counter++}`;
+  }
+  usedNames.add(name);
+  return name;
+}
+
+/**
+ * styled-components factory for an element or a component such as Link
+ */
+function styledTag(tag: string): string {
+  return /^[A-Z]/.test(tag) ? `styled(${tag})` : `styled.${tag}`;
+}
+
+/**
+ * Reference to an exported asset, e.g. assets/logo.svg → ./assets/logo.svg
+ */
+function assetReference(path: string, ctx: EmitContext): string {
+  return `${ctx.assetRoot || './'}${path}`;
+}
+
+/**
+ * Check whether a node was exported whole and renders as an <img>
+ */
+function isExportedImage(node: ProcessedNode): boolean {
+  return !!node.asset?.path && !node.asset.imageRef;
+}
+
+/**
+ * Pick a semantic element for a node
+ */
+function elementTag(node: ProcessedNode): string {
+  if (isExportedImage(node)) return 'img';
+  if (node.type !== 'TEXT') return 'div';
+
+  const fontSize = node.styles.fontSize || 16;
+  if (fontSize > 32) return 'h1';
+  if (fontSize > 24) return 'h2';
+  if (fontSize > 18) return 'h3';
+  return 'p';
+}
+
+/**
+ * Render a string JSX attribute, falling back to an expression when quotes would break it
+ */
+function jsxAttribute(name: string, value: string): string {
+  return /["{}\n]/.test(value) ? `${name}={${JSON.stringify(value)}}` : `${name}="${value}"`;
+}
+
+/**
+ * Escape text content for JSX, keeping line breaks
+ */
+function escapeText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => (/[{}<>]/.test(line) ? `{${JSON.stringify(line)}}` : line))
+    .join('<br />');
+}
+
+/**
+ * Emit one text run: links become <a>, links to a route of the flow <Link>, bold
+ * runs <strong>, other styled runs <span>
+ */
+function emitTextRun(node: ProcessedNode, run: TextRun, ctx: EmitContext): string {
+  const text = escapeText(run.text);
+  const bold = (run.styles.fontWeight || 0) >= 600;
+  const route = run.nodeId && ctx.flow ? ctx.flow.flow.byId[run.nodeId] : undefined;
+  const routePath = route && route.kind === 'route' ? route.path : undefined;
+  let tag = run.href ? 'a' : routePath ? 'Link' : bold ? 'strong' : 'span';
+
+  // <strong> is bold already, only other weights need spelling out
+  const declarations = stylesToCSS(run.styles)
+    .filter(([property, value]) => !(tag === 'strong' && property === 'font-weight' && value === '700'));
+  if (tag === 'span' && declarations.length === 0) return text;
+
+  const attributes: string[] = [];
+  if (run.href) {
+    attributes.push(jsxAttribute('href', run.href));
+  } else if (routePath) {
+    attributes.push(linkTarget(routePath, ctx));
+  }
+
+  if (declarations.length > 0) {
+    const suffix = tag === 'a' || tag === 'Link' ? 'link' : tag;
+    if (ctx.styling === 'tailwind') {
+      attributes.push(`className="${cssToTailwind(declarations).join(' ')}"`);
+    } else if (ctx.styling === 'css') {
+      const cssClass = uniqueName(`${toClassName(node.name)}-${suffix}`, ctx.usedNames);
+      ctx.cssRules.push(`.${cssClass} {\n${formatDeclarations(declarations)}\n}`);
+      attributes.push(`className="${cssClass}"`);
+    } else {
+      const styledName = uniqueName(`${toComponentName(node.name)}${toComponentName(suffix)}`, ctx.usedNames);
+      ctx.styledDefinitions.push(`const ${styledName} = ${styledTag(tag)}\`\n${formatDeclarations(declarations)}\n\`;`);
+      tag = styledName;
+    }
+  }
+
+  const open = attributes.length > 0 ? `<${tag} ${attributes.join(' ')}` : `<${tag}`;
+  return `${open}>${text}</${tag}>`;
+}
+
+/**
+ * Emit the inner JSX of a text node, as runs when parts of it are styled differently
+ */
+function emitText(node: ProcessedNode, ctx: EmitContext): string {
+  if (!node.content) return '';
+  if (!node.textRuns) return escapeText(node.content);
+  return node.textRuns.map(run => emitTextRun(node, run, ctx)).join('');
+}
+
+/**
+ * CSS declarations for a node. A root leaves out where its design parent placed it, and
+ * the root of a responsive component fills its container up to the design width.
+ */
+function nodeDeclarations(node: ProcessedNode, ctx: EmitContext, isRoot: boolean): CSSDeclaration[] {
+  const nextFont = ctx.nextFonts && ctx.nextFonts.find(font => font.family === node.styles.fontFamily);
+  const styles = isRoot ? splitPlacement(node).own : node.styles;
+  const declarations = stylesToCSS(styles, node.tokens).map(([property, value]): CSSDeclaration => {
+    if (nextFont && property === 'font-family' && !value.startsWith('var(')) return [property, fontVariableStack(nextFont)];
+    // Exported background and mask images are referenced like any other asset
+    return [property, value.replace(/url\('\.\/(assets\/[^']+)'\)/g, (match, path: string) => `url('${assetReference(path, ctx)}')`)];
+  });
+  if (!isRoot || !ctx.responsive || node.styles.width === undefined) {
+    return declarations;
+  }
+
+  const hasMaxWidth = declarations.some(([property]) => property === 'max-width');
+  const responsiveDeclarations: CSSDeclaration[] = [];
+  declarations.forEach(([property, value]) => {
+    if (property === 'width' && value.endsWith('px')) {
+      responsiveDeclarations.push(['width', '100%']);
+      if (!hasMaxWidth) responsiveDeclarations.push(['max-width', value]);
+    } else {
+      responsiveDeclarations.push([property, value]);
+    }
+  });
+  return responsiveDeclarations;
+}
+
+/**
+ * Class names, CSS rules or a styled component for a node's declarations. Declarations
+ * switched by the component's props are looked up from module-level maps.
+ */
+function styleAttributes(
+  name: string,
+  tag: string,
+  split: VariantDeclarations,
+  ctx: EmitContext,
+  passThrough: boolean
+): { tag: string; attributes: string[] } {
+  const declarations = split.base;
+  const attributes: string[] = [];
+
+  if (ctx.styling === 'tailwind') {
+    const classes = cssToTailwind(declarations).join(' ');
+    const lookups = variantLookups(name, 'Classes', split, ctx, variantDeclarations => cssToTailwind(variantDeclarations).join(' '));
+    if (lookups.length > 0) {
+      const parts = (classes ? [JSON.stringify(classes)] : []).concat(lookups.map(lookup => lookup.expression));
+      attributes.push(`className={[${parts.concat(passThrough ? ['className'] : []).join(', ')}].filter(Boolean).join(' ')}`);
+    } else if (passThrough) {
+      attributes.push(`className={[${JSON.stringify(classes)}, className].filter(Boolean).join(' ')}`);
+    } else if (classes) {
+      attributes.push(`className="${classes}"`);
+    }
+  } else if (ctx.styling === 'css') {
+    const cssClass = declarations.length > 0 ? uniqueName(toClassName(name), ctx.usedNames) : '';
+    if (cssClass) {
+      ctx.cssRules.push(`.${cssClass} {\n${formatDeclarations(declarations)}\n}`);
+    }
+    const baseClass = cssClass || toClassName(name);
+    const lookups = variantLookups(name, 'Class', split, ctx, (variantDeclarations, modifier) => {
+      const modifierClass = uniqueName(`${baseClass}--${toClassName(modifier)}`, ctx.usedNames);
+      ctx.cssRules.push(`.${modifierClass} {\n${formatDeclarations(variantDeclarations)}\n}`);
+      return modifierClass;
+    });
+    if (lookups.length > 0) {
+      const parts = (cssClass ? [`'${cssClass}'`] : []).concat(lookups.map(lookup => lookup.expression));
+      attributes.push(`className={[${parts.concat(passThrough ? ['className'] : []).join(', ')}].filter(Boolean).join(' ')}`);
+    } else if (passThrough) {
+      attributes.push(cssClass ? `className={['${cssClass}', className].filter(Boolean).join(' ')}` : 'className={className}');
+    } else if (cssClass) {
+      attributes.push(`className="${cssClass}"`);
+    }
+  } else {
+    const lookups = variantLookups(name, 'Styles', split, ctx, variantDeclarations => formatDeclarations(variantDeclarations, '').replace(/\n/g, ' '));
+    if (declarations.length > 0 || lookups.length > 0) {
+      const styledName = uniqueName(toComponentName(name), ctx.usedNames);
+      const lines = declarations.length > 0 ? [formatDeclarations(declarations)] : [];
+      lookups.forEach(lookup => lines.push(`  \${(props) => ${lookup.map}[props.${lookup.transient}]}`));
+      const propTypes = ctx.typescript && lookups.length > 0 ?
+        `<{ ${lookups.map(lookup => `${lookup.transient}: string`).join('; ')} }>` : '';
+      ctx.styledDefinitions.push(`const ${styledName} = ${styledTag(tag)}${propTypes}\`\n${lines.join('\n')}\n\`;`);
+      lookups.forEach(lookup => attributes.push(`${lookup.transient}={${lookup.index}}`));
+      tag = styledName;
+    }
+    if (passThrough) {
+      attributes.push('className={className}');
+    }
+  }
+
+  return { tag, attributes };
+}
+
+/**
+ * Emit JSX for a node and its children, registering CSS rules or styled components on the context
+ */
+function emitNode(node: ProcessedNode, ctx: EmitContext, depth: number, acceptsClassName: boolean, isRoot = true): string {
+  const indent = '  '.repeat(depth);
+  const call = !isRoot && ctx.instanceCalls ? ctx.instanceCalls[node.id] : undefined;
+  if (call) {
+    const values = call.props.map(prop => ` ${jsxAttribute(prop.name, call.values[prop.name])}`).join('');
+    const element = `<${call.componentName}${values} />`;
+
+    // The component leaves out where each instance sits, a wrapper places this one
+    const placement = stylesToCSS(splitPlacement(node).placement);
+    if (placement.length === 0) {
+      return `${indent}${element}`;
+    }
+    const wrapper = styleAttributes(`${node.name} slot`, 'div', { base: placement, byProp: [] }, ctx, false);
+    return [
+      `${indent}<${wrapper.tag} ${wrapper.attributes.join(' ')}>`,
+      `${indent}  ${element}`,
+      `${indent}</${wrapper.tag}>`,
+    ].join('\n');
+  }
+
+  // Inside an instance's component, bound text and colors come from its props
+  const bound = ctx.instanceProps && ctx.instanceProps[node.id] || [];
+  const textProp = bound.find(prop => prop.kind === 'text');
+  const colorProp = bound.find(prop => prop.kind === 'color');
+
+  // In a flow, clicks navigate, open modals or go back; the node's own styles win over the action's
+  const action = ctx.flow && node.interaction ? flowAction(node, node.interaction, ctx) : undefined;
+  const own = nodeDeclarations(node, ctx, isRoot)
+    .filter(([property]) => !colorProp || property !== colorProp.cssProperty);
+  const declarations = !action ? own : own.concat(
+    action.declarations.filter(([property]) => !own.some(([ownProperty]) => ownProperty === property))
+  );
+  const { tag, attributes } = styleAttributes(node.name, action && action.tag || elementTag(node), { base: declarations, byProp: [] }, ctx, isRoot && acceptsClassName);
+
+  if (action && action.target) {
+    attributes.unshift(action.target);
+  }
+  if (isExportedImage(node)) {
+    attributes.unshift(jsxAttribute('src', assetReference(node.asset!.path!, ctx)), jsxAttribute('alt', node.name));
+  }
+  if (action && action.handler) {
+    attributes.push(action.handler);
+  }
+  if (colorProp) {
+    attributes.push(`style={{ ${colorProp.cssProperty === 'color' ? 'color' : 'backgroundColor'}: ${colorProp.name} }}`);
+  }
+
+  const open = attributes.length > 0 ? `<${tag} ${attributes.join(' ')}` : `<${tag}`;
+  const text = node.type !== 'TEXT' ? '' : textProp ? `{${textProp.name}}` : emitText(node, ctx);
+  const children = node.type === 'TEXT' || isExportedImage(node) ? [] : node.children || [];
+
+  if (!text && children.length === 0) {
+    return `${indent}${open} />`;
+  }
+
+  if (text) {
+    return `${indent}${open}>${text}</${tag}>`;
+  }
+
+  return [
+    `${indent}${open}>`,
+    ...children.map(child => emitNode(child, ctx, depth + 1, false, false)),
+    `${indent}</${tag}>`,
+  ].join('\n');
+}
+
+/**
+ * Declarations of a layer of a merged responsive frame, mobile first: the smallest frame's
+ * as the base, then per larger breakpoint only the values that change, with 'unset' for
+ * ones it drops. Where a frame doesn't have the layer it's hidden.
+ */
+function responsiveDeclarations(layer: VariantLayer, ctx: EmitContext, isRoot: boolean): { base: CSSDeclaration[]; byBreakpoint: CSSDeclaration[][] } {
+  const missingSomewhere = layer.nodes.some(node => !node);
+  const perFrame = layer.nodes.map((node): CSSDeclaration[] => {
+    if (!node) return [['display', 'none']];
+    const declarations = nodeDeclarations(node, ctx, isRoot);
+    const shown = missingSomewhere && !declarations.some(([property]) => property === 'display');
+    return shown ? declarations.concat([['display', 'block']]) : declarations;
+  });
+
+  const properties: string[] = [];
+  perFrame.forEach(declarations => declarations.forEach(([property]) => {
+    if (properties.indexOf(property) === -1) properties.push(property);
+  }));
+
+  const current: Record<string, string> = {};
+  const base: CSSDeclaration[] = [];
+  const byBreakpoint = layer.nodes.slice(1).map((): CSSDeclaration[] => []);
+  layer.nodes.forEach((node, i) => {
+    properties.forEach(property => {
+      // A frame without the layer only changes whether it shows
+      if (!node && property !== 'display') return;
+      const declaration = perFrame[i].find(([name]) => name === property);
+      const value = declaration ? declaration[1] : '';
+      if (value === (current[property] || '')) return;
+      current[property] = value;
+      (i === 0 ? base : byBreakpoint[i - 1]).push([property, value || 'unset']);
+    });
+  });
+
+  return { base, byBreakpoint };
+}
+
+/**
+ * Class names, CSS rules with media queries or a styled component for a layer of a
+ * merged responsive frame
+ */
+function responsiveStyleAttributes(
+  name: string,
+  tag: string,
+  declarations: { base: CSSDeclaration[]; byBreakpoint: CSSDeclaration[][] },
+  breakpoints: ResponsiveVariant[],
+  ctx: EmitContext,
+  passThrough: boolean
+): { tag: string; attributes: string[] } {
+  const { base, byBreakpoint } = declarations;
+  const changed = breakpoints
+    .map((breakpoint, i) => ({ breakpoint, declarations: byBreakpoint[i] }))
+    .filter(entry => entry.declarations.length > 0);
+  const attributes: string[] = [];
+
+  if (ctx.styling === 'tailwind') {
+    const classes = cssToTailwind(base).concat(...changed.map(entry =>
+      cssToTailwind(entry.declarations, true).map(cls => `${entry.breakpoint.tailwindPrefix}:${cls}`)
+    )).join(' ');
+    if (passThrough) {
+      attributes.push(`className={[${JSON.stringify(classes)}, className].filter(Boolean).join(' ')}`);
+    } else if (classes) {
+      attributes.push(`className="${classes}"`);
+    }
+  } else if (ctx.styling === 'css') {
+    const cssClass = base.length > 0 || changed.length > 0 ? uniqueName(toClassName(name), ctx.usedNames) : '';
+    if (cssClass) {
+      if (base.length > 0) ctx.cssRules.push(`.${cssClass} {\n${formatDeclarations(base)}\n}`);
+      changed.forEach(entry => ctx.cssRules.push(
+        `@media (min-width: ${entry.breakpoint.minWidth}px) {\n  .${cssClass} {\n${formatDeclarations(entry.declarations, '    ')}\n  }\n}`
+      ));
+    }
+    if (passThrough) {
+      attributes.push(cssClass ? `className={['${cssClass}', className].filter(Boolean).join(' ')}` : 'className={className}');
+    } else if (cssClass) {
+      attributes.push(`className="${cssClass}"`);
+    }
+  } else {
+    if (base.length > 0 || changed.length > 0) {
+      const styledName = uniqueName(toComponentName(name), ctx.usedNames);
+      const lines = base.length > 0 ? [formatDeclarations(base)] : [];
+      changed.forEach(entry => lines.push(
+        `  @media (min-width: ${entry.breakpoint.minWidth}px) {\n${formatDeclarations(entry.declarations, '    ')}\n  }`
+      ));
+      ctx.styledDefinitions.push(`const ${styledName} = ${styledTag(tag)}\`\n${lines.join('\n')}\n\`;`);
+      tag = styledName;
+    }
+    if (passThrough) {
+      attributes.push('className={className}');
+    }
+  }
+
+  return { tag, attributes };
+}
+
+/**
+ * Split a text layer whose text differs between breakpoints into one layer per text,
+ * each shown only at the breakpoints that have it
+ */
+function splitResponsiveText(layer: VariantLayer): VariantLayer[] {
+  if (layer.base.type !== 'TEXT') return [layer];
+  const contents: string[] = [];
+  layer.nodes.forEach(node => {
+    if (node && contents.indexOf(node.content || '') === -1) contents.push(node.content || '');
+  });
+  if (contents.length < 2) return [layer];
+
+  return contents.map(content => {
+    const nodes = layer.nodes.map(node => node && (node.content || '') === content ? node : undefined);
+    return { base: nodes.find((node): node is ProcessedNode => !!node)!, nodes, children: [] };
+  });
+}
+
+/**
+ * Emit JSX for a layer of a frame merged with the same screen at larger breakpoints.
+ * Structure and text come from the smallest frame that has each layer; styles change
+ * at each breakpoint through media queries or Tailwind screen prefixes.
+ */
+function emitResponsiveLayer(
+  layer: VariantLayer,
+  breakpoints: ResponsiveVariant[],
+  ctx: EmitContext,
+  depth: number,
+  acceptsClassName: boolean,
+  isRoot = true
+): string {
+  const indent = '  '.repeat(depth);
+  const node = layer.base;
+  const { tag, attributes } = responsiveStyleAttributes(
+    node.name, elementTag(node), responsiveDeclarations(layer, ctx, isRoot), breakpoints, ctx, isRoot && acceptsClassName
+  );
+
+  if (isExportedImage(node)) {
+    attributes.unshift(jsxAttribute('src', assetReference(node.asset!.path!, ctx)), jsxAttribute('alt', node.name));
+  }
+
+  const open = attributes.length > 0 ? `<${tag} ${attributes.join(' ')}` : `<${tag}`;
+  const text = node.type === 'TEXT' ? emitText(node, ctx) : '';
+  const children = node.type === 'TEXT' || isExportedImage(node) ? [] :
+    layer.children.reduce((all: VariantLayer[], child) => all.concat(splitResponsiveText(child)), []);
+
+  if (!text && children.length === 0) {
+    return `${indent}${open} />`;
+  }
+
+  if (text) {
+    return `${indent}${open}>${text}</${tag}>`;
+  }
+
+  return [
+    `${indent}${open}>`,
+    ...children.map(child => emitResponsiveLayer(child, breakpoints, ctx, depth + 1, false, false)),
+    `${indent}</${tag}>`,
+  ].join('\n');
+}
+
+/**
+ * Emit JSX for a frame, merging its responsive variants into it when it has them
+ */
+function emitFrame(node: ProcessedNode, ctx: EmitContext, depth: number, acceptsClassName: boolean): string {
+  return node.responsive ?
+    emitResponsiveLayer(responsiveLayers(node), node.responsive, ctx, depth, acceptsClassName) :
+    emitNode(node, ctx, depth, acceptsClassName);
+}
+
+/**
+ * Emit one function component per main component whose instances appear below the roots,
+ * taking the text and colors the instances set as props, and register the call each
+ * instance renders as
+ */
+function emitInstanceComponents(roots: ProcessedNode[], ctx: EmitContext): string[] {
+  const calls: Record<string, InstanceCall> = {};
+  const lines: string[] = [];
+
+  // In a flow, instances whose clicks differ from one instance to the next render inline
+  const inline = ctx.flow ? (instance: ProcessedNode) => collectInteractions(instance).length > 0 : undefined;
+  findInstanceComponents(roots, inline).forEach(component => {
+    const componentName = uniqueName(toComponentName(component.name), ctx.usedNames);
+    const propsName = uniqueName(`${componentName}Props`, ctx.usedNames);
+    component.instances.forEach((instance, index) => {
+      calls[instance.id] = { componentName, props: component.props, values: component.values[index] };
+    });
+
+    // The first instance stands in for the main component, without its placement
+    const bindings: Record<string, InstanceProp[]> = {};
+    component.props.forEach(prop => {
+      (bindings[prop.nodeId] = bindings[prop.nodeId] || []).push(prop);
+    });
+    ctx.instanceProps = bindings;
+    const first = component.instances[0];
+    const jsx = emitNode({ ...first, styles: splitPlacement(first).own }, ctx, 2, false, false);
+    ctx.instanceProps = undefined;
+
+    let signature = '';
+    if (component.props.length > 0) {
+      if (ctx.typescript) {
+        lines.push(`interface ${propsName} {`, ...component.props.map(prop => `  ${prop.name}: string;`), `}`, '');
+      }
+      signature = `{ ${component.props.map(prop => prop.name).join(', ')} }${ctx.typescript ? `: ${propsName}` : ''}`;
+    }
+    lines.push(`function ${componentName}(${signature}) {`, `  return (`, jsx, `  );`, `}`, '');
+  });
+
+  ctx.instanceCalls = calls;
+  return lines;
+}
+
+/**
+ * JSDoc lines with the designer notes of a node's tree; none when it has no notes
+ */
+function designerNotesDoc(node: ProcessedNode): string[] {
+  const notes = collectDesignerNotes(node);
+  if (notes.length === 0) return [];
+
+  const lines = ['/**'];
+  notes.forEach((note, i) => {
+    if (i > 0) lines.push(' *');
+    const text = `${note.layer ? `${note.layer}: ` : ''}${note.text}`.replace(/\*\//g, '*\\/');
+    text.split('\n').forEach(line => lines.push(line.trim() ? ` * ${line}` : ' *'));
+  });
+  lines.push(' */');
+  return lines;
+}
+
+/**
+ * Quote a string as a single-quoted JavaScript literal
+ */
+function quote(value: string): string {
+  return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Lower-case the first letter, for variable names built from component names
+ */
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Expression for the current option of a variant prop; boolean variants are keyed "true" and "false"
+ */
+function optionExpression(prop: ComponentProp): string {
+  return prop.type === 'boolean' ? `String(${prop.name})` : prop.name;
+}
+
+/**
+ * Register a module-level lookup and return the expression reading it for the current props
+ */
+function addLookup(ctx: EmitContext, mapName: string, values: Record<string, string>, index: string): string {
+  const entries = Object.entries(values).map(([key, value]) =>
+    `  ${/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(key) ? key : quote(key)}: ${quote(value)},`);
+  ctx.constants.push(`const ${mapName}${ctx.typescript ? ': Record<string, string>' : ''} = {\n${entries.join('\n')}\n};`);
+  return `${mapName}[${index}]`;
+}
+
+/**
+ * Lookups for the declarations a node's variants switch, rendered as class names or CSS
+ * text. The modifier names the option, e.g. "size-sm", for CSS class names.
+ */
+function variantLookups(
+  name: string,
+  kind: string,
+  split: VariantDeclarations,
+  ctx: EmitContext,
+  render: (declarations: CSSDeclaration[], modifier: string) => string
+): Array<{ map: string; index: string; transient: string; expression: string }> {
+  const groups = split.byProp.map(group => ({
+    suffix: toComponentName(group.prop.name),
+    index: optionExpression(group.prop),
+    modifierPrefix: `${group.prop.name}-`,
+    values: group.values,
+  }));
+  if (split.byVariant && ctx.component) {
+    ctx.component.usesVariantKey = true;
+    groups.push({ suffix: 'Variant', index: 'variantKey', modifierPrefix: '', values: split.byVariant });
+  }
+
+  return groups.map(group => {
+    const map = uniqueName(`${lowerFirst(toComponentName(name))}${kind}By${group.suffix}`, ctx.usedNames);
+    const rendered: Record<string, string> = {};
+    Object.entries(group.values).forEach(([option, declarations]) => {
+      rendered[option] = declarations.length > 0 ? render(declarations, `${group.modifierPrefix}${option}`) : '';
+    });
+    return { map, index: group.index, transient: `$${lowerFirst(group.suffix)}`, expression: addLookup(ctx, map, rendered, group.index) };
+  });
+}
+
+/**
+ * Expression for a value that depends on the variant
+ */
+function switchExpression(name: string, kind: string, valueSwitch: VariantSwitch, ctx: EmitContext): string {
+  if (valueSwitch.kind === 'static') return quote(valueSwitch.value);
+  const suffix = valueSwitch.kind === 'prop' ? toComponentName(valueSwitch.prop.name) : 'Variant';
+  const index = valueSwitch.kind === 'prop' ? optionExpression(valueSwitch.prop) : 'variantKey';
+  if (valueSwitch.kind === 'variant' && ctx.component) ctx.component.usesVariantKey = true;
+  const map = uniqueName(`${lowerFirst(toComponentName(name))}${kind}By${suffix}`, ctx.usedNames);
+  return addLookup(ctx, map, valueSwitch.values, index);
+}
+
+/**
+ * Condition under which a layer missing from some variants renders
+ */
+function presenceCondition(presence: VariantSwitch, ctx: EmitContext): string | undefined {
+  if (presence.kind === 'static') return undefined;
+
+  const present = Object.keys(presence.values).filter(option => presence.values[option] === 'true');
+  if (presence.kind === 'prop' && presence.prop.type === 'boolean') {
+    return present[0] === 'true' ? presence.prop.name : `!${presence.prop.name}`;
+  }
+
+  const subject = presence.kind === 'prop' ? presence.prop.name : 'variantKey';
+  if (presence.kind === 'variant' && ctx.component) ctx.component.usesVariantKey = true;
+  const checks = present.map(option => `${subject} === ${quote(option)}`);
+  return checks.length === 1 ? checks[0] : `(${checks.join(' || ')})`;
+}
+
+/**
+ * Emit JSX for a layer of a component with props. Styles, text and images that differ
+ * between variants are switched on the variant props; layers only some variants have
+ * render conditionally; boolean, text and instance swap properties bound to a layer
+ * show it, fill its text or replace it.
+ */
+function emitLayer(layer: VariantLayer, ctx: EmitContext, depth: number, acceptsClassName: boolean, isRoot: boolean, rootName: string): string {
+  const { variants } = ctx.component!;
+  const node = layer.base;
+  const name = isRoot ? rootName : node.name;
+
+  const conditions: string[] = [];
+  const presence = presenceCondition(switchValues(layer.nodes.map(n => n ? 'true' : 'false'), variants), ctx);
+  if (presence) conditions.push(presence);
+  const visibleProp = resolvePropertyReference(node, 'visible', variants.props);
+  if (visibleProp && visibleProp.type === 'boolean' && !isVariantProp(visibleProp)) conditions.push(visibleProp.name);
+  const slotProp = resolvePropertyReference(node, 'mainComponent', variants.props);
+  const slot = slotProp && slotProp.type === 'slot' ? slotProp.name : undefined;
+
+  const indent = '  '.repeat(depth);
+  const wrapped = conditions.length > 0 || !!slot;
+  const elementDepth = wrapped ? depth + 1 : depth;
+  const elementIndent = '  '.repeat(elementDepth);
+
+  const split = splitDeclarations(layer, variants, n => nodeDeclarations(n, ctx, isRoot));
+  const { tag, attributes } = styleAttributes(name, elementTag(node), split, ctx, isRoot && acceptsClassName);
+
+  if (isExportedImage(node)) {
+    const src = switchValues(layer.nodes.map(n => n ? (isExportedImage(n) ? assetReference(n.asset!.path!, ctx) : '') : undefined), variants);
+    attributes.unshift(
+      src.kind === 'static' ? jsxAttribute('src', src.value) : `src={${switchExpression(name, 'Src', src, ctx)}}`,
+      jsxAttribute('alt', node.name)
+    );
+  }
+
+  let text = '';
+  if (node.type === 'TEXT') {
+    const textProp = resolvePropertyReference(node, 'characters', variants.props);
+    const content = switchValues(layer.nodes.map(n => n ? n.content || '' : undefined), variants);
+    if (textProp && textProp.type === 'text') {
+      text = `{${textProp.name}}`;
+    } else if (content.kind === 'static') {
+      text = emitText(node, ctx);
+    } else {
+      text = `{${switchExpression(name, 'Text', content, ctx)}}`;
+    }
+  }
+
+  const open = attributes.length > 0 ? `<${tag} ${attributes.join(' ')}` : `<${tag}`;
+  const children = node.type === 'TEXT' || isExportedImage(node) ? [] : layer.children;
+  let element: string;
+  if (!text && children.length === 0) {
+    element = `${elementIndent}${open} />`;
+  } else if (text) {
+    element = `${elementIndent}${open}>${text}</${tag}>`;
+  } else {
+    element = [
+      `${elementIndent}${open}>`,
+      ...children.map(child => emitLayer(child, ctx, elementDepth + 1, false, false, rootName)),
+      `${elementIndent}</${tag}>`,
+    ].join('\n');
+  }
+
+  if (!wrapped) return element;
+
+  // An instance swap falls back to the design's instance when no slot content is passed
+  let prefix = slot ? `${slot} !== undefined ? ${slot} : (` : '';
+  let suffix = slot ? ')' : '';
+  if (conditions.length > 0) {
+    prefix = `${conditions.join(' && ')} && (${prefix}`;
+    suffix = `${suffix})`;
+  }
+  return [`${indent}{${prefix}`, element, `${indent}${suffix}}`].join('\n');
+}
+
+/**
+ * Literal for a prop's default value
+ */
+function defaultLiteral(prop: ComponentProp): string | undefined {
+  if (prop.defaultValue === undefined) return undefined;
+  return typeof prop.defaultValue === 'boolean' ? String(prop.defaultValue) : quote(prop.defaultValue);
+}
+
+/**
+ * TypeScript type of a prop: a union of a variant's options, boolean, string or a slot
+ */
+function propType(prop: ComponentProp, ctx: EmitContext): string {
+  switch (prop.type) {
+    case 'variant':
+      return (prop.options || []).map(quote).join(' | ') || 'string';
+    case 'boolean':
+      return 'boolean';
+    case 'text':
+      return 'string';
+    default:
+      if (ctx.imports.indexOf(`import type { ReactNode } from 'react';`) === -1) {
+        ctx.imports.push(`import type { ReactNode } from 'react';`);
+      }
+      return 'ReactNode';
+  }
+}
+
+/**
+ * Emit a function component for a component set or a component with properties. Its
+ * props are the component properties; the default variant's structure is rendered with
+ * the differences of the other variants switched on the props.
+ */
+function emitPropsComponent(
+  node: ProcessedNode,
+  componentName: string,
+  ctx: EmitContext,
+  options: { includeClassName: boolean; exported: boolean }
+): string[] {
+  const variants = analyzeComponentVariants(node);
+  ctx.usedNames.add('variantKey');
+
+  ctx.component = { variants, usesVariantKey: false };
+  const jsx = emitLayer(variants.root, ctx, 2, options.includeClassName, true, node.name);
+  const usesVariantKey = ctx.component.usesVariantKey;
+  ctx.component = undefined;
+
+  const propsName = `${componentName}Props`;
+  const lines: string[] = [];
+  if (ctx.typescript) {
+    lines.push(
+      `interface ${propsName} {`,
+      ...variants.props.map(prop => `  ${prop.name}?: ${propType(prop, ctx)};`),
+      ...(options.includeClassName ? ['  className?: string;'] : []),
+      `}`,
+      ''
+    );
+  }
+
+  const destructured = variants.props
+    .map(prop => {
+      const literal = defaultLiteral(prop);
+      return literal !== undefined ? `${prop.name} = ${literal}` : prop.name;
+    })
+    .concat(options.includeClassName ? ['className'] : []);
+  const signature = `{ ${destructured.join(', ')} }${ctx.typescript ? `: ${propsName}` : ''}`;
+
+  lines.push(...designerNotesDoc(node), `${options.exported ? 'export default ' : ''}function ${componentName}(${signature}) {`);
+  if (usesVariantKey) {
+    lines.push(`  const variantKey = [${variants.variantProps.map(optionExpression).join(', ')}].join('/');`);
+  }
+  lines.push(`  return (`, jsx, `  );`, `}`);
+  return lines;
+}
+
+// Modals cover the screen that opened them, centred over a dimmed backdrop
+const MODAL_BACKDROP: CSSDeclaration[] = [
+  ['position', 'fixed'],
+  ['inset', '0'],
+  ['z-index', '50'],
+  ['display', 'flex'],
+  ['align-items', 'center'],
+  ['justify-content', 'center'],
+  ['background-color', 'rgba(0, 0, 0, 0.5)'],
+];
+
+/**
+ * Name of the setter for a useState value
+ */
+function setterName(state: string): string {
+  return `set${state.charAt(0).toUpperCase()}${state.slice(1)}`;
+}
+
+/**
+ * Import path from a directory to a file, both relative to the project root
+ */
+function relativeImport(fromDirectory: string, toFile: string): string {
+  const from = fromDirectory.split('/').filter(Boolean);
+  const to = toFile.split('/');
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+    common++;
+  }
+  const up = from.length - common;
+  return `${up === 0 ? './' : '../'.repeat(up)}${to.slice(common).join('/')}`;
+}
+
+/**
+ * href or to attribute of a link to a route of the flow
+ */
+function linkTarget(path: string, ctx: EmitContext): string {
+  const scope = ctx.flow!;
+  scope.usesLink = true;
+  return jsxAttribute(scope.router === 'next-app' ? 'href' : 'to', path);
+}
+
+/**
+ * What clicking a node of a flow screen does. Navigation renders as a link, or as a
+ * click handler on images; overlays show their modal; back and close return to the
+ * previous route or close the modal. Clicks leading outside the flow do nothing.
+ */
+function flowAction(node: ProcessedNode, interaction: Interaction, ctx: EmitContext): FlowAction | undefined {
+  const scope = ctx.flow!;
+  const next = scope.router === 'next-app';
+  const handler = (code: string): FlowAction => {
+    if (next) ctx.clientComponent = true;
+    return { handler: `onClick={${code}}`, declarations: [['cursor', 'pointer']] };
+  };
+  const goBack = () => {
+    scope.usesRouter = true;
+    return handler(next ? '() => router.back()' : '() => navigate(-1)');
+  };
+  // Links are inline and underlined, the layers they replace aren't
+  const linkDeclarations: CSSDeclaration[] = node.type === 'TEXT' ?
+    [['text-decoration', 'none']] :
+    [['display', 'block'], ['color', 'inherit'], ['text-decoration', 'none']];
+
+  switch (interaction.kind) {
+    case 'back':
+      return goBack();
+    case 'close':
+      return scope.screen.kind === 'modal' ? handler('onClose') : goBack();
+    case 'url':
+      return isExportedImage(node) || !interaction.url ? undefined :
+        { tag: 'a', target: jsxAttribute('href', interaction.url), declarations: linkDeclarations };
+  }
+
+  const target = interaction.destinationId ? scope.flow.byId[interaction.destinationId] : undefined;
+  if (!target || target === scope.screen) return undefined;
+  if (target.kind === 'modal') {
+    const state = scope.modalState[target.node.id];
+    return state ? handler(`() => ${setterName(state)}(true)`) : undefined;
+  }
+  if (isExportedImage(node)) {
+    scope.usesRouter = true;
+    return handler(next ? `() => router.push(${quote(target.path!)})` : `() => navigate(${quote(target.path!)})`);
+  }
+  return { tag: 'Link', target: linkTarget(target.path!, ctx), declarations: linkDeclarations };
+}
+
+/**
+ * Emit the component of one flow screen: a route's page, or a modal that closes through
+ * onClose or a click on its backdrop. The modals a screen opens render after its
+ * content while their state is set.
+ */
+function emitFlowScreen(
+  screen: FlowScreen,
+  componentName: string,
+  modals: Array<{ id: string; name: string; importPath: string }>,
+  ctx: EmitContext,
+  scope: FlowScope
+): string[] {
+  const next = scope.router === 'next-app';
+  const isModal = screen.kind === 'modal';
+  ctx.flow = scope;
+  modals.forEach(modal => {
+    const state = uniqueName(`${lowerFirst(modal.name)}Open`, ctx.usedNames);
+    ctx.usedNames.add(setterName(state));
+    scope.modalState[modal.id] = state;
+  });
+
+  const lines = emitInstanceComponents([screen.node], ctx);
+  const hasModals = modals.length > 0;
+  const contentDepth = 2 + (hasModals ? 1 : 0) + (isModal ? 1 : 0);
+  let content = [emitNode(screen.node, ctx, contentDepth, false)];
+
+  if (isModal) {
+    const indent = '  '.repeat(contentDepth - 1);
+    const backdrop = styleAttributes(`${screen.node.name} backdrop`, 'div', { base: MODAL_BACKDROP, byProp: [] }, ctx, false);
+    const attributes = backdrop.attributes.concat(['onClick={(event) => { if (event.target === event.currentTarget) onClose(); }}']);
+    content = [`${indent}<${backdrop.tag} ${attributes.join(' ')}>`, ...content, `${indent}</${backdrop.tag}>`];
+    if (next) ctx.clientComponent = true;
+  }
+  if (hasModals) {
+    content = [
+      `    <>`,
+      ...content,
+      ...modals.map(modal => {
+        const state = scope.modalState[modal.id];
+        return `      {${state} && <${modal.name} onClose={() => ${setterName(state)}(false)} />}`;
+      }),
+      `    </>`,
+    ];
+    if (next) ctx.clientComponent = true;
+    ctx.imports.push(`import { useState } from 'react';`);
+  }
+
+  if (next) {
+    if (scope.usesLink) ctx.imports.push(`import Link from 'next/link';`);
+    if (scope.usesRouter) ctx.imports.push(`import { useRouter } from 'next/navigation';`);
+  } else {
+    const routerImports = (scope.usesLink ? ['Link'] : []).concat(scope.usesRouter ? ['useNavigate'] : []);
+    if (routerImports.length > 0) ctx.imports.push(`import { ${routerImports.join(', ')} } from 'react-router-dom';`);
+  }
+  modals.forEach(modal => ctx.imports.push(`import ${modal.name} from '${modal.importPath}';`));
+
+  const propsName = `${componentName}Props`;
+  if (isModal && ctx.typescript) {
+    lines.push(`interface ${propsName} {`, `  onClose: () => void;`, `}`, '');
+  }
+  const signature = isModal ? `{ onClose }${ctx.typescript ? `: ${propsName}` : ''}` : '';
+  lines.push(...designerNotesDoc(screen.node), `export default function ${componentName}(${signature}) {`);
+  if (scope.usesRouter) {
+    lines.push(next ? `  const router = useRouter();` : `  const navigate = useNavigate();`);
+  }
+  modals.forEach(modal => {
+    const state = scope.modalState[modal.id];
+    lines.push(`  const [${state}, ${setterName(state)}] = useState(false);`);
+  });
+  lines.push(`  return (`, ...content, `  );`, `}`);
+
+  ctx.flow = undefined;
+  return lines;
+}
+
+/**
+ * Root layout every Next.js App Router app needs, defining the next/font variables on <html>
+ */
+function nextLayoutFile(typescript: boolean, hasFonts: boolean): GeneratedFile {
+  const imports = [
+    ...(typescript ? [`import type { ReactNode } from 'react';`] : []),
+    ...(hasFonts ? [`import { fontVariables } from './fonts';`] : []),
+  ];
+  const lines = [
+    ...(imports.length > 0 ? imports.concat('') : []),
+    `export default function RootLayout({ children }${typescript ? ': { children: ReactNode }' : ''}) {`,
+    `  return (`,
+    hasFonts ? `    <html lang="en" className={fontVariables}>` : `    <html lang="en">`,
+    `      <body>{children}</body>`,
+    `    </html>`,
+    `  );`,
+    `}`,
+  ];
+  const extension = typescript ? 'tsx' : 'jsx';
+  return { name: `app/layout.${extension}`, content: lines.join('\n') + '\n', type: extension };
+}
+
+/**
+ * React Router app with a route per page of the flow, loading the fonts stylesheet
+ */
+function reactRouterAppFile(flow: PrototypeFlow, componentNames: Record<string, string>, typescript: boolean, hasFonts: boolean): GeneratedFile {
+  const routes = flow.screens.filter(screen => screen.kind === 'route');
+  const lines = [
+    `import { BrowserRouter, Route, Routes } from 'react-router-dom';`,
+    ...(hasFonts ? [`import './fonts.css';`] : []),
+    ...routes.map(route => `import ${componentNames[route.node.id]} from './pages/${componentNames[route.node.id]}';`),
+    '',
+    `export default function App() {`,
+    `  return (`,
+    `    <BrowserRouter>`,
+    `      <Routes>`,
+    ...routes.map(route => `        <Route path="${route.path}" element={<${componentNames[route.node.id]} />} />`),
+    `      </Routes>`,
+    `    </BrowserRouter>`,
+    `  );`,
+    `}`,
+  ];
+  const extension = typescript ? 'tsx' : 'jsx';
+  return { name: `src/App.${extension}`, content: lines.join('\n') + '\n', type: extension };
+}
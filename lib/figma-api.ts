@@ -1,4 +1,6 @@
-import { FigmaFile, FigmaNode } from '../types/figma';
+import { FigmaComment, FigmaFile, FigmaNodesResponse, FigmaProject, FigmaProjectFile } from '../types/figma';
+import { FigmaVariablesMeta } from '../types/tokens';
+import { FigmaVersion } from '../types/diff';
 
 /**
  * Figma API client for fetching design files
@@ -61,30 +63,57 @@ export class FigmaAPI {
   }
 
   /**
-   * Get a file by file key
+   * Get a file by file key, at a past version if given; depth limits how many levels of
+   * the document are returned
    */
-  async getFile(fileKey: string): Promise<FigmaFile> {
+  async getFile(fileKey: string, options: { depth?: number; version?: string } = {}): Promise<FigmaFile> {
     try {
-      const data = await this.request(`/files/${fileKey}`);
+      const params = new URLSearchParams();
+      if (options.depth) params.append('depth', options.depth.toString());
+      if (options.version) params.append('version', options.version);
+      const query = params.toString() ? `?${params.toString()}` : '';
+      const data = await this.request(`/files/${fileKey}${query}`);
       return data;
     } catch (error) {
       throw new Error(`Failed to fetch Figma file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Get a file's current version without its layers, to revalidate cached copies cheaply
+   */
+  async getFileVersion(fileKey: string): Promise<{ version: string; lastModified: string }> {
+    const { version, lastModified } = await this.getFile(fileKey, { depth: 1 });
+    return { version, lastModified };
+  }
+
   /**
    * Get specific nodes from a file
    */
-  async getNodes(fileKey: string, nodeIds: string[]): Promise<{ nodes: Record<string, FigmaNode> }> {
+  async getNodes(fileKey: string, nodeIds: string[], options: { depth?: number; version?: string } = {}): Promise<FigmaNodesResponse> {
     try {
       const idsParam = nodeIds.join(',');
-      const data = await this.request(`/files/${fileKey}/nodes?ids=${idsParam}`);
+      const depthParam = options.depth ? `&depth=${options.depth}` : '';
+      const versionParam = options.version ? `&version=${encodeURIComponent(options.version)}` : '';
+      const data = await this.request(`/files/${fileKey}/nodes?ids=${idsParam}${depthParam}${versionParam}`);
       return data;
     } catch (error) {
       throw new Error(`Failed to fetch Figma nodes: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Get the local variables of a file (requires a plan with the Variables API)
+   */
+  async getLocalVariables(fileKey: string): Promise<{ meta: FigmaVariablesMeta }> {
+    try {
+      const data = await this.request(`/files/${fileKey}/variables/local`);
+      return data;
+    } catch (error) {
+      throw new Error(`Failed to fetch Figma variables: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get file images (exports)
    */
@@ -124,10 +153,22 @@ export class FigmaAPI {
     }
   }
 
+  /**
+   * Get download URLs for the original images behind image fills, keyed by imageRef
+   */
+  async getImageFills(fileKey: string): Promise<{ meta: { images: Record<string, string> } }> {
+    try {
+      const data = await this.request(`/files/${fileKey}/images`);
+      return data;
+    } catch (error) {
+      throw new Error(`Failed to fetch Figma image fills: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get file comments
    */
-  async getComments(fileKey: string): Promise<{ comments: any[] }> {
+  async getComments(fileKey: string): Promise<{ comments: FigmaComment[] }> {
     try {
       const data = await this.request(`/files/${fileKey}/comments`);
       return data;
@@ -139,7 +180,7 @@ export class FigmaAPI {
   /**
    * Get team projects
    */
-  async getTeamProjects(teamId: string): Promise<{ projects: any[] }> {
+  async getTeamProjects(teamId: string): Promise<{ name: string; projects: FigmaProject[] }> {
     try {
       const data = await this.request(`/teams/${teamId}/projects`);
       return data;
@@ -151,7 +192,7 @@ export class FigmaAPI {
   /**
    * Get project files
    */
-  async getProjectFiles(projectId: string): Promise<{ files: any[] }> {
+  async getProjectFiles(projectId: string): Promise<{ name: string; files: FigmaProjectFile[] }> {
     try {
       const data = await this.request(`/projects/${projectId}/files`);
       return data;
@@ -178,7 +219,7 @@ export class FigmaAPI {
   /**
    * Get file version history
    */
-  async getVersions(fileKey: string): Promise<{ versions: any[] }> {
+  async getVersions(fileKey: string): Promise<{ versions: FigmaVersion[] }> {
     try {
       const data = await this.request(`/files/${fileKey}/versions`);
       return data;
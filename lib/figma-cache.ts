@@ -0,0 +1,194 @@
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CachedDocument, NewCachedDocument } from '../types/figma-cache';
+import { ProcessedNode } from '../types/figma';
+import { extractAllFrames } from '../utils/figma';
+
+const MAX_VERSIONS = 3; // Older versions of the same file and selection are deleted
+const CACHE_KEY_PATTERN = /^([a-zA-Z0-9]+)\.([a-f0-9]{12})\.([a-f0-9]{12})$/;
+const SESSION_ID_PATTERN = /^[a-f0-9]{32}$/;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const SESSIONS_DIRECTORY = '_sessions'; // File keys are alphanumeric, so it can't clash with one
+
+/**
+ * Short hash used in cache keys and file names
+ */
+function shortHash(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 12);
+}
+
+/**
+ * Cache key of a file version, and of the selected layers for subtree loads.
+ * Equal inputs give equal keys, so a cache lookup only needs the current version.
+ */
+export function cacheKeyFor(fileKey: string, version: string, nodeIds?: string[]): string {
+  const selection = nodeIds && nodeIds.length > 0 ? nodeIds.slice().sort().join(',') : '*';
+  return `${fileKey}.${shortHash(selection)}.${shortHash(version)}`;
+}
+
+/**
+ * Find processed nodes of a cached document by id. Frames come back as listed by
+ * extractAllFrames, with their path and component name; ids that aren't frames are
+ * looked up anywhere in the tree. Unknown ids are left out.
+ */
+export function findCachedNodes(cached: CachedDocument, nodeIds: string[]): ProcessedNode[] {
+  const frames = extractAllFrames(cached.document);
+
+  const findNode = (node: ProcessedNode, id: string): ProcessedNode | undefined => {
+    if (node.id === id) return node;
+    for (const child of node.children || []) {
+      const found = findNode(child, id);
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  return nodeIds
+    .map(id => frames.find(frame => frame.id === id) || findNode(cached.document, id))
+    .filter((node): node is ProcessedNode => !!node);
+}
+
+/**
+ * Read a JSON file, or undefined when it doesn't exist
+ */
+async function readJSON<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * On-disk cache of loaded Figma files, one JSON file per file version and selection,
+ * grouped in a directory per file key. Writes replace files atomically, so concurrent
+ * loads of the same version at worst write the same entry twice.
+ *
+ * Cache keys can be derived by anyone who knows the file, so clients never see them:
+ * each load that checked the caller's Figma access opens a random session id pointing
+ * at the entry, and expires after a day.
+ */
+export class FigmaCache {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Look up a cached document by cache key
+   */
+  async get(key: string): Promise<CachedDocument | undefined> {
+    const filePath = this.pathFor(key);
+    return filePath ? readJSON<CachedDocument>(filePath) : undefined;
+  }
+
+  /**
+   * Save a loaded file and return it with its cache key
+   */
+  async put(input: NewCachedDocument): Promise<CachedDocument> {
+    const cached: CachedDocument = {
+      ...input,
+      id: cacheKeyFor(input.fileKey, input.version, input.nodeIds),
+      cachedAt: Date.now(),
+    };
+
+    const filePath = this.pathFor(cached.id)!;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(cached));
+    await fs.rename(tempPath, filePath);
+
+    await this.prune(cached.id);
+    return cached;
+  }
+
+  /**
+   * Open a session on a cached document and return its id
+   */
+  async openSession(cached: CachedDocument): Promise<string> {
+    const sessionId = randomBytes(16).toString('hex');
+    const directory = path.join(this.directory, SESSIONS_DIRECTORY);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, `${sessionId}.json`), JSON.stringify({ key: cached.id }));
+
+    await this.pruneSessions();
+    return sessionId;
+  }
+
+  /**
+   * Look up the cached document of a session; undefined once the session or its entry expired
+   */
+  async getSession(sessionId: string): Promise<CachedDocument | undefined> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) return undefined;
+
+    const filePath = path.join(this.directory, SESSIONS_DIRECTORY, `${sessionId}.json`);
+    const stats = await fs.stat(filePath).catch(() => undefined);
+    if (!stats || Date.now() - stats.mtimeMs > SESSION_TTL_MS) return undefined;
+
+    const session = await readJSON<{ key: string }>(filePath);
+    return session && this.get(session.key);
+  }
+
+  /**
+   * Delete all but the newest versions cached for the same file and selection
+   */
+  private async prune(key: string): Promise<void> {
+    const [, fileKey, selection] = key.match(CACHE_KEY_PATTERN)!;
+    const directory = path.join(this.directory, fileKey);
+
+    const names = (await fs.readdir(directory)).filter(name => name.startsWith(`${selection}.`) && name.endsWith('.json'));
+    if (names.length <= MAX_VERSIONS) return;
+
+    const entries = await Promise.all(names.map(async name => ({
+      name,
+      modified: (await fs.stat(path.join(directory, name))).mtimeMs,
+    })));
+    entries.sort((a, b) => b.modified - a.modified);
+
+    await Promise.all(entries.slice(MAX_VERSIONS).map(entry =>
+      fs.unlink(path.join(directory, entry.name)).catch(() => undefined)
+    ));
+  }
+
+  /**
+   * Delete expired sessions
+   */
+  private async pruneSessions(): Promise<void> {
+    const directory = path.join(this.directory, SESSIONS_DIRECTORY);
+    const names = (await fs.readdir(directory)).filter(name => name.endsWith('.json'));
+
+    await Promise.all(names.map(async name => {
+      const filePath = path.join(directory, name);
+      const { mtimeMs } = await fs.stat(filePath).catch(() => ({ mtimeMs: Date.now() }));
+      if (Date.now() - mtimeMs > SESSION_TTL_MS) {
+        await fs.unlink(filePath).catch(() => undefined);
+      }
+    }));
+  }
+
+  /**
+   * File path for a cache key, or undefined for keys that aren't ours
+   */
+  private pathFor(key: string): string | undefined {
+    const match = key.match(CACHE_KEY_PATTERN);
+    if (!match) return undefined;
+    return path.join(this.directory, match[1], `${match[2]}.${match[3]}.json`);
+  }
+}
+
+let cache: FigmaCache | null = null;
+
+/**
+ * Shared cache at FIGMA_CACHE_DIR, defaulting to .data/figma-cache
+ */
+export function getFigmaCache(): FigmaCache {
+  if (!cache) {
+    cache = new FigmaCache(process.env.FIGMA_CACHE_DIR || path.join(process.cwd(), '.data', 'figma-cache'));
+  }
+  return cache;
+}
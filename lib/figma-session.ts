@@ -0,0 +1,99 @@
+import { FigmaAPI } from './figma-api';
+import { cacheKeyFor, getFigmaCache } from './figma-cache';
+import { loadSubtrees } from './subtree-loader';
+import { FigmaComment, FigmaFile } from '../types/figma';
+import { CachedDocument } from '../types/figma-cache';
+import { FigmaVariablesMeta } from '../types/tokens';
+import { extractAllFrames, processNode, summarizeNode } from '../utils/figma';
+import { extractDesignTokens } from '../utils/design-tokens';
+
+const FRAME_SUMMARY_DEPTH = 3; // Levels of children sent to the browser for frame selection
+
+/**
+ * Process a Figma file and cache it as a session. Used for files fetched from the API
+ * and for imported JSON snapshots alike, so both generate from the same trees.
+ */
+export async function createSession(
+  file: FigmaFile,
+  options: { fileKey: string; nodeIds?: string[]; variables?: FigmaVariablesMeta; comments?: FigmaComment[] }
+): Promise<CachedDocument> {
+  const tokens = extractDesignTokens(file, options.variables);
+  console.log('📝 Extracted design tokens:', tokens.tokens.length);
+
+  // Process the entire document once; later loads of this version reuse it
+  const document = processNode(file.document, undefined, tokens);
+
+  return getFigmaCache().put({
+    fileKey: options.fileKey,
+    version: file.version,
+    lastModified: file.lastModified,
+    nodeIds: options.nodeIds && options.nodeIds.length > 0 ? options.nodeIds : undefined,
+    file,
+    document,
+    tokens,
+    comments: options.comments,
+  });
+}
+
+/**
+ * Store the file's current comments with a session when they changed since it was cached
+ */
+export async function refreshComments(cached: CachedDocument, comments: FigmaComment[] | undefined): Promise<CachedDocument> {
+  if (!comments || JSON.stringify(comments) === JSON.stringify(cached.comments || [])) {
+    return cached;
+  }
+  console.log('📝 Updating comments:', comments.length);
+  return getFigmaCache().put({ ...cached, comments });
+}
+
+/**
+ * Load one version of a file as a session, from the cache when it was loaded before.
+ * With nodeIds only those layers are loaded, as for files too large to fetch whole.
+ */
+export async function loadVersionSession(
+  api: FigmaAPI,
+  fileKey: string,
+  version: string,
+  nodeIds: string[] = []
+): Promise<CachedDocument> {
+  const cached = await getFigmaCache().get(cacheKeyFor(fileKey, version, nodeIds));
+  if (cached) return cached;
+
+  console.log('📝 Loading version:', version);
+  const file = nodeIds.length > 0 ?
+    await loadSubtrees(api, fileKey, nodeIds, { version }) :
+    await api.getFile(fileKey, { version });
+  const variables = await api.getLocalVariables(fileKey).catch(() => undefined);
+  const comments = await api.getComments(fileKey).catch(() => undefined);
+
+  // Key the session by the requested version so the next lookup finds it
+  return createSession({ ...file, version }, { fileKey, nodeIds, variables: variables?.meta, comments: comments?.comments });
+}
+
+/**
+ * Response data for a loaded file, with a new session on it. The browser only gets frame
+ * summaries; full subtrees stay in the session and are requested by id through
+ * /api/figma/nodes or resolved by /api/generate.
+ */
+export async function sessionResponseData(cached: CachedDocument) {
+  // Extract all frames from the processed document (including nested frames)
+  const allFrames = extractAllFrames(cached.document);
+
+  console.log('📝 Extracted frames:', {
+    allNestedFrames: allFrames.length,
+    frameNames: allFrames.map(f => f.name)
+  });
+
+  return {
+    sessionId: await getFigmaCache().openSession(cached),
+    fileName: cached.file.name,
+    fileKey: cached.fileKey,
+    version: cached.version,
+    lastModified: cached.lastModified,
+    thumbnailUrl: cached.file.thumbnailUrl,
+    frames: allFrames.map(frame => summarizeNode(frame, FRAME_SUMMARY_DEPTH)),
+    totalFrames: allFrames.length,
+    tokens: cached.tokens,
+    loadedNodeIds: cached.nodeIds,
+  };
+}
@@ -0,0 +1,177 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GenerationRecord, HistoryPage, HistoryQuery, NewGenerationRecord } from '../types/history';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_RECORDS = 200; // Older records are dropped when a new one is added
+
+interface HistoryFile {
+  version: 1;
+  records: GenerationRecord[]; // Newest first
+}
+
+/**
+ * Lowercase a frame name and dash its spaces, the form used in /preview/[frameName] URLs
+ */
+function normalizeFrameName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Hash the inputs a prompt is built from, so identical generations share a hash
+ */
+export function hashPromptInputs(inputs: unknown): string {
+  return createHash('sha256').update(JSON.stringify(inputs)).digest('hex');
+}
+
+/**
+ * File-backed JSON store for the newest generations. The file is re-read on each call
+ * because API routes can hold separate module instances; writes are serialized
+ * and replace the file atomically.
+ */
+export class HistoryStore {
+  private filePath: string;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Save a generation and return the stored record
+   */
+  async add(input: NewGenerationRecord): Promise<GenerationRecord> {
+    const record: GenerationRecord = {
+      ...input,
+      id: randomUUID(),
+      lineCount: input.code.split('\n').length,
+      timestamp: Date.now(),
+    };
+
+    await this.update(records => [record, ...records]);
+    return record;
+  }
+
+  /**
+   * List records newest first, filtered by frame name and paginated
+   */
+  async list(query: HistoryQuery = {}): Promise<HistoryPage> {
+    const pageSize = Math.min(Math.max(query.pageSize || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const page = Math.max(query.page || 1, 1);
+
+    let records = (await this.read()).records;
+    if (query.frameName) {
+      const frameName = normalizeFrameName(query.frameName);
+      records = records.filter(record => normalizeFrameName(record.frameName) === frameName);
+    }
+    if (query.search) {
+      const search = query.search.toLowerCase();
+      records = records.filter(record => record.frameName.toLowerCase().includes(search));
+    }
+
+    return {
+      records: records.slice((page - 1) * pageSize, page * pageSize),
+      total: records.length,
+      page,
+      pageSize,
+      totalPages: Math.max(Math.ceil(records.length / pageSize), 1),
+      lastUpdated: records.length > 0 ? records[0].timestamp : null,
+    };
+  }
+
+  /**
+   * Look up a single record
+   */
+  async get(id: string): Promise<GenerationRecord | undefined> {
+    return (await this.read()).records.find(record => record.id === id);
+  }
+
+  /**
+   * Newest record per prompt hash, to reuse instead of generating again. Read once for
+   * all the lookups of a request.
+   */
+  async promptHashIndex(): Promise<Map<string, GenerationRecord>> {
+    const index = new Map<string, GenerationRecord>();
+    (await this.read()).records.forEach(record => {
+      if (!index.has(record.promptHash)) index.set(record.promptHash, record);
+    });
+    return index;
+  }
+
+  /**
+   * Delete a single record, returning whether it existed
+   */
+  async delete(id: string): Promise<boolean> {
+    let deleted = false;
+    await this.update(records => {
+      const remaining = records.filter(record => record.id !== id);
+      deleted = remaining.length < records.length;
+      return remaining;
+    });
+    return deleted;
+  }
+
+  /**
+   * Delete every record for a frame, or everything when no frame is given.
+   * Returns the number of deleted and remaining records.
+   */
+  async clear(frameName?: string): Promise<{ deleted: number; remaining: number }> {
+    let result = { deleted: 0, remaining: 0 };
+    await this.update(records => {
+      const normalized = frameName && normalizeFrameName(frameName);
+      const remaining = normalized ?
+        records.filter(record => normalizeFrameName(record.frameName) !== normalized) :
+        [];
+      result = { deleted: records.length - remaining.length, remaining: remaining.length };
+      return remaining;
+    });
+    return result;
+  }
+
+  private async read(): Promise<HistoryFile> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, records: [] };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read-modify-write the records, one update at a time
+   */
+  private update(change: (records: GenerationRecord[]) => GenerationRecord[]): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      const file = await this.read();
+      const next: HistoryFile = { version: 1, records: change(file.records).slice(0, MAX_RECORDS) };
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(next));
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    // Keep the queue going after a failed write; the caller still sees the error
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+let store: HistoryStore | null = null;
+
+/**
+ * Shared store at HISTORY_STORE_PATH, defaulting to .data/generation-history.json
+ */
+export function getHistoryStore(): HistoryStore {
+  if (!store) {
+    store = new HistoryStore(
+      process.env.HISTORY_STORE_PATH || path.join(process.cwd(), '.data', 'generation-history.json')
+    );
+  }
+  return store;
+}
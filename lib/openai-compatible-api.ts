@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import { CodeGenProvider, CompletionRequest } from '../types/codegen';
+
+/**
+ * Transport for any server exposing the OpenAI chat completions API
+ * (Ollama, vLLM, llama.cpp server, LM Studio, local mock servers)
+ */
+export class OpenAICompatibleAPI implements CodeGenProvider {
+  readonly id = 'local';
+  readonly displayName = 'Local LLM';
+  // Self-hosted servers don't rate limit; one retry covers a model still loading
+  readonly retryPolicy = { maxAttempts: 2 };
+  private client: OpenAI;
+  private model: string;
+  private maxTokens: number;
+
+  constructor(options: {
+    baseURL: string;
+    model: string;
+    apiKey?: string;
+    maxTokens?: number;
+    timeoutMs?: number;
+  }) {
+    this.client = new OpenAI({
+      baseURL: options.baseURL,
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      timeout: options.timeoutMs || 600000,
+    });
+    this.model = options.model;
+    this.maxTokens = options.maxTokens || 8192;
+  }
+
+  /**
+   * Send a prompt to the OpenAI-compatible server and return the text response
+   */
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.client.chat.completions.create(this.buildBody(request), { signal: request.signal });
+    return this.extractContent(response.choices[0]?.message?.content);
+  }
+
+  /**
+   * Stream a prompt to the OpenAI-compatible server, reporting content deltas as they arrive
+   */
+  async stream(request: CompletionRequest, onText: (text: string) => void): Promise<string> {
+    const stream = this.client.chat.completions.stream(this.buildBody(request), { signal: request.signal });
+    stream.on('content', onText);
+    const response = await stream.finalChatCompletion();
+    return this.extractContent(response.choices[0]?.message?.content);
+  }
+
+  private buildBody({ prompt }: CompletionRequest) {
+    return {
+      model: this.model,
+      max_tokens: this.maxTokens,
+      messages: [
+        {
+          role: 'user' as const,
+          content: prompt,
+        },
+      ],
+      temperature: 0.1,
+    };
+  }
+
+  private extractContent(content: string | null | undefined): string {
+    if (content) {
+      return content;
+    }
+
+    throw new Error(`No content received from ${this.model} at ${this.client.baseURL}`);
+  }
+}
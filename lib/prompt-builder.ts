@@ -0,0 +1,1186 @@
+import { ComponentProp, ProcessedNode, TextRun } from '../types/figma';
+import { Router } from '../types/codegen';
+import { ComponentVariants, VariantLayer, VariantSwitch, analyzeComponentVariants, resolvePropertyReference, splitDeclarations, switchValues } from '../utils/component-variants';
+import { findInstanceComponents } from '../utils/component-instances';
+import { collectDesignerNotes } from '../utils/designer-notes';
+import { generateComponentName, nodesToJSON } from '../utils/figma';
+import { ManifestFont, collectFonts } from '../utils/font-manifest';
+import { PrototypeFlow } from '../utils/prototype-flow';
+import { responsiveLayers } from '../utils/responsive-variants';
+import { stylesToCSS } from '../utils/styles';
+
+/**
+ * Prompt building shared by every code generation provider
+ */
+
+/**
+ * Analyze design content to extract meaningful information
+ */
+export function analyzeDesignContent(node: ProcessedNode, styling?: string): string {
+  const analysis: string[] = [];
+
+  // Component overview
+  analysis.push(`COMPONENT: ${node.componentName || node.name}`);
+  analysis.push(`TYPE: ${node.type}`);
+
+  // Dimensions
+  if (node.styles.width && node.styles.height) {
+    analysis.push(`DIMENSIONS: ${node.styles.width}×${node.styles.height}px${describeSizing(node)}`);
+  }
+
+  // Comments and component descriptions, which often describe behaviour the design can't show
+  const notes = collectDesignerNotes(node);
+  if (notes.length > 0) {
+    analysis.push(`DESIGNER NOTES (implement the behaviour they describe and put them in a JSDoc comment on the component):`);
+    notes.forEach(note => analysis.push(`  ${note.layer ? `On "${note.layer}": ` : ''}${note.text.replace(/\n/g, '\n    ')}`));
+  }
+
+  // Component properties and what each variant changes
+  if (node.componentProps) {
+    const variants = analyzeComponentVariants(node);
+    analysis.push(`COMPONENT PROPS (generate ONE component with these typed props, not one component per variant):`);
+    describeComponentProps(variants).forEach(prop => analysis.push(`  ${prop}`));
+
+    const differences = describeVariantDifferences(node, variants);
+    if (differences.length > 0) {
+      analysis.push(`VARIANT DIFFERENCES (build the default variant "${variants.variants[0].name}" and switch these on the props):`);
+      differences.forEach(difference => analysis.push(`  ${difference}`));
+    }
+  }
+
+  // Frames of the same screen at larger breakpoints, merged into this one
+  if (node.responsive) {
+    analysis.push(`BREAKPOINTS (build ONE mobile-first component: the structure below is the smallest frame, apply these changes from each min-width):`);
+    describeBreakpointDifferences(node, styling).forEach(line => analysis.push(`  ${line}`));
+  }
+
+  // Instances of the same component, to render as calls rather than repeated markup
+  if (!node.componentProps && !node.responsive) {
+    const reused = describeReusedComponents(node);
+    if (reused.length > 0) {
+      analysis.push(`REUSED COMPONENTS (define each ONCE and render every instance as a call with the listed props, don't repeat the markup):`);
+      reused.forEach(line => analysis.push(`  ${line}`));
+    }
+  }
+
+  // Layout analysis
+  const layoutInfo = analyzeLayout(node);
+  if (layoutInfo) {
+    analysis.push(`LAYOUT: ${layoutInfo}`);
+  }
+
+  // Detailed structure analysis
+  const structure = analyzeNodeStructure(node);
+  if (structure.length > 0) {
+    analysis.push(`STRUCTURE:`);
+    structure.forEach(item => analysis.push(`  ${item}`));
+  }
+
+  // Content extraction with positioning
+  const content = extractAllTextWithPosition(node);
+  if (content.length > 0) {
+    analysis.push(`TEXT CONTENT (with positions):`);
+    content.forEach((text, index) => {
+      const pos = text.position ? ` at (${text.position.x}, ${text.position.y})` : '';
+      analysis.push(`  ${index + 1}. "${text.content}" (${text.type}, ${text.styles}${pos})`);
+      if (text.markup) {
+        analysis.push(`     Rich text, keep this inline markup: ${text.markup}`);
+      }
+    });
+  }
+
+  // Color scheme with context
+  const colors = extractColorSchemeWithContext(node);
+  if (colors.length > 0) {
+    analysis.push(`COLORS WITH CONTEXT:`);
+    colors.forEach(color => analysis.push(`  ${color}`));
+  }
+
+  // Exported images and icons
+  const assets = extractAssetUsage(node);
+  if (assets.length > 0) {
+    analysis.push(`ASSETS (reference these exact relative paths; do not inline or redraw them):`);
+    assets.forEach(asset => analysis.push(`  ${asset}`));
+  }
+
+  // Design tokens the values come from
+  const tokens = extractTokenUsage(node);
+  if (tokens.length > 0) {
+    analysis.push(`DESIGN TOKENS (use var(--name) instead of the literal value; they are defined globally in tokens.css):`);
+    tokens.forEach(token => analysis.push(`  ${token}`));
+  }
+
+  // Spacing and layout details
+  const spacing = analyzeSpacing(node);
+  if (spacing.length > 0) {
+    analysis.push(`SPACING & LAYOUT:`);
+    spacing.forEach(space => analysis.push(`  ${space}`));
+  }
+
+  // Visual elements (boxes, shapes, etc.)
+  const visualElements = analyzeVisualElements(node);
+  if (visualElements.length > 0) {
+    analysis.push(`VISUAL ELEMENTS:`);
+    visualElements.forEach(element => analysis.push(`  ${element}`));
+  }
+
+  // Interactive elements with more detail
+  const interactive = findInteractiveElementsDetailed(node);
+  if (interactive.length > 0) {
+    analysis.push(`INTERACTIVE ELEMENTS:`);
+    interactive.forEach(element => analysis.push(`  ${element}`));
+  }
+
+  return analysis.join('\n');
+}
+
+/**
+ * Layers of a component in the order they render
+ */
+function flattenLayers(layer: VariantLayer): VariantLayer[] {
+  return [layer].concat(...layer.children.map(flattenLayers));
+}
+
+/**
+ * Describe each prop with its type, default and the layer it's bound to
+ */
+function describeComponentProps(variants: ComponentVariants): string[] {
+  const layers = flattenLayers(variants.root);
+  const boundLayer = (prop: ComponentProp, field: string) => {
+    const layer = layers.find(l => resolvePropertyReference(l.base, field, variants.props) === prop);
+    return layer ? layer.base.name : undefined;
+  };
+  const quote = (value: unknown) => JSON.stringify(value);
+
+  return variants.props.map(prop => {
+    if (prop.options) {
+      const type = prop.type === 'boolean' ? 'boolean' : prop.options.map(option => `'${option}'`).join(' | ');
+      return `${prop.name}?: ${type} (variant "${prop.figmaName}", default ${prop.type === 'boolean' ? prop.defaultValue : `'${prop.defaultValue}'`})`;
+    }
+    switch (prop.type) {
+      case 'boolean': {
+        const layer = boundLayer(prop, 'visible');
+        return `${prop.name}?: boolean (default ${prop.defaultValue})${layer ? `, shows or hides "${layer}"` : ''}`;
+      }
+      case 'text': {
+        const layer = boundLayer(prop, 'characters');
+        return `${prop.name}?: string (default ${quote(prop.defaultValue)})${layer ? `, the text of "${layer}"` : ''}`;
+      }
+      default: {
+        const layer = boundLayer(prop, 'mainComponent');
+        return `${prop.name}?: ReactNode slot${layer ? `, replaces "${layer}" (render the design's "${layer}" when not passed)` : ''}`;
+      }
+    }
+  });
+}
+
+/**
+ * Describe how the other variants differ from the default one: styles, text and layers
+ * that only some variants have, grouped by the prop options or variants they belong to
+ */
+function describeVariantDifferences(node: ProcessedNode, variants: ComponentVariants): string[] {
+  if (variants.variants.length < 2) return [];
+
+  const describeOption = (prop: ComponentProp, option: string) =>
+    prop.type === 'boolean' ? `${prop.name} = ${option}` : `${prop.name} = '${option}'`;
+  const describeKey = (key: string) => key.split('/')
+    .map((option, i) => describeOption(variants.variantProps[i], option))
+    .join(', ');
+  const describeSwitch = (valueSwitch: VariantSwitch) => Object.entries(valueSwitch.kind === 'static' ? {} : valueSwitch.values)
+    .map(([option, value]) => ({ when: valueSwitch.kind === 'prop' ? describeOption(valueSwitch.prop, option) : describeKey(option), value }));
+
+  const byCondition: Record<string, string[]> = {};
+  const add = (when: string, description: string) => {
+    (byCondition[when] = byCondition[when] || []).push(description);
+  };
+
+  flattenLayers(variants.root).forEach(layer => {
+    const name = layer === variants.root ? node.name : layer.base.name;
+
+    const split = splitDeclarations(layer, variants, n => stylesToCSS(n.styles, n.tokens));
+    split.byProp.forEach(group => {
+      Object.entries(group.values).forEach(([option, declarations]) => {
+        if (declarations.length > 0) {
+          add(describeOption(group.prop, option), `"${name}" ${declarations.map(([property, value]) => `${property}: ${value}`).join('; ')}`);
+        }
+      });
+    });
+    Object.entries(split.byVariant || {}).forEach(([key, declarations]) => {
+      if (declarations.length > 0) {
+        add(describeKey(key), `"${name}" ${declarations.map(([property, value]) => `${property}: ${value}`).join('; ')}`);
+      }
+    });
+
+    describeSwitch(switchValues(layer.nodes.map(n => n ? 'true' : 'false'), variants))
+      .filter(({ value }) => value === 'true')
+      .forEach(({ when }) => add(when, `"${name}" is shown (other variants don't have it)`));
+
+    if (layer.base.type === 'TEXT' && !resolvePropertyReference(layer.base, 'characters', variants.props)) {
+      describeSwitch(switchValues(layer.nodes.map(n => n ? n.content || '' : undefined), variants))
+        .forEach(({ when, value }) => add(when, `"${name}" text ${JSON.stringify(value)}`));
+    }
+  });
+
+  return Object.entries(byCondition).map(([when, descriptions]) => `${when}: ${descriptions.join('; ')}`);
+}
+
+/**
+ * Describe what changes at each larger breakpoint of a merged responsive frame: styles,
+ * text, and layers only some breakpoints show
+ */
+function describeBreakpointDifferences(node: ProcessedNode, styling?: string): string[] {
+  const breakpoints = node.responsive || [];
+  const lines = breakpoints.map(variant => {
+    const condition = styling === 'tailwind' ? `${variant.tailwindPrefix}:` : `@media (min-width: ${variant.minWidth}px)`;
+    return { header: `${variant.breakpoint} (${condition}, frame "${variant.node.name}")`, changes: [] as string[] };
+  });
+
+  flattenLayers(responsiveLayers(node)).forEach((layer, index) => {
+    const name = index === 0 ? node.name : layer.base.name;
+    // Styles and text carry over from the last breakpoint that had the layer
+    let previous = layer.nodes[0];
+    layer.nodes.slice(1).forEach((current, i) => {
+      const changes = lines[i].changes;
+      const shownBelow = !!layer.nodes[i];
+      if (!current) {
+        if (shownBelow) changes.push(`"${name}" is hidden`);
+      } else if (!previous) {
+        changes.push(`"${name}" is shown`);
+      } else {
+        if (!shownBelow) changes.push(`"${name}" is shown`);
+        const before = stylesToCSS(previous.styles, previous.tokens);
+        const changed = stylesToCSS(current.styles, current.tokens)
+          .filter(([property, value]) => !before.some(([p, v]) => p === property && v === value));
+        if (changed.length > 0) {
+          changes.push(`"${name}" ${changed.map(([property, value]) => `${property}: ${value}`).join('; ')}`);
+        }
+        if (current.type === 'TEXT' && (current.content || '') !== (previous.content || '')) {
+          changes.push(`"${name}" text ${JSON.stringify(current.content || '')}`);
+        }
+      }
+      if (current) previous = current;
+    });
+  });
+
+  return lines.map(line => `${line.header}: ${line.changes.length > 0 ? line.changes.join('; ') : 'no changes'}`);
+}
+
+/**
+ * Requirement lines for the fonts the design uses and the font manifest file that loads
+ * them, ending in a newline; empty when no text sets a font
+ */
+function fontRequirement(fonts: ManifestFont[], router?: Router): string {
+  if (fonts.length === 0) return '';
+
+  const loading = router === 'next-app' ?
+    `app/fonts.ts is provided: app/layout.tsx must import { fontVariables } from './fonts' and set it as the <html> className; set each font-family through its variable, e.g. var(${fonts[0].variable}), ${fonts[0].fallback}` :
+    router === 'react-router' ?
+      `src/fonts.css is provided: import './fonts.css' in src/App.tsx; keep the fallback in every font-family` :
+      `fonts.css is provided and included globally, don't import it; keep the fallback in every font-family`;
+  const lines = fonts.map(font => {
+    const faces = font.faces.map(face => `${face.weight}${face.style === 'italic' ? ' italic' : ''}`).join(', ');
+    return `  "${font.family}" ${faces} (fallback ${font.fallback})`;
+  });
+  return `- Fonts (${loading}):\n${lines.join('\n')}\n`;
+}
+
+/**
+ * Describe the components instanced below a node: their props, the layers the props set,
+ * and the call each instance renders as
+ */
+function describeReusedComponents(node: ProcessedNode): string[] {
+  const lines: string[] = [];
+  findInstanceComponents([node]).forEach(component => {
+    const componentName = generateComponentName(component.name) || 'Component';
+    const props = component.props.map(prop =>
+      `${prop.name}: string (${prop.kind === 'text' ? 'text' : prop.cssProperty} of "${prop.layerName}")`);
+    lines.push(`${componentName}${props.length > 0 ? ` { ${props.join('; ')} }` : ' (no props)'}`);
+    component.instances.forEach((instance, index) => {
+      const values = component.props.map(prop => ` ${prop.name}=${JSON.stringify(component.values[index][prop.name])}`).join('');
+      lines.push(`  "${instance.name}" → <${componentName}${values} />`);
+    });
+  });
+  return lines;
+}
+
+/**
+ * Analyze layout structure
+ */
+function analyzeLayout(node: ProcessedNode): string | null {
+  if (node.styles.display === 'flex') {
+    const direction = node.styles.flexDirection || 'row';
+    const align = node.styles.alignItems || 'stretch';
+    const justify = node.styles.justifyContent || 'flex-start';
+    const gap = node.styles.gap ? ` with ${node.styles.gap}px gap` : '';
+    const wrap = node.styles.flexWrap === 'wrap' ?
+      `, wrapping${node.styles.rowGap !== undefined ? ` with ${node.styles.rowGap}px between rows` : ''}` : '';
+    return `Flexbox ${direction}${gap}${wrap}, align: ${align}, justify: ${justify}`;
+  }
+  if (node.styles.display === 'grid') {
+    const rows = node.styles.gridTemplateRows ? `, grid-template-rows: ${node.styles.gridTemplateRows}` : '';
+    const columnGap = node.styles.columnGap ? `, column-gap: ${node.styles.columnGap}px` : '';
+    const rowGap = node.styles.rowGap ? `, row-gap: ${node.styles.rowGap}px` : '';
+    return `CSS Grid, grid-template-columns: ${node.styles.gridTemplateColumns}${rows}${columnGap}${rowGap} (use CSS Grid, not flexbox; place items as listed under SPACING & LAYOUT)`;
+  }
+  if (node.children && node.children.length > 0 && node.children.every(child => child.styles.position === 'absolute')) {
+    return `Freeform (no auto-layout), position: relative; every child is absolutely positioned with the insets, transforms and z-index listed under SPACING & LAYOUT`;
+  }
+  return null;
+}
+
+/**
+ * Describe hug/fill sizing so the model doesn't hard-code every design size
+ */
+function describeSizing(node: ProcessedNode): string {
+  const sizing = node.styles.sizing;
+  if (!sizing || (sizing.horizontal === 'fixed' && sizing.vertical === 'fixed')) {
+    return '';
+  }
+  return ` (width: ${sizing.horizontal}, height: ${sizing.vertical}; hug = size to content, fill = take available space)`;
+}
+
+/**
+ * Analyze node structure in detail
+ */
+function analyzeNodeStructure(node: ProcessedNode): string[] {
+  const structure: string[] = [];
+
+  if (node.children && node.children.length > 0) {
+    structure.push(`Has ${node.children.length} child elements`);
+
+    // Group children by type
+    const childTypes = node.children.reduce((acc, child) => {
+      acc[child.type] = (acc[child.type] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
+    Object.entries(childTypes).forEach(([type, count]) => {
+      structure.push(`  - ${count} ${type} element(s)`);
+    });
+
+    // Analyze layout patterns
+    const hasGridPattern = detectGridPattern(node.children);
+    if (hasGridPattern) {
+      structure.push(`  - Grid layout pattern detected (${hasGridPattern})`);
+    }
+
+    const hasListPattern = detectListPattern(node.children);
+    if (hasListPattern) {
+      structure.push(`  - List layout pattern detected`);
+    }
+  }
+
+  return structure;
+}
+
+/**
+ * Extract all text content with position and detailed styling
+ */
+export function extractAllTextWithPosition(node: ProcessedNode): Array<{
+  content: string;
+  type: string;
+  styles: string;
+  position?: { x: number; y: number };
+  markup?: string;
+}> {
+  const texts: Array<{
+    content: string;
+    type: string;
+    styles: string;
+    position?: { x: number; y: number };
+    markup?: string;
+  }> = [];
+
+  if (node.content) {
+    const type = categorizeText(node.content, node.styles);
+    const styles = formatTextStyles(node.styles);
+    const position = node.absoluteBoundingBox ?
+      { x: node.absoluteBoundingBox.x, y: node.absoluteBoundingBox.y } : undefined;
+    const markup = node.textRuns ? formatTextRuns(node.textRuns) : undefined;
+
+    texts.push({ content: node.content, type, styles, position, markup });
+  }
+
+  if (node.children) {
+    node.children.forEach(child => {
+      texts.push(...extractAllTextWithPosition(child));
+    });
+  }
+
+  return texts;
+}
+
+/**
+ * Render text runs as the HTML the component should contain
+ */
+function formatTextRuns(runs: TextRun[]): string {
+  return runs.map(run => {
+    const { fontWeight, ...rest } = run.styles;
+    const bold = fontWeight !== undefined && fontWeight >= 600;
+    let markup = run.text.replace(/\n/g, '<br />');
+
+    const css = stylesToCSS(bold ? rest : run.styles).map(([property, value]) => `${property}: ${value}`).join('; ');
+    if (css) markup = `<span style="${css}">${markup}</span>`;
+    if (bold) markup = `<strong>${markup}</strong>`;
+    if (run.href) markup = `<a href="${run.href}">${markup}</a>`;
+    return markup;
+  }).join('');
+}
+
+/**
+ * Categorize text based on styling
+ */
+function categorizeText(content: string, styles: ProcessedNode['styles']): string {
+  const fontSize = styles.fontSize || 16;
+  const fontWeight = styles.fontWeight || 400;
+
+  if (fontSize >= 32) return 'Large Heading';
+  if (fontSize >= 24) return 'Medium Heading';
+  if (fontSize >= 18) return 'Small Heading';
+  if (fontWeight >= 600) return 'Bold Text';
+  if (content.length < 30) return 'Label/Button';
+  return 'Body Text';
+}
+
+/**
+ * Format text styles for display
+ */
+function formatTextStyles(styles: ProcessedNode['styles']): string {
+  const parts: string[] = [];
+
+  if (styles.fontSize) parts.push(`${styles.fontSize}px`);
+  if (styles.fontWeight) parts.push(`weight-${styles.fontWeight}`);
+  if (styles.fontFamily) parts.push(styles.fontFamily);
+  if (styles.fontStyle) parts.push(styles.fontStyle);
+  if (styles.lineHeight) parts.push(`line-height: ${styles.lineHeight}`);
+  if (styles.letterSpacing) parts.push(`letter-spacing: ${styles.letterSpacing}px`);
+  if (styles.fontFeatureSettings) parts.push(`font-feature-settings: ${styles.fontFeatureSettings}`);
+  if (styles.fontVariantCaps) parts.push(`font-variant-caps: ${styles.fontVariantCaps}`);
+  if (styles.color) parts.push(`color: ${styles.color}`);
+  if (styles.alignContent) parts.push(`vertically ${styles.alignContent === 'center' ? 'centered' : 'bottom-aligned'} in its fixed height`);
+  if (styles.lineClamp) parts.push(styles.lineClamp === 1 ? 'one line, truncated with an ellipsis' : `clamped to ${styles.lineClamp} lines with an ellipsis`);
+
+  return parts.join(', ') || 'default styling';
+}
+
+/**
+ * Extract colors with context
+ */
+function extractColorSchemeWithContext(node: ProcessedNode): string[] {
+  const colors: string[] = [];
+
+  const addColorWithContext = (color: string, context: string, nodeName: string) => {
+    colors.push(`${color} (${context} on "${nodeName}")`);
+  };
+
+  if (node.styles.backgroundColor) {
+    addColorWithContext(node.styles.backgroundColor, 'background', node.name);
+  }
+  if (node.styles.backgroundImage) {
+    addColorWithContext(node.styles.backgroundImage, 'background image', node.name);
+  }
+  if (node.styles.color) {
+    addColorWithContext(node.styles.color, 'text', node.name);
+  }
+
+  if (node.children) {
+    node.children.forEach(child => {
+      colors.push(...extractColorSchemeWithContext(child));
+    });
+  }
+
+  return colors;
+}
+
+/**
+ * Describe how each exported asset is used: a whole node as an <img>, or a background image
+ */
+function extractAssetUsage(node: ProcessedNode): string[] {
+  const usage: string[] = [];
+  const asset = node.asset;
+
+  if (asset?.path && asset.imageRef) {
+    usage.push(`"${node.name}": background image ./${asset.path} (${node.styles.backgroundSize || 'auto'}), children render on top`);
+  } else if (asset?.path) {
+    const size = node.styles.width && node.styles.height ? ` at ${node.styles.width}×${node.styles.height}px` : '';
+    usage.push(`"${node.name}": <img src="./${asset.path}" alt="${node.name}">${size}`);
+    return usage;
+  }
+
+  node.children?.forEach(child => {
+    usage.push(...extractAssetUsage(child));
+  });
+
+  return usage;
+}
+
+/**
+ * List the design tokens each node's CSS properties reference, with the literal values they replace
+ */
+function extractTokenUsage(node: ProcessedNode): string[] {
+  const usage: string[] = [];
+
+  if (node.tokens) {
+    const literals = new Map(stylesToCSS(node.styles));
+    Object.entries(node.tokens).forEach(([property, token]) => {
+      const literal = literals.get(property);
+      usage.push(`${property} on "${node.name}": var(--${token})${literal ? ` (${literal})` : ''}`);
+    });
+  }
+
+  node.children?.forEach(child => {
+    usage.push(...extractTokenUsage(child));
+  });
+
+  return usage;
+}
+
+/**
+ * Analyze spacing and layout details
+ */
+function analyzeSpacing(node: ProcessedNode): string[] {
+  const spacing: string[] = [];
+
+  if (node.styles.padding) {
+    const p = node.styles.padding;
+    spacing.push(`Padding: ${p.top}px ${p.right}px ${p.bottom}px ${p.left}px`);
+  }
+
+  if (node.styles.gap) {
+    spacing.push(`Gap between children: ${node.styles.gap}px`);
+  }
+
+  // Children whose size follows the layout instead of the design size
+  node.children?.forEach(child => {
+    const sizing = child.styles.sizing;
+    if (child.styles.position === 'absolute') {
+      const inset = Object.entries(child.styles.inset || {}).map(([side, value]) => `${side}: ${value}`).join(', ');
+      const transform = child.styles.transform ? `, transform: ${child.styles.transform}` : '';
+      const zIndex = child.styles.zIndex !== undefined ? `, z-index: ${child.styles.zIndex}` : '';
+      spacing.push(`"${child.name}" is absolutely positioned (${inset}${transform}${zIndex})`);
+    } else if (child.styles.gridColumn || child.styles.gridRow) {
+      const placement = [
+        child.styles.gridColumn && `grid-column: ${child.styles.gridColumn}`,
+        child.styles.gridRow && `grid-row: ${child.styles.gridRow}`,
+      ].filter(Boolean).join(', ');
+      spacing.push(`"${child.name}" grid placement: ${placement}`);
+    } else if (sizing && (sizing.horizontal !== 'fixed' || sizing.vertical !== 'fixed')) {
+      spacing.push(`"${child.name}" sizing: width ${sizing.horizontal}, height ${sizing.vertical}`);
+    }
+  });
+
+  if (node.styles.borderRadius) {
+    spacing.push(`Border radius: ${node.styles.borderRadius}px`);
+  }
+
+  return spacing;
+}
+
+/**
+ * Analyze visual elements like shapes, containers
+ */
+function analyzeVisualElements(node: ProcessedNode): string[] {
+  const elements: string[] = [];
+
+  // Container analysis
+  if (node.styles.backgroundColor && node.children && node.children.length > 0) {
+    elements.push(`Container with ${node.styles.backgroundColor} background containing ${node.children.length} elements`);
+  }
+
+  // Shape analysis
+  if (node.type === 'RECTANGLE' || node.type === 'ELLIPSE') {
+    const color = node.styles.backgroundColor || 'transparent';
+    elements.push(`${node.type.toLowerCase()} shape with ${color} fill`);
+  }
+
+  // Strokes and effects, already in CSS form
+  const effects = [
+    node.styles.border && `border: ${node.styles.border}${node.styles.borderWidth ? ` (widths ${node.styles.borderWidth})` : ''}`,
+    node.styles.outline && `outline: ${node.styles.outline}`,
+    node.styles.boxShadow && `box-shadow: ${node.styles.boxShadow}`,
+    node.styles.textShadow && `text-shadow: ${node.styles.textShadow}`,
+    node.styles.filter && `filter: ${node.styles.filter}`,
+    node.styles.backdropFilter && `backdrop-filter: ${node.styles.backdropFilter}`,
+    node.styles.backgroundBlendMode && `background-blend-mode: ${node.styles.backgroundBlendMode}`,
+    node.styles.mixBlendMode && `mix-blend-mode: ${node.styles.mixBlendMode}`,
+    node.styles.isolation && `isolation: ${node.styles.isolation}`,
+    node.styles.overflow && `overflow: ${node.styles.overflow}`,
+    node.styles.clipPath && `clip-path: ${node.styles.clipPath}`,
+    node.styles.maskImage && `mask-image: ${node.styles.maskImage} (${[node.styles.maskSize, node.styles.maskPosition, node.styles.maskRepeat, node.styles.maskMode].filter(Boolean).join(', ')})`,
+  ].filter(Boolean);
+  if (effects.length > 0) {
+    elements.push(`"${node.name}" ${effects.join('; ')}`);
+  }
+
+  // Card-like structures
+  if (looksLikeCard(node)) {
+    elements.push(`Card-like container (has background, padding, and content)`);
+  }
+
+  if (node.children) {
+    node.children.forEach(child => {
+      elements.push(...analyzeVisualElements(child));
+    });
+  }
+
+  return elements;
+}
+
+/**
+ * Find interactive elements with detailed info
+ */
+function findInteractiveElementsDetailed(node: ProcessedNode): string[] {
+  const interactive: string[] = [];
+
+  if (node.content) {
+    if (looksLikeButton(node)) {
+      const color = node.styles.backgroundColor || 'default';
+      const size = node.styles.width && node.styles.height ?
+        `${node.styles.width}×${node.styles.height}px` : 'auto';
+      interactive.push(`Button: "${node.content}" (${color} background, ${size})`);
+    }
+
+    if (looksLikeLink(node)) {
+      interactive.push(`Link: "${node.content}" (${node.styles.color || 'default color'})`);
+    }
+  }
+
+  if (node.children) {
+    node.children.forEach(child => {
+      interactive.push(...findInteractiveElementsDetailed(child));
+    });
+  }
+
+  return interactive;
+}
+
+/**
+ * Determine if a node looks like a button
+ */
+function looksLikeButton(node: ProcessedNode): boolean {
+  const hasBackground = !!node.styles.backgroundColor;
+  const hasBorder = !!node.styles.borderRadius;
+  const hasButtonText = !!(node.content && /^(button|click|submit|send|save|cancel|ok|yes|no|confirm)$/i.test(node.content.trim()));
+  const isShortText = !!(node.content && node.content.length < 20);
+
+  return (hasBackground && hasBorder) || hasButtonText || (isShortText && hasBackground);
+}
+
+/**
+ * Determine if a node looks like a link
+ */
+function looksLikeLink(node: ProcessedNode): boolean {
+  const hasUnderline = node.styles.textAlign === 'underline';
+  const hasLinkColor = !!(node.styles.color && (node.styles.color.includes('blue') || node.styles.color.includes('#00')));
+  const hasLinkText = !!(node.content && /^(learn more|read more|view|see|visit|go to|link)/.test(node.content.toLowerCase()));
+
+  return hasUnderline || hasLinkColor || hasLinkText;
+}
+
+/**
+ * Check if node looks like a card
+ */
+function looksLikeCard(node: ProcessedNode): boolean {
+  return !!(
+    node.styles.backgroundColor &&
+    node.styles.borderRadius &&
+    node.children &&
+    node.children.length > 1 &&
+    node.children.some(child => child.content)
+  );
+}
+
+/**
+ * Detect grid pattern in children
+ */
+function detectGridPattern(children: ProcessedNode[]): string | null {
+  if (children.length < 4) return null;
+
+  // Check if children have similar sizes (suggesting grid)
+  const sizes = children
+    .filter(child => child.styles.width && child.styles.height)
+    .map(child => ({ w: child.styles.width!, h: child.styles.height! }));
+
+  if (sizes.length < 3) return null;
+
+  const avgWidth = sizes.reduce((sum, s) => sum + s.w, 0) / sizes.length;
+  const avgHeight = sizes.reduce((sum, s) => sum + s.h, 0) / sizes.length;
+
+  const similarSizes = sizes.filter(s =>
+    Math.abs(s.w - avgWidth) < avgWidth * 0.1 &&
+    Math.abs(s.h - avgHeight) < avgHeight * 0.1
+  );
+
+  if (similarSizes.length >= sizes.length * 0.7) {
+    const cols = Math.ceil(Math.sqrt(children.length));
+    return `${cols} columns`;
+  }
+
+  return null;
+}
+
+/**
+ * Detect list pattern in children
+ */
+function detectListPattern(children: ProcessedNode[]): boolean {
+  if (children.length < 2) return false;
+
+  // Check if children are stacked vertically with similar content structure
+  const textChildren = children.filter(child =>
+    child.content || (child.children && child.children.some(c => c.content))
+  );
+
+  return textChildren.length >= children.length * 0.8;
+}
+
+/**
+ * Build prompt for component generation
+ */
+export function buildComponentPrompt(
+  node: ProcessedNode,
+  options: {
+    framework: string;
+    styling: string;
+    typescript: boolean;
+    includeProps: boolean;
+    responsive: boolean;
+  }
+): string {
+  const { framework, styling, typescript, includeProps, responsive } = options;
+
+  // Analyze the design content
+  const designAnalysis = analyzeDesignContent(node, styling);
+  const componentName = node.componentName || node.name.replace(/[^a-zA-Z0-9]/g, '');
+
+  return `You are an expert ${framework} developer. Generate a production-ready component that EXACTLY matches this Figma design.
+
+=== DESIGN ANALYSIS ===
+${designAnalysis}
+
+=== FIGMA DESIGN DATA ===
+${nodesToJSON(node, 2)}
+
+=== REQUIREMENTS ===
+- Framework: ${framework} (functional components with hooks)
+- Styling: ${styling}
+- TypeScript: ${typescript ? 'Yes - include proper type definitions' : 'No'}
+- Props Interface: ${includeProps ? 'Yes - create reusable props' : 'No'}
+- Responsive: ${responsive ? 'Yes - mobile-first approach' : 'No'}
+${fontRequirement(collectFonts([node]))}
+=== CRITICAL INSTRUCTIONS ===
+1. **EXACT CONTENT REPLICATION**: Use EVERY SINGLE piece of text content from the design analysis above - do not invent or skip any text
+2. **PRECISE LAYOUT**: Create the EXACT same visual structure with accurate spacing, positioning, and element arrangement
+3. **ACCURATE STYLING**: Match every color, font size, font weight, and visual property exactly as specified
+4. **STRUCTURE FIDELITY**: Recreate the exact hierarchy and nesting of elements as described in the structure analysis
+5. **VISUAL ELEMENT RECREATION**: Include all containers, shapes, cards, and visual elements described
+6. **INTERACTIVE ELEMENT IMPLEMENTATION**: Create all buttons, links, and interactive elements with exact styling and positioning
+7. **SPACING PRECISION**: Use the exact padding, margins, and gaps specified in the spacing analysis
+8. **RESPONSIVE BEHAVIOR**: Maintain the design's visual integrity across screen sizes
+9. **NO PLACEHOLDER CONTENT**: Do not use lorem ipsum or generic content - use only the actual text from the design
+
+=== STYLING APPROACH ===
+${styling === 'tailwind' ? `
+- Use Tailwind CSS utility classes ONLY (no CSS imports)
+- Match exact colors using arbitrary values if needed: bg-[#FF5733]
+- Use exact spacing and sizing from the design
+- Implement responsive breakpoints: sm:, md:, lg:, xl:
+- DO NOT include any import statements for CSS files
+- All styling must be done through className attributes
+` : styling === 'css' ? `
+- Use CSS modules with descriptive class names
+- Create exact color values and measurements from the design
+- Use flexbox/grid for layouts
+- Include responsive media queries
+- MANDATORY: You MUST generate a separate CSS file with all styles
+- The CSS file should contain complete styling for the component
+- Use semantic class names that match the JSX structure
+- Include hover effects, transitions, and responsive design
+- The TSX file should import and use these CSS classes
+` : `
+- Use styled-components for styling
+- Create theme-aware styled elements
+- Implement exact design tokens
+- Add responsive styling
+`}
+
+=== OUTPUT FORMAT ===
+${styling === 'css' ? `
+You MUST generate BOTH files. Follow this EXACT format:
+
+--- TSX FILE ---
+\`\`\`tsx
+import './${componentName}.css';
+
+export default function ${componentName}() {
+  return (
+    [Complete JSX with exact content and className attributes]
+  );
+}
+\`\`\`
+
+--- CSS FILE ---
+\`\`\`css
+/* Complete CSS styles for the component */
+.component-container {
+  /* Main container styles */
+}
+
+.component-title {
+  /* Title styles */
+}
+
+/* Add all necessary CSS classes with exact design values */
+/* Include responsive breakpoints */
+/* Include hover effects and transitions */
+\`\`\`
+
+CRITICAL: You MUST generate BOTH the TSX file AND the CSS file. The CSS file must contain ALL styling for the component.
+` : `
+Return ONLY the code files in this exact format:
+
+--- TSX FILE ---
+\`\`\`tsx
+export default function ${componentName}() {
+  return (
+    [Complete JSX with exact content and styling]
+  );
+}
+\`\`\`
+`}
+
+CRITICAL COMPONENT REQUIREMENTS:
+1. **COMPLETE FUNCTION COMPONENT**: Must be a complete, exportable React function component
+2. **PROPER JSX STRUCTURE**: All JSX must be properly nested and closed
+3. **EXACT CONTENT**: Use the exact text content from the design analysis
+4. **PIXEL-PERFECT STYLING**: Match all colors, fonts, spacing, and layout exactly
+5. **FUNCTIONAL CODE**: The component must compile and render without errors
+6. **NO IMPORTS**: Do not include any import statements (React, CSS, or other modules)
+7. **SELF-CONTAINED**: The component must work independently without external dependencies
+
+IMPORTANT: The generated component must be a pixel-perfect recreation of the design. Every text element, color, spacing, and visual element must match exactly. Do not create simplified or generic versions.
+
+Generate the complete, functional component now with EXACT fidelity to the design:`;
+}
+
+/**
+ * Build prompt for page generation
+ */
+export function buildPagePrompt(
+  nodes: ProcessedNode[],
+  options: {
+    framework: string;
+    styling: string;
+    typescript: boolean;
+    responsive: boolean;
+    pageName: string;
+  }
+): string {
+  const { framework, styling, typescript, responsive, pageName } = options;
+
+  // Analyze each frame in detail
+  const frameAnalyses = nodes.map((node, index) => {
+    const analysis = analyzeDesignContent(node, styling);
+    return `
+=== FRAME ${index + 1}: ${node.name} ===
+${analysis}
+`;
+  }).join('\n');
+
+  return `You are an expert ${framework} developer. Generate a complete, professional page component that EXACTLY recreates these Figma frames as a cohesive website.
+
+=== COMPLETE DESIGN ANALYSIS ===
+${frameAnalyses}
+
+=== DETAILED FIGMA DATA ===
+${nodesToJSON(nodes, 2)}
+
+=== REQUIREMENTS ===
+- Framework: ${framework} (functional components with hooks)
+- Styling: ${styling}
+- TypeScript: ${typescript ? 'Yes - include proper type definitions' : 'No'}
+- Responsive: ${responsive ? 'Yes - mobile-first approach' : 'No'}
+- Page Name: ${pageName}
+${fontRequirement(collectFonts(nodes))}
+=== CRITICAL INSTRUCTIONS ===
+1. **EXACT CONTENT REPLICATION**: Use ALL the exact text content from the design analysis above
+2. **FRAME-TO-SECTION MAPPING**: Convert each frame into a semantic page section
+3. **PRECISE STYLING**: Match all colors, fonts, spacing, and layouts exactly
+4. **PROFESSIONAL STRUCTURE**: Create a cohesive, production-ready website
+5. **SEMANTIC HTML**: Use header, main, section, footer, nav appropriately
+6. **ACCESSIBILITY**: Include proper ARIA labels and semantic structure
+
+=== FRAME CONVERSION STRATEGY ===
+- Frame 1 → Usually Header/Hero section
+- Frame 2+ → Main content sections (features, products, services, etc.)
+- Last Frame → Often Footer or CTA section
+- Maintain exact visual hierarchy and content from each frame
+
+=== STYLING APPROACH ===
+${styling === 'tailwind' ? `
+- Use Tailwind CSS utility classes exclusively (no CSS imports)
+- Match exact colors with arbitrary values: bg-[#FF5733], text-[#333333]
+- Use exact spacing and sizing from designs
+- Implement responsive breakpoints: sm:, md:, lg:, xl:
+- Add hover effects and transitions: hover:bg-blue-600 transition-colors
+- DO NOT include any import statements for CSS files
+` : styling === 'css' ? `
+- Use CSS modules with semantic class names
+- Create exact color values and measurements from design
+- Use flexbox/grid for complex layouts
+- Include responsive media queries
+- Add hover effects and smooth transitions
+- MANDATORY: You MUST generate a separate CSS file with all styles
+- The CSS file should contain complete styling for the entire page
+- Use semantic class names that match the JSX structure
+- Include section-specific styles for each frame
+- The TSX file should import and use these CSS classes
+` : `
+- Use styled-components for all styling
+- Create theme-aware components
+- Implement exact design tokens and values
+- Add responsive styling and interactions
+`}
+
+=== OUTPUT FORMAT ===
+${styling === 'css' ? `
+You MUST generate BOTH files. Follow this EXACT format:
+
+--- TSX FILE ---
+\`\`\`tsx
+import './${pageName}.css';
+
+export default function ${pageName}() {
+  return (
+    [Complete page component with exact content from all frames using className attributes]
+  );
+}
+\`\`\`
+
+--- CSS FILE ---
+\`\`\`css
+/* Complete CSS styles for the entire page */
+.page-container {
+  /* Main page container styles */
+}
+
+.header-section {
+  /* Header/Hero section styles */
+}
+
+.main-content {
+  /* Main content area styles */
+}
+
+.footer-section {
+  /* Footer section styles */
+}
+
+/* Add all necessary CSS classes with exact design values from all frames */
+/* Include responsive breakpoints */
+/* Include hover effects and transitions */
+/* Include section-specific styles */
+\`\`\`
+
+CRITICAL: You MUST generate BOTH the TSX file AND the CSS file. The CSS file must contain ALL styling for the entire page.
+` : `
+Return ONLY the complete page component code:
+
+--- TSX FILE ---
+[Complete page component with exact content from all frames]
+`}
+
+Generate the complete website now with EXACT fidelity to all frame designs:`;
+}
+
+/**
+ * Describe what clicking each element of a flow screen does, with targets named by
+ * route path or modal
+ */
+function describeFlowInteractions(node: ProcessedNode, flow: PrototypeFlow, names: Record<string, string>): string[] {
+  const lines: string[] = [];
+  const describeTarget = (destinationId: string | undefined) => {
+    const target = destinationId ? flow.byId[destinationId] : undefined;
+    if (!target) return undefined;
+    return target.kind === 'route' ? `link to route ${target.path}` : `open modal ${names[target.node.id]}`;
+  };
+
+  const visit = (current: ProcessedNode) => {
+    const interaction = current.interaction;
+    let behaviour: string | undefined;
+    if (interaction) {
+      switch (interaction.kind) {
+        case 'back':
+          behaviour = 'go back to the previous route';
+          break;
+        case 'close':
+          behaviour = 'close this modal';
+          break;
+        case 'url':
+          behaviour = interaction.url ? `link to ${interaction.url}` : undefined;
+          break;
+        default:
+          behaviour = describeTarget(interaction.destinationId);
+      }
+    }
+    if (behaviour) lines.push(`"${current.name}" → ${behaviour}`);
+
+    (current.textRuns || []).forEach(run => {
+      const target = run.nodeId ? describeTarget(run.nodeId) : undefined;
+      if (target) lines.push(`Text "${run.text}" in "${current.name}" → ${target}`);
+    });
+    (current.children || []).forEach(visit);
+  };
+
+  visit(node);
+  return lines;
+}
+
+/**
+ * Build prompt for generating a multi-route app from a prototype flow
+ */
+export function buildFlowPrompt(
+  flow: PrototypeFlow,
+  options: {
+    styling: string;
+    typescript: boolean;
+    responsive: boolean;
+    router: Router;
+  }
+): string {
+  const { styling, typescript, responsive, router } = options;
+  const next = router === 'next-app';
+  const extension = typescript ? 'tsx' : 'jsx';
+
+  const names: Record<string, string> = {};
+  const files: Record<string, string> = {};
+  flow.screens.forEach(screen => {
+    const name = `${generateComponentName(screen.node.name) || 'Screen'}${screen.kind === 'modal' ? 'Modal' : 'Page'}`;
+    names[screen.node.id] = name;
+    files[screen.node.id] = screen.kind === 'modal' ? `${next ? '' : 'src/'}components/${name}.${extension}` :
+      next ? `app${screen.path === '/' ? '' : screen.path}/page.${extension}` : `src/pages/${name}.${extension}`;
+  });
+
+  const screenAnalyses = flow.screens.map((screen, index) => {
+    const interactions = describeFlowInteractions(screen.node, flow, names);
+    return `
+=== SCREEN ${index + 1}: ${screen.node.name} ===
+${screen.kind === 'route' ? `Route: ${screen.path}` : 'Modal, opened over the screens that link to it'}
+Component: ${names[screen.node.id]} in ${files[screen.node.id]}
+${interactions.length > 0 ? `Clickable elements:\n${interactions.map(line => `- ${line}`).join('\n')}` : 'No clickable elements'}
+${analyzeDesignContent(screen.node)}
+`;
+  }).join('\n');
+
+  const entryFiles = next ? [`app/layout.${extension}`] : [`src/App.${extension}`];
+  const fileList = entryFiles.concat(flow.screens.map(screen => files[screen.node.id]));
+
+  return `You are an expert React developer. Generate a multi-route application that EXACTLY recreates these Figma frames, wired together as in the prototype.
+
+=== PROTOTYPE FLOW ===
+${screenAnalyses}
+
+=== DETAILED FIGMA DATA ===
+${nodesToJSON(flow.screens.map(screen => screen.node), 2)}
+
+=== REQUIREMENTS ===
+- Router: ${next ? `Next.js App Router (one page.${extension} per route folder, Link from next/link, useRouter from next/navigation)` : `React Router v6 (BrowserRouter and Routes in src/App.${extension}, Link and useNavigate from react-router-dom)`}
+- Styling: ${styling}${styling === 'css' ? ' (a CSS file next to each component, imported by it)' : ''}
+- TypeScript: ${typescript ? 'Yes - include proper type definitions' : 'No'}
+- Responsive: ${responsive ? 'Yes - mobile-first approach' : 'No'}
+${fontRequirement(collectFonts(flow.screens.map(screen => screen.node)), router)}${flow.screens.some(screen => extractAssetUsage(screen.node).length > 0) ? `- Assets: exported images are served from public/assets/, so reference each ./assets/<file> above as /assets/<file> (also in CSS url())
+` : ''}
+=== CRITICAL INSTRUCTIONS ===
+1. **ONE ROUTE PER SCREEN**: Each route screen is the default export of its own file
+2. **NAVIGATION**: Elements that link to a route render as <Link> to that path
+3. **MODALS**: Modals are components taking an onClose prop. The screen that opens one keeps it in useState and renders it while open
+4. **BACK AND CLOSE**: "Go back" uses the router's history; "close this modal" calls onClose
+5. **EXACT CONTENT REPLICATION**: Use ALL the exact text content from the design analysis above
+6. **PRECISE STYLING**: Match all colors, fonts, spacing, and layouts exactly
+${next ? `7. **CLIENT COMPONENTS**: Start files that use hooks or event handlers with 'use client'
+` : ''}
+=== OUTPUT FORMAT ===
+Generate these files, each starting with a marker line giving its path:
+${fileList.map(file => `- ${file}`).join('\n')}
+
+--- FILE: ${fileList[0]} ---
+[Complete file content]
+
+--- FILE: ${fileList[1]} ---
+[Complete file content]
+
+Generate the complete application now with EXACT fidelity to all frame designs:`;
+}
+
+/**
+ * Build Angular-specific prompt with Bootstrap 4.3 and Material 8
+ */
+export function buildAngularComponentPrompt(node: ProcessedNode): string {
+  const componentName = (node.componentName || node.name).replace(/[^a-zA-Z0-9]/g, '');
+
+  return `Create Angular 8 component: ${componentName}
+
+DESIGN INFO:
+Name: ${node.name}
+Size: ${node.styles.width}x${node.styles.height}px
+Background: ${node.styles.backgroundColor || 'transparent'}
+Text: ${extractAllTextWithPosition(node).map(t => t.markup || t.content).join(', ') || 'No text'}
+
+REQUIREMENTS:
+- Angular 8 + Bootstrap 4.3 + Material 8
+- TypeScript component with proper imports
+- 3 separate files: .ts, .html, .scss
+- Use Bootstrap grid and Material components
+
+OUTPUT 3 FILES:
+
+--- TYPESCRIPT FILE ---
+\`\`\`typescript
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-${componentName.toLowerCase()}',
+  templateUrl: './${componentName.toLowerCase()}.component.html',
+  styleUrls: ['./${componentName.toLowerCase()}.component.scss']
+})
+export class ${componentName}Component {
+  constructor() { }
+}
+\`\`\`
+
+--- HTML FILE ---
+\`\`\`html
+<div class="container ${componentName.toLowerCase()}-container">
+  <!-- Bootstrap + Material template here -->
+</div>
+\`\`\`
+
+--- SCSS FILE ---
+\`\`\`scss
+.${componentName.toLowerCase()}-container {
+  /* Component styles */
+}
+\`\`\``;
+}
+
+/**
+ * Build prompt for optimizing previously generated code
+ */
+export function buildOptimizePrompt(
+  code: string,
+  optimizationType: 'performance' | 'accessibility' | 'responsive' | 'clean-code'
+): string {
+  return `Please optimize the following React component code for ${optimizationType}.
+
+Provide the optimized code with improvements for:
+${optimizationType === 'performance' ? '- React.memo, useMemo, useCallback where appropriate\n- Lazy loading\n- Efficient re-renders' : ''}
+${optimizationType === 'accessibility' ? '- ARIA labels and roles\n- Keyboard navigation\n- Screen reader support\n- Color contrast' : ''}
+${optimizationType === 'responsive' ? '- Mobile-first design\n- Flexible layouts\n- Responsive typography\n- Touch-friendly interactions' : ''}
+${optimizationType === 'clean-code' ? '- Better naming conventions\n- Proper code organization\n- Remove duplications\n- Add helpful comments' : ''}
+
+Original code:
+\`\`\`typescript
+${code}
+\`\`\`
+
+Return only the optimized code without explanations.`;
+}
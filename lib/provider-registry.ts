@@ -0,0 +1,100 @@
+import { GenerationEngine } from '../types/codegen';
+import { ClaudeAPI } from './claude-api';
+import { CodeGenerator } from './code-generator';
+import { DeterministicGenerator } from './deterministic-generator';
+import { GeminiAPI } from './gemini-api';
+import { OpenAIAPI } from './openai-api';
+import { OpenAICompatibleAPI } from './openai-compatible-api';
+
+type Env = Record<string, string | undefined>;
+
+export interface ProviderOverrides {
+  model?: string; // Per-request model name, takes precedence over the environment
+}
+
+export interface ProviderRegistration {
+  id: string;
+  displayName: string;
+  requiredEnv: string[]; // Environment variables that must be set before the provider can be created
+  createEngine: (env: Env, overrides?: ProviderOverrides) => GenerationEngine;
+}
+
+const registry = new Map<string, ProviderRegistration>();
+
+/**
+ * Register a code generation provider so /api/generate can select it by id.
+ * LLM providers wrap their transport in a CodeGenerator.
+ */
+export function registerProvider(registration: ProviderRegistration): void {
+  registry.set(registration.id, registration);
+}
+
+/**
+ * Look up a registered provider by id
+ */
+export function getProviderRegistration(id: string): ProviderRegistration | undefined {
+  return registry.get(id);
+}
+
+/**
+ * List all registered providers
+ */
+export function listProviders(): ProviderRegistration[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Return the required environment variables that are not set for a provider
+ */
+export function getMissingEnv(registration: ProviderRegistration, env: Env = process.env): string[] {
+  return registration.requiredEnv.filter(name => !env[name]);
+}
+
+registerProvider({
+  id: 'claude',
+  displayName: 'Claude',
+  requiredEnv: ['ANTHROPIC_API_KEY'],
+  createEngine: (env, overrides = {}) => new CodeGenerator(
+    new ClaudeAPI(env.ANTHROPIC_API_KEY!, overrides.model || env.CLAUDE_MODEL || undefined)
+  ),
+});
+
+registerProvider({
+  id: 'openai',
+  displayName: 'OpenAI',
+  requiredEnv: ['OPENAI_API_KEY'],
+  createEngine: (env, overrides = {}) => new CodeGenerator(
+    new OpenAIAPI(env.OPENAI_API_KEY!, overrides.model || env.OPENAI_MODEL || undefined)
+  ),
+});
+
+registerProvider({
+  id: 'gemini',
+  displayName: 'Gemini',
+  requiredEnv: ['GEMINI_API_KEY'],
+  createEngine: (env, overrides = {}) => new CodeGenerator(
+    new GeminiAPI(env.GEMINI_API_KEY!, overrides.model || env.GEMINI_MODEL || undefined)
+  ),
+});
+
+registerProvider({
+  id: 'local',
+  displayName: 'Local LLM',
+  requiredEnv: ['LOCAL_LLM_BASE_URL'],
+  createEngine: (env, overrides = {}) => new CodeGenerator(
+    new OpenAICompatibleAPI({
+      baseURL: env.LOCAL_LLM_BASE_URL!,
+      model: overrides.model || env.LOCAL_LLM_MODEL || 'llama3.1',
+      apiKey: env.LOCAL_LLM_API_KEY,
+      maxTokens: env.LOCAL_LLM_MAX_TOKENS ? parseInt(env.LOCAL_LLM_MAX_TOKENS, 10) : undefined,
+      timeoutMs: env.LOCAL_LLM_TIMEOUT_MS ? parseInt(env.LOCAL_LLM_TIMEOUT_MS, 10) : undefined,
+    })
+  ),
+});
+
+registerProvider({
+  id: 'deterministic',
+  displayName: 'Deterministic',
+  requiredEnv: [],
+  createEngine: () => new DeterministicGenerator(),
+});
@@ -0,0 +1,210 @@
+import { GeneratedCode, GeneratedFile } from '../types/codegen';
+
+/**
+ * Response parsing shared by every code generation provider
+ */
+
+/**
+ * Extract code from a model response
+ */
+export function extractCodeFromResponse(response: string): string {
+  // Remove markdown code blocks if present - expanded to handle Angular file types
+  const codeBlockRegex = /```(?:typescript|tsx|javascript|jsx|ts|html|scss|css)?\n?([\s\S]*?)\n?```/;
+  const match = response.match(codeBlockRegex);
+
+  if (match) {
+    return match[1].trim();
+  }
+
+  // If no code blocks found, return the response as-is
+  return response.trim();
+}
+
+/**
+ * Extract multiple files from a model response
+ */
+export function extractMultipleFilesFromResponse(
+  response: string,
+  componentName: string,
+  styling: string
+): GeneratedCode {
+  const files: GeneratedFile[] = [];
+
+  try {
+    // Check if response contains file separators
+    if (response.includes('--- TSX FILE ---')) {
+      const tsxMatch = response.match(/--- TSX FILE ---\s*([\s\S]*?)(?=--- \w+ FILE ---|$)/);
+      const cssMatch = response.match(/--- CSS FILE ---\s*([\s\S]*?)(?=--- \w+ FILE ---|$)/);
+
+      let tsxCode = '';
+      let cssCode = '';
+
+      if (tsxMatch) {
+        tsxCode = extractCodeFromResponse(tsxMatch[1].trim());
+        files.push({
+          name: `${componentName}.tsx`,
+          content: tsxCode,
+          type: 'tsx'
+        });
+      }
+
+      if (cssMatch && styling === 'css') {
+        cssCode = extractCodeFromResponse(cssMatch[1].trim());
+        files.push({
+          name: `${componentName}.css`,
+          content: cssCode,
+          type: 'css'
+        });
+      }
+
+      return {
+        tsx: tsxCode,
+        css: cssCode || undefined,
+        files
+      };
+    }
+
+    // Fallback: treat entire response as TSX
+    const tsxCode = extractCodeFromResponse(response);
+    files.push({
+      name: `${componentName}.tsx`,
+      content: tsxCode,
+      type: 'tsx'
+    });
+
+    return {
+      tsx: tsxCode,
+      files
+    };
+  } catch (error) {
+    console.error('Error extracting files from response:', error);
+    // Emergency fallback
+    const tsxCode = response;
+    files.push({
+      name: `${componentName}.tsx`,
+      content: tsxCode,
+      type: 'tsx'
+    });
+
+    return {
+      tsx: tsxCode,
+      files
+    };
+  }
+}
+
+/**
+ * File type from a path's extension, as used for generated files
+ */
+export function fileTypeForPath(path: string): string {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return extension === 'ts' ? 'typescript' : extension;
+}
+
+/**
+ * Extract files marked with `--- FILE: <path> ---` from a model response, as
+ * produced for multi-route flows. The first file is the main one.
+ */
+export function extractPathFilesFromResponse(response: string, fallbackPath: string): GeneratedCode {
+  const files: GeneratedFile[] = [];
+  const markerRegex = /^\s*--- FILE: (\S+) ---\s*$/gm;
+  const markers: Array<{ path: string; start: number; end: number }> = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = markerRegex.exec(response)) !== null) {
+    markers.push({ path: match[1], start: match.index, end: match.index + match[0].length });
+  }
+
+  markers.forEach((marker, index) => {
+    const next = markers[index + 1];
+    const content = extractCodeFromResponse(response.slice(marker.end, next ? next.start : undefined));
+    files.push({ name: marker.path, content, type: fileTypeForPath(marker.path) });
+  });
+
+  // Fallback: treat entire response as the main file
+  if (files.length === 0) {
+    files.push({ name: fallbackPath, content: extractCodeFromResponse(response), type: fileTypeForPath(fallbackPath) });
+  }
+
+  return {
+    tsx: files[0].content,
+    files
+  };
+}
+
+/**
+ * Extract Angular files from a model response (TypeScript, HTML, SCSS)
+ */
+export function extractAngularFilesFromResponse(
+  response: string,
+  componentName: string
+): GeneratedCode {
+  const files: GeneratedFile[] = [];
+  const cleanComponentName = componentName.replace(/[^a-zA-Z0-9]/g, '');
+
+  console.log(`🔍 Extracting Angular files for component: ${cleanComponentName}`);
+  console.log(`📄 Response length: ${response.length} chars`);
+
+  try {
+    // Extract TypeScript file
+    const tsMatch = response.match(/--- TYPESCRIPT FILE ---\s*([\s\S]*?)(?=--- \w+ FILE ---|$)/);
+    // Extract HTML file
+    const htmlMatch = response.match(/--- HTML FILE ---\s*([\s\S]*?)(?=--- \w+ FILE ---|$)/);
+    // Extract SCSS file
+    const scssMatch = response.match(/--- SCSS FILE ---\s*([\s\S]*?)(?=--- \w+ FILE ---|$)/);
+
+    console.log(`🔍 File matches found: TS=${!!tsMatch}, HTML=${!!htmlMatch}, SCSS=${!!scssMatch}`);
+
+    let tsCode = '';
+    let scssCode = '';
+
+    if (tsMatch) {
+      tsCode = extractCodeFromResponse(tsMatch[1].trim());
+      files.push({
+        name: `${cleanComponentName.toLowerCase()}.component.ts`,
+        content: tsCode,
+        type: 'typescript'
+      });
+    }
+
+    if (htmlMatch) {
+      files.push({
+        name: `${cleanComponentName.toLowerCase()}.component.html`,
+        content: extractCodeFromResponse(htmlMatch[1].trim()),
+        type: 'html'
+      });
+    }
+
+    if (scssMatch) {
+      scssCode = extractCodeFromResponse(scssMatch[1].trim());
+      files.push({
+        name: `${cleanComponentName.toLowerCase()}.component.scss`,
+        content: scssCode,
+        type: 'scss'
+      });
+    }
+
+    console.log(`📁 Total files extracted: ${files.length}`);
+
+    // For backward compatibility, return the TypeScript content as 'tsx'
+    return {
+      tsx: tsCode,
+      css: scssCode || undefined,
+      files
+    };
+  } catch (error) {
+    console.error('❌ Error extracting Angular files from response:', error);
+    // Emergency fallback
+    const fallbackCode = response;
+    files.push({
+      name: `${cleanComponentName.toLowerCase()}.component.ts`,
+      content: fallbackCode,
+      type: 'typescript'
+    });
+
+    return {
+      tsx: fallbackCode,
+      files
+    };
+  }
+}
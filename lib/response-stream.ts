@@ -0,0 +1,118 @@
+import { GeneratedFile, GenerationListener } from '../types/codegen';
+import { fileTypeForPath } from './response-parser';
+
+// `--- TSX FILE ---` for a component's files, `--- FILE: app/page.tsx ---` for files of a flow
+const FILE_MARKER = /^\s*--- (?:(\w+) FILE|FILE: (\S+)) ---\s*$/;
+
+/**
+ * Name and type of the file a `--- X FILE ---` marker starts, matching what the
+ * response parser produces once the full response is in
+ */
+function fileForMarker(marker: string, componentName: string): Omit<GeneratedFile, 'content'> {
+  const angularName = componentName.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
+
+  switch (marker) {
+    case 'CSS':
+      return { name: `${componentName}.css`, type: 'css' };
+    case 'TYPESCRIPT':
+      return { name: `${angularName}.component.ts`, type: 'typescript' };
+    case 'HTML':
+      return { name: `${angularName}.component.html`, type: 'html' };
+    case 'SCSS':
+      return { name: `${angularName}.component.scss`, type: 'scss' };
+    default:
+      return { name: `${componentName}.tsx`, type: 'tsx' };
+  }
+}
+
+/**
+ * Turns raw model text into file and delta events as it streams in.
+ * Marker lines are held back until complete so they never leak into file content.
+ */
+export class ResponseStreamSplitter {
+  private componentName: string;
+  private onEvent: GenerationListener;
+  private defaultMarker: string;
+  private pending = '';
+  private atLineStart = true;
+  private fileStarted = false;
+
+  constructor(componentName: string, onEvent: GenerationListener, defaultMarker: 'TSX' | 'TYPESCRIPT' = 'TSX') {
+    this.componentName = componentName;
+    this.onEvent = onEvent;
+    this.defaultMarker = defaultMarker;
+  }
+
+  /**
+   * Feed the next chunk of model output
+   */
+  push(text: string): void {
+    this.pending += text;
+
+    while (this.pending) {
+      const newline = this.pending.indexOf('\n');
+
+      if (!this.atLineStart) {
+        // Mid-line text can't be a marker, pass it through up to the end of the line
+        const end = newline === -1 ? this.pending.length : newline + 1;
+        this.emitText(this.pending.slice(0, end));
+        this.pending = this.pending.slice(end);
+        this.atLineStart = newline !== -1;
+        continue;
+      }
+
+      if (newline === -1) {
+        // An incomplete line that may still become a marker waits for more text
+        if (/^\s*-/.test(this.pending) || !this.pending.trim()) return;
+        this.emitText(this.pending);
+        this.pending = '';
+        this.atLineStart = false;
+        return;
+      }
+
+      const line = this.pending.slice(0, newline + 1);
+      this.pending = this.pending.slice(newline + 1);
+      const marker = line.match(FILE_MARKER);
+      if (marker) {
+        this.startFile(marker[1], marker[2]);
+      } else {
+        this.emitText(line);
+      }
+    }
+  }
+
+  /**
+   * Emit whatever is still held back once the response is complete
+   */
+  flush(): void {
+    if (this.pending && !FILE_MARKER.test(this.pending)) {
+      this.emitText(this.pending);
+    }
+    this.pending = '';
+  }
+
+  /**
+   * Discard state before a retry streams the response again
+   */
+  reset(attempt: number): void {
+    this.pending = '';
+    this.atLineStart = true;
+    this.fileStarted = false;
+    this.onEvent({ type: 'reset', attempt });
+  }
+
+  private startFile(marker: string | undefined, path?: string): void {
+    const file = path ? { name: path, type: fileTypeForPath(path) } : fileForMarker(marker || this.defaultMarker, this.componentName);
+    this.fileStarted = true;
+    this.onEvent({ type: 'file', name: file.name, fileType: file.type });
+  }
+
+  private emitText(text: string): void {
+    // Models that skip the markers still stream into the main file
+    if (!this.fileStarted) {
+      if (!text.trim()) return;
+      this.startFile(this.defaultMarker);
+    }
+    this.onEvent({ type: 'delta', text });
+  }
+}
@@ -0,0 +1,127 @@
+import { ProviderErrorKind, RetryPolicy } from '../types/codegen';
+
+// Providers without a policy of their own make a single attempt
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  retryOn: ['overloaded', 'rate_limit', 'unavailable'],
+  // Exponential backoff: 3s, 12s, 27s, capped at 30s
+  overloadedBackoffMs: attempt => Math.min(attempt * attempt * 3000, 30000),
+  // Linear backoff: 8s, 16s, 24s, 32s, capped at 60s
+  rateLimitBackoffMs: attempt => Math.min(attempt * 8000, 60000),
+};
+
+// Fields the vendor SDKs put on their API errors
+interface ProviderErrorDetails {
+  status?: number;
+  type?: string;
+  error?: { type?: string; error?: { type?: string } };
+}
+
+/**
+ * HTTP status of a provider error: the SDK's status field, or the status code our own
+ * rethrown errors and the Anthropic SDK lead their messages with
+ */
+function errorStatus(error: Error): number | undefined {
+  const { status } = error as ProviderErrorDetails;
+  if (typeof status === 'number') return status;
+
+  const leading = /^(\d{3})\b/.exec(error.message);
+  return leading ? Number(leading[1]) : undefined;
+}
+
+/**
+ * Error type from the response body, e.g. Anthropic's "overloaded_error"
+ */
+function errorType(error: Error): string | undefined {
+  const { type, error: body } = error as ProviderErrorDetails;
+  return body?.error?.type || body?.type || type;
+}
+
+/**
+ * Classify a provider error by its HTTP status or error type
+ */
+export function classifyProviderError(error: Error): ProviderErrorKind {
+  const status = errorStatus(error);
+  const type = errorType(error);
+
+  if (status === 529 || type === 'overloaded_error') {
+    return 'overloaded';
+  }
+  if (status === 429 || type === 'rate_limit_error') {
+    return 'rate_limit';
+  }
+  if (status === 503) {
+    return 'unavailable';
+  }
+  return 'other';
+}
+
+/**
+ * Wait out a backoff, ending early when the signal aborts
+ */
+function backoff(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Generation cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a provider call, retrying overloaded, rate limited and unavailable responses with backoff.
+ * Exhausted retries are rethrown with the status-prefixed messages the API routes map to HTTP codes.
+ * Once the signal aborts, no further attempts are made.
+ */
+export async function withRetry<T>(
+  providerName: string,
+  operation: (attempt: number) => Promise<T>,
+  policy: Partial<RetryPolicy> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const { maxAttempts, retryOn, overloadedBackoffMs, rateLimitBackoffMs } = { ...DEFAULT_RETRY_POLICY, ...policy };
+
+  let lastError: Error | null = null;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (signal?.aborted) {
+      throw new Error('Generation cancelled');
+    }
+
+    try {
+      if (maxAttempts > 1) {
+        console.log(`${providerName} attempt ${attempt}/${maxAttempts}`);
+      }
+      return await operation(attempt);
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error('Unknown error');
+      const kind = classifyProviderError(lastError);
+
+      if (kind === 'other' || retryOn.indexOf(kind) === -1 || signal?.aborted) {
+        // For other errors, those the provider doesn't retry, and once the caller went away, don't retry
+        throw lastError;
+      }
+
+      if (attempt < maxAttempts) {
+        const waitTime = kind === 'rate_limit' ? rateLimitBackoffMs(attempt) : overloadedBackoffMs(attempt);
+        console.warn(`${providerName} ${kind} on attempt ${attempt}/${maxAttempts}. Retrying in ${waitTime / 1000} seconds...`);
+        await backoff(waitTime, signal);
+        continue;
+      }
+
+      if (kind === 'overloaded') {
+        throw new Error('529 {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}');
+      }
+      if (kind === 'rate_limit') {
+        throw new Error('429 Rate limit exceeded');
+      }
+      throw new Error(`503 ${providerName} service temporarily unavailable`);
+    }
+  }
+
+  throw new Error(`Failed after ${maxAttempts} attempts: ${lastError?.message || 'Unknown error'}`);
+}
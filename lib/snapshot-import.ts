@@ -0,0 +1,177 @@
+import { createHash } from 'crypto';
+import { FigmaComment, FigmaFile, FigmaNode, FigmaNodesResponse } from '../types/figma';
+import { FigmaVariablesMeta } from '../types/tokens';
+
+// A saved Figma REST response, as uploaded from the browser
+export interface FigmaSnapshot {
+  name: string; // File name, used in error messages
+  content: string; // Raw JSON text
+}
+
+export interface ImportedSnapshot {
+  fileKey: string; // Derived from the content, so re-importing the same snapshots reuses the cache
+  file: FigmaFile;
+  variables?: FigmaVariablesMeta;
+  comments?: FigmaComment[];
+}
+
+/**
+ * Check whether a parsed value is a JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check whether a parsed value has a node's id and type
+ */
+function isNodeLike(value: unknown): boolean {
+  return isObject(value) && typeof value.id === 'string' && typeof value.type === 'string';
+}
+
+/**
+ * Check whether a parsed value is a node whose children, such as the pages of a document, are nodes
+ */
+function isNode(value: unknown): value is FigmaNode {
+  return isObject(value) && isNodeLike(value) &&
+    (value.children === undefined || (Array.isArray(value.children) && value.children.every(isNodeLike)));
+}
+
+/**
+ * Check whether a snapshot is a GET /files response
+ */
+function isFileResponse(data: unknown): data is FigmaFile {
+  return isObject(data) && isNode(data.document) && data.document.type === 'DOCUMENT';
+}
+
+/**
+ * Check whether a snapshot is a GET /files/:key/nodes response. Entries are null for
+ * nodes that don't exist.
+ */
+function isNodesResponse(data: unknown): data is FigmaNodesResponse {
+  if (!isObject(data) || !isObject(data.nodes)) return false;
+  const nodes = data.nodes;
+  return Object.keys(nodes).every(id => {
+    const entry = nodes[id];
+    return entry === null || (isObject(entry) && isNode(entry.document));
+  });
+}
+
+/**
+ * Check whether a snapshot is a GET /files/:key/variables/local response
+ */
+function isVariablesResponse(data: unknown): data is { meta: FigmaVariablesMeta } {
+  return isObject(data) && isObject(data.meta) && isObject(data.meta.variables);
+}
+
+/**
+ * Check whether a snapshot is a GET /files/:key/comments response
+ */
+function isCommentsResponse(data: unknown): data is { comments: FigmaComment[] } {
+  return isObject(data) && Array.isArray(data.comments);
+}
+
+/**
+ * Combine saved GET /files, GET /files/:key/nodes, GET /files/:key/variables/local and
+ * GET /files/:key/comments responses into one file. Pages from file responses are kept as they are; nodes
+ * responses add their pages, or collect their layers on an "Imported layers" page.
+ * Layers already imported from an earlier snapshot are skipped.
+ */
+export function importSnapshots(snapshots: FigmaSnapshot[]): ImportedSnapshot {
+  if (snapshots.length === 0) {
+    throw new Error('No snapshot files to import');
+  }
+
+  const pages: FigmaNode[] = [];
+  const importedLayers: FigmaNode[] = [];
+  const seenIds = new Set<string>();
+  let file: FigmaFile | undefined;
+  let nodesResponse: FigmaNodesResponse | undefined;
+  let variables: FigmaVariablesMeta | undefined;
+  let comments: FigmaComment[] | undefined;
+  let components: FigmaFile['components'] = {};
+  let componentSets: FigmaFile['componentSets'] = {};
+  let styles: FigmaFile['styles'] = {};
+
+  const addPage = (page: FigmaNode) => {
+    if (seenIds.has(page.id)) return;
+    seenIds.add(page.id);
+    (page.children || []).forEach(child => seenIds.add(child.id));
+    pages.push(page);
+  };
+
+  // Sorted so the derived file key doesn't depend on upload order
+  const sorted = snapshots.slice().sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+
+  sorted.forEach(snapshot => {
+    let data: unknown;
+    try {
+      data = JSON.parse(snapshot.content);
+    } catch {
+      throw new Error(`${snapshot.name} is not valid JSON`);
+    }
+
+    if (isFileResponse(data)) {
+      file = file || data;
+      (data.document.children || []).forEach(addPage);
+      components = { ...components, ...data.components };
+      componentSets = { ...componentSets, ...data.componentSets };
+      styles = { ...styles, ...data.styles };
+    } else if (isNodesResponse(data)) {
+      nodesResponse = nodesResponse || data;
+      Object.keys(data.nodes).forEach(id => {
+        const entry = data.nodes[id];
+        if (!entry) return;
+
+        const node = entry.document;
+        if (node.type === 'DOCUMENT') {
+          (node.children || []).forEach(addPage);
+        } else if (node.type === 'CANVAS') {
+          addPage(node);
+        } else if (!seenIds.has(node.id)) {
+          seenIds.add(node.id);
+          importedLayers.push(node);
+        }
+        components = { ...components, ...entry.components };
+        componentSets = { ...componentSets, ...entry.componentSets };
+        styles = { ...styles, ...entry.styles };
+      });
+    } else if (isVariablesResponse(data)) {
+      variables = data.meta;
+    } else if (isCommentsResponse(data)) {
+      comments = data.comments;
+    } else {
+      throw new Error(`${snapshot.name} is not a Figma GET /files, /files/:key/nodes, /variables/local or /comments response`);
+    }
+  });
+
+  if (pages.length === 0 && importedLayers.length === 0) {
+    throw new Error('The snapshots contain no pages or layers');
+  }
+
+  const hash = createHash('sha256');
+  sorted.forEach(snapshot => hash.update(snapshot.content));
+  const contentHash = hash.digest('hex').slice(0, 12);
+
+  if (importedLayers.length > 0) {
+    pages.push({ id: 'imported-layers', name: 'Imported layers', type: 'CANVAS', children: importedLayers });
+  }
+
+  const source = file || nodesResponse!;
+  return {
+    fileKey: `offline${contentHash}`,
+    file: {
+      name: source.name || 'Imported snapshot',
+      lastModified: source.lastModified || '',
+      version: source.version || contentHash,
+      thumbnailUrl: file?.thumbnailUrl || '',
+      schemaVersion: file?.schemaVersion || 0,
+      components,
+      componentSets,
+      styles,
+      document: { ...(file ? file.document : { id: '0:0', name: 'Document', type: 'DOCUMENT' as const }), children: pages },
+    },
+    variables,
+    comments,
+  };
+}
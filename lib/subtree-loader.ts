@@ -0,0 +1,160 @@
+import { FigmaAPI } from './figma-api';
+import { FigmaFile, FigmaFileOutline, FigmaNode, FigmaNodesResponse } from '../types/figma';
+
+type NodeEntry = NonNullable<FigmaNodesResponse['nodes'][string]>;
+
+export interface SubtreeLoadOptions {
+  batchSize?: number; // Node ids per /nodes request before any splitting
+  version?: string; // Past file version to load, the current one when absent
+}
+
+const OUTLINE_DEPTH = 2; // Document → pages → top-level layers
+const DEFAULT_BATCH_SIZE = 10;
+
+/**
+ * Whether a Figma API error means the response would have been too large to return
+ */
+export function isRequestTooLarge(message: string): boolean {
+  return /request too large/i.test(message);
+}
+
+/**
+ * List the pages of a file and their top-level layers, without any layer contents
+ */
+export function buildOutline(file: FigmaFile): FigmaFileOutline {
+  const pages = (file.document.children || []).filter(page => page.type === 'CANVAS');
+  return {
+    pages: pages.map(page => ({
+      id: page.id,
+      name: page.name,
+      layers: (page.children || []).map(layer => ({
+        id: layer.id,
+        name: layer.name,
+        type: layer.type,
+        width: layer.absoluteBoundingBox?.width,
+        height: layer.absoluteBoundingBox?.height,
+      })),
+    })),
+  };
+}
+
+/**
+ * Fetch a file down to its top-level layers, small enough to return for any file size
+ */
+export async function fetchShallowFile(api: FigmaAPI, fileKey: string, version?: string): Promise<FigmaFile> {
+  return api.getFile(fileKey, { depth: OUTLINE_DEPTH, version });
+}
+
+/**
+ * Fetch nodes batch by batch. A batch Figma refuses as too large is split in half, and a
+ * single node that is still too large is fetched one level deep with its children loaded
+ * the same way, so only the layers nobody can fetch at all fail.
+ */
+async function fetchNodes(
+  api: FigmaAPI,
+  fileKey: string,
+  ids: string[],
+  batchSize: number,
+  version?: string
+): Promise<Record<string, NodeEntry>> {
+  const found: Record<string, NodeEntry> = {};
+
+  const fetchBatch = async (batch: string[]): Promise<void> => {
+    try {
+      const { nodes } = await api.getNodes(fileKey, batch, { version });
+      batch.forEach(id => {
+        const entry = nodes[id];
+        if (entry) found[id] = entry;
+        else console.warn(`⚠️ Node ${id} no longer exists in the file`);
+      });
+    } catch (error) {
+      if (!(error instanceof Error) || !isRequestTooLarge(error.message)) throw error;
+
+      if (batch.length > 1) {
+        const middle = Math.ceil(batch.length / 2);
+        console.log(`📦 Batch of ${batch.length} nodes too large, splitting`);
+        await fetchBatch(batch.slice(0, middle));
+        await fetchBatch(batch.slice(middle));
+        return;
+      }
+
+      const { nodes } = await api.getNodes(fileKey, batch, { depth: 1, version });
+      const entry = nodes[batch[0]];
+      const childIds = (entry?.document.children || []).map(child => child.id);
+      if (!entry || childIds.length === 0) {
+        throw new Error(`Layer ${batch[0]} is too large to fetch from the Figma API`);
+      }
+
+      console.log(`📦 "${entry.document.name}" too large, fetching its ${childIds.length} children`);
+      const children = await fetchNodes(api, fileKey, childIds, batchSize, version);
+      entry.document.children = childIds.filter(id => children[id]).map(id => children[id].document);
+      childIds.forEach(id => {
+        if (!children[id]) return;
+        entry.components = { ...entry.components, ...children[id].components };
+        entry.componentSets = { ...entry.componentSets, ...children[id].componentSets };
+        entry.styles = { ...entry.styles, ...children[id].styles };
+      });
+      found[batch[0]] = entry;
+    }
+  };
+
+  for (let start = 0; start < ids.length; start += batchSize) {
+    await fetchBatch(ids.slice(start, start + batchSize));
+  }
+  return found;
+}
+
+/**
+ * Build a file holding only the selected layers, fetched through the nodes endpoint.
+ * Selected pages and top-level layers stay where they are; other layers (such as nested
+ * frames) are collected on an extra "Selected layers" page.
+ */
+export async function loadSubtrees(
+  api: FigmaAPI,
+  fileKey: string,
+  nodeIds: string[],
+  options: SubtreeLoadOptions = {}
+): Promise<FigmaFile> {
+  const ids = nodeIds.filter((id, index) => nodeIds.indexOf(id) === index);
+  const shallow = await fetchShallowFile(api, fileKey, options.version);
+
+  console.log(`📦 Fetching ${ids.length} selected layers of "${shallow.name}"`);
+  const entries = await fetchNodes(api, fileKey, ids, Math.max(options.batchSize || DEFAULT_BATCH_SIZE, 1), options.version);
+
+  const file: FigmaFile = { ...shallow, components: { ...shallow.components }, componentSets: { ...shallow.componentSets }, styles: { ...shallow.styles } };
+  Object.keys(entries).forEach(id => {
+    file.components = { ...file.components, ...entries[id].components };
+    file.componentSets = { ...file.componentSets, ...entries[id].componentSets };
+    file.styles = { ...file.styles, ...entries[id].styles };
+  });
+
+  const placed = new Set<string>();
+  const pages: FigmaNode[] = (shallow.document.children || []).map(page => {
+    // A whole page was selected, as page links do
+    if (entries[page.id]) {
+      placed.add(page.id);
+      return entries[page.id].document;
+    }
+
+    const children = (page.children || [])
+      .filter(layer => entries[layer.id])
+      .map(layer => {
+        placed.add(layer.id);
+        return entries[layer.id].document;
+      });
+    return { ...page, children };
+  }).filter(page => (page.children || []).length > 0);
+
+  const unplaced = Object.keys(entries).filter(id => !placed.has(id));
+  if (unplaced.length > 0) {
+    pages.push({
+      id: `${fileKey}:selected`,
+      name: 'Selected layers',
+      type: 'CANVAS',
+      children: unplaced.map(id => entries[id].document),
+    });
+  }
+
+  file.document = { ...shallow.document, children: pages };
+  return file;
+}
@@ -0,0 +1,124 @@
+import { ProcessedNode } from './figma';
+
+// Shared types for code generation providers
+export type Framework = 'react' | 'vue' | 'angular';
+
+export type Styling = 'tailwind' | 'css' | 'styled-components';
+
+export type GenerationType = 'component' | 'page' | 'multiple' | 'flow';
+
+export type Router = 'next-app' | 'react-router';
+
+export interface ComponentGenerationOptions {
+  framework?: Framework;
+  styling?: Styling;
+  typescript?: boolean;
+  includeProps?: boolean;
+  responsive?: boolean;
+}
+
+export interface PageGenerationOptions {
+  framework?: Framework;
+  styling?: Styling;
+  typescript?: boolean;
+  responsive?: boolean;
+  pageName?: string;
+}
+
+export interface FlowGenerationOptions {
+  framework?: Framework;
+  styling?: Styling;
+  typescript?: boolean;
+  responsive?: boolean;
+  router?: Router;
+}
+
+export interface GeneratedFile {
+  name: string;
+  content: string;
+  type: string;
+  encoding?: 'base64'; // Binary files such as PNG assets
+}
+
+export interface GeneratedCode {
+  tsx: string;
+  css?: string;
+  files: GeneratedFile[];
+}
+
+export interface GeneratedComponent {
+  componentName: string;
+  files: GeneratedFile[];
+}
+
+export interface GenerationResult {
+  type: GenerationType;
+  componentName?: string;
+  pageName?: string;
+  router?: Router; // Flow generation
+  code?: string; // Main file content, kept for backwards compatibility
+  files?: GeneratedFile[];
+  components?: Array<{ componentName: string; code: string; files: GeneratedFile[]; reused?: boolean }>;
+  reused?: boolean; // Copied from an earlier generation with identical inputs instead of generated again
+}
+
+/**
+ * Incremental output while a generation runs. `component` is the index into the
+ * component list for multiple generation and absent otherwise.
+ */
+export type GenerationEvent =
+  | { type: 'progress'; component: number; total: number; componentName: string; status: 'started' | 'completed' | 'failed'; error?: string }
+  | { type: 'file'; component?: number; name: string; fileType: string } // Following deltas belong to this file
+  | { type: 'delta'; component?: number; text: string }
+  | { type: 'reset'; component?: number; attempt: number }; // A retry started, discard streamed output
+
+export type GenerationListener = (event: GenerationEvent) => void;
+
+/**
+ * Events sent over Server-Sent Events by /api/generate when streaming
+ */
+export type GenerationStreamEvent =
+  | GenerationEvent
+  | { type: 'result'; data: GenerationResult }
+  | { type: 'error'; error: string; status: number };
+
+export interface CompletionRequest {
+  prompt: string;
+  kind: 'component' | 'page' | 'optimize';
+  attempt: number; // 1-based attempt number from the shared retry loop
+  angular?: boolean; // Angular component, written as three files
+  signal?: AbortSignal; // Aborts the request when the client went away
+}
+
+export type ProviderErrorKind = 'overloaded' | 'rate_limit' | 'unavailable' | 'other';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  retryOn: ProviderErrorKind[]; // Errors worth another attempt; others are thrown straight away
+  overloadedBackoffMs: (attempt: number) => number;
+  rateLimitBackoffMs: (attempt: number) => number;
+}
+
+/**
+ * Transport for a single LLM vendor. Prompt building, response parsing and
+ * retries are shared; a provider only turns a prompt into raw text.
+ */
+export interface CodeGenProvider {
+  readonly id: string;
+  readonly displayName: string;
+  readonly retryPolicy?: Partial<RetryPolicy>;
+  complete(request: CompletionRequest): Promise<string>;
+  // Optional: same as complete, reporting text as it arrives
+  stream?(request: CompletionRequest, onText: (text: string) => void): Promise<string>;
+}
+
+/**
+ * Anything that turns processed Figma nodes into files: the LLM-backed
+ * CodeGenerator or the deterministic generator
+ */
+export interface GenerationEngine {
+  generateComponent(node: ProcessedNode, options?: ComponentGenerationOptions, onEvent?: GenerationListener, signal?: AbortSignal): Promise<GeneratedCode>;
+  generateMultipleComponents(nodes: ProcessedNode[], options?: ComponentGenerationOptions, onEvent?: GenerationListener, signal?: AbortSignal): Promise<GeneratedComponent[]>;
+  generatePage(nodes: ProcessedNode[], options?: PageGenerationOptions, onEvent?: GenerationListener, signal?: AbortSignal): Promise<GeneratedCode>;
+  generateFlow(nodes: ProcessedNode[], options?: FlowGenerationOptions, onEvent?: GenerationListener, signal?: AbortSignal): Promise<GeneratedCode>;
+}
@@ -0,0 +1,38 @@
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export type ChangeKind = 'text' | 'style' | 'layout' | 'structure';
+
+// One difference inside a frame or component, on the node it was found on
+export interface NodeChange {
+  nodeId: string;
+  nodeName: string;
+  kind: ChangeKind;
+  property: string; // Style property, or content, name, position, children, order
+  before?: string;
+  after?: string;
+}
+
+export interface DiffEntry {
+  id: string;
+  name: string;
+  status: DiffStatus;
+  changes: NodeChange[]; // Empty unless changed
+  moved?: { before: string; after: string }; // Canvas position, when it moved; doesn't change the code
+}
+
+export interface DesignDiff {
+  from: string; // Figma version ids
+  to: string;
+  frames: DiffEntry[];
+  components: DiffEntry[];
+  summary: Record<DiffStatus, number>; // Frames and components together
+}
+
+// Subset of GET /v1/files/:key/versions
+export interface FigmaVersion {
+  id: string;
+  created_at: string;
+  label: string | null;
+  description: string | null;
+  user?: { handle: string };
+}
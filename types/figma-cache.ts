@@ -0,0 +1,19 @@
+import { FigmaComment, FigmaFile, ProcessedNode } from './figma';
+import { DesignTokenSet } from './tokens';
+
+// A loaded Figma file as kept on disk. Clients ask for its frames and subtrees through
+// a session opened on it instead of holding the whole document.
+export interface CachedDocument {
+  id: string; // Cache key, derived from the file key, version and selection
+  fileKey: string;
+  version: string; // Figma file version the entry was built from
+  lastModified: string;
+  nodeIds?: string[]; // Layers loaded for files too large to fetch whole; absent for whole files
+  file: FigmaFile; // Raw Figma response, rebuilt from the loaded layers for subtree loads
+  document: ProcessedNode;
+  tokens: DesignTokenSet;
+  comments?: FigmaComment[]; // Refreshed on every load, comments don't change the file version
+  cachedAt: number;
+}
+
+export type NewCachedDocument = Omit<CachedDocument, 'id' | 'cachedAt'>;
@@ -2,6 +2,7 @@
 export interface FigmaFile {
   document: FigmaNode;
   components: Record<string, FigmaComponent>;
+  componentSets?: Record<string, FigmaComponentSet>;
   schemaVersion: number;
   styles: Record<string, FigmaStyle>;
   name: string;
@@ -10,6 +11,36 @@ export interface FigmaFile {
   version: string;
 }
 
+// GET /v1/files/:key/nodes; nodes that don't exist come back as null
+export interface FigmaNodesResponse {
+  name: string;
+  lastModified: string;
+  version: string;
+  nodes: Record<string, {
+    document: FigmaNode;
+    components: Record<string, FigmaComponent>;
+    componentSets?: Record<string, FigmaComponentSet>;
+    styles: Record<string, FigmaStyle>;
+  } | null>;
+}
+
+// Pages and their top-level layers, for files too large to fetch whole
+export interface FigmaFileOutline {
+  pages: FigmaPageOutline[];
+}
+
+export interface FigmaPageOutline {
+  id: string;
+  name: string;
+  layers: Array<{
+    id: string;
+    name: string;
+    type: string;
+    width?: number;
+    height?: number;
+  }>;
+}
+
 export interface FigmaNode {
   id: string;
   name: string;
@@ -19,7 +50,14 @@ export interface FigmaNode {
   fills?: Paint[];
   strokes?: Paint[];
   strokeWeight?: number;
-  strokeAlign?: string;
+  strokeAlign?: string; // INSIDE, OUTSIDE or CENTER
+  individualStrokeWeights?: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+  strokeDashes?: number[];
   cornerRadius?: number;
   constraints?: Constraints;
   layoutMode?: string;
@@ -34,15 +72,43 @@ export interface FigmaNode {
   counterAxisSizingMode?: string;
   primaryAxisAlignItems?: string;
   counterAxisAlignItems?: string;
+  layoutWrap?: string; // NO_WRAP or WRAP
+  counterAxisSpacing?: number; // Spacing between wrapped rows or columns
+  counterAxisAlignContent?: string; // AUTO or SPACE_BETWEEN for wrapped tracks
+  layoutPositioning?: string; // ABSOLUTE takes a child out of its auto-layout flow
+  layoutSizingHorizontal?: string; // FIXED, HUG or FILL
+  layoutSizingVertical?: string;
+  layoutGrids?: LayoutGrid[]; // Column, row and square grids drawn over a frame
+  // Grid auto-layout (layoutMode GRID)
+  gridRowCount?: number;
+  gridColumnCount?: number;
+  gridRowGap?: number;
+  gridColumnGap?: number;
+  gridRowsSizing?: string; // CSS track list, e.g. "repeat(3, minmax(0, 1fr))"
+  gridColumnsSizing?: string;
+  // Children of grid auto-layout frames
+  gridRowSpan?: number;
+  gridColumnSpan?: number;
+  gridRowAnchorIndex?: number; // Zero-based; the child is placed automatically when missing
+  gridColumnAnchorIndex?: number;
+  gridChildHorizontalAlign?: string; // AUTO, MIN, CENTER or MAX
+  gridChildVerticalAlign?: string;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
   absoluteBoundingBox?: Rectangle;
   size?: Vector;
   relativeTransform?: Transform;
   effects?: Effect[];
-  isMask?: boolean;
+  styles?: Record<string, string>; // Style kind (fill, stroke, text, effect, grid) → published style id
+  boundVariables?: Record<string, VariableAlias | VariableAlias[]>; // Node property → variable alias
+  isMask?: boolean; // The layer masks the siblings above it instead of being drawn
+  maskType?: string; // ALPHA, VECTOR (outline only) or LUMINANCE
   visible?: boolean;
   locked?: boolean;
   opacity?: number;
-  blendMode?: string;
+  blendMode?: string; // PASS_THROUGH on groups and frames that don't blend as a whole
   // Text-specific properties
   characters?: string;
   style?: TypeStyle;
@@ -52,14 +118,19 @@ export interface FigmaNode {
   fillGeometry?: Path[];
   strokeGeometry?: Path[];
   // Frame-specific properties
-  clipsContent?: boolean;
+  clipsContent?: boolean; // Children are cut off at the frame's edges
   background?: Paint[];
   // Component-specific properties
   componentId?: string;
   componentSetId?: string;
+  componentPropertyDefinitions?: Record<string, ComponentPropertyDefinition>; // On component sets and components
+  componentPropertyReferences?: Record<string, string>; // Node field (visible, characters, mainComponent) → property name
   // Instance-specific properties
   mainComponent?: FigmaNode;
   overrides?: ComponentOverride[];
+  // Prototype-specific properties
+  reactions?: Reaction[];
+  transitionNodeID?: string; // Legacy destination of a click, superseded by reactions
 }
 
 export type NodeType = 
@@ -132,6 +203,16 @@ export interface Transform {
   2: number[];
 }
 
+export interface LayoutGrid {
+  pattern: 'COLUMNS' | 'ROWS' | 'GRID';
+  sectionSize: number; // Column or row width, or the square size of GRID
+  visible?: boolean;
+  alignment?: 'MIN' | 'MAX' | 'CENTER' | 'STRETCH';
+  gutterSize?: number;
+  offset?: number; // Margin before the first and after the last track
+  count?: number; // Number of tracks, -1 or missing for as many as fit
+}
+
 export interface Constraints {
   vertical: string;
   horizontal: string;
@@ -159,6 +240,7 @@ export interface TypeStyle {
   fontPostScriptName?: string;
   fontSize?: number;
   fontWeight?: number;
+  italic?: boolean;
   letterSpacing?: number;
   lineHeightPx?: number;
   lineHeightPercent?: number;
@@ -166,12 +248,14 @@ export interface TypeStyle {
   lineHeightUnit?: string;
   textAlignHorizontal?: string;
   textAlignVertical?: string;
-  textAutoResize?: string;
+  textAutoResize?: string; // NONE (fixed box), HEIGHT, WIDTH_AND_HEIGHT or the legacy TRUNCATE
+  textTruncation?: string; // DISABLED or ENDING, which ends overflowing text with an ellipsis
+  maxLines?: number; // Lines shown before truncating
   textCase?: string;
   textDecoration?: string;
   fills?: Paint[];
   hyperlink?: Hyperlink;
-  opentypeFlags?: Record<string, number>;
+  opentypeFlags?: Record<string, number>; // OpenType feature tag → 1 on, 0 off
   boundVariables?: Record<string, VariableAlias>;
 }
 
@@ -181,6 +265,29 @@ export interface Hyperlink {
   nodeID?: string;
 }
 
+// A prototype interaction: what triggers it and what it does. Older files have a single
+// action, newer ones a list.
+export interface Reaction {
+  trigger?: { type: string } | null; // ON_CLICK, ON_HOVER, ON_PRESS, AFTER_TIMEOUT, ...
+  action?: PrototypeAction | null;
+  actions?: PrototypeAction[];
+}
+
+export interface PrototypeAction {
+  type: string; // NODE, BACK, CLOSE or URL
+  destinationId?: string | null;
+  navigation?: string; // NAVIGATE, SWAP, OVERLAY, SCROLL_TO or CHANGE_TO
+  url?: string;
+}
+
+// Property names are unique per component; all but variant properties end in "#<id>"
+export interface ComponentPropertyDefinition {
+  type: 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP' | 'VARIANT';
+  defaultValue: boolean | string;
+  variantOptions?: string[];
+  preferredValues?: Array<{ type: string; key: string }>;
+}
+
 export interface ComponentOverride {
   id: string;
   overriddenFields: string[];
@@ -195,10 +302,48 @@ export interface FigmaComponent {
   remote: boolean;
 }
 
+export interface FigmaComponentSet {
+  key: string;
+  name: string;
+  description: string;
+  documentationLinks?: DocumentationLink[];
+}
+
 export interface DocumentationLink {
   uri: string;
 }
 
+// GET /v1/files/:key/comments. Replies carry the id of the comment they answer; comments
+// are pinned to a node, or to a point on the canvas
+export interface FigmaComment {
+  id: string;
+  message: string;
+  parent_id?: string;
+  user?: { handle: string; img_url?: string };
+  created_at: string;
+  resolved_at?: string | null;
+  client_meta?: Vector | FrameOffset | null;
+}
+
+export interface FrameOffset {
+  node_id: string;
+  node_offset: Vector;
+}
+
+// GET /v1/teams/:id/projects
+export interface FigmaProject {
+  id: string;
+  name: string;
+}
+
+// GET /v1/projects/:id/files
+export interface FigmaProjectFile {
+  key: string;
+  name: string;
+  thumbnail_url?: string;
+  last_modified: string;
+}
+
 export interface FigmaStyle {
   key: string;
   name: string;
@@ -223,16 +368,39 @@ export interface VariableAlias {
 }
 
 // Processed types for our app
+export type SizingMode = 'fixed' | 'hug' | 'fill';
+
 export interface ProcessedNode {
   id: string;
   name: string;
   type: NodeType;
   children?: ProcessedNode[];
-  absoluteBoundingBox?: Rectangle;
+  absoluteBoundingBox?: Rectangle; // Position on the canvas, compared between versions
   styles: {
-    width?: number;
+    width?: number; // Design size; sizing says whether CSS should fix it
     height?: number;
+    sizing?: {
+      horizontal: SizingMode;
+      vertical: SizingMode;
+    };
+    minWidth?: number;
+    maxWidth?: number;
+    minHeight?: number;
+    maxHeight?: number;
+    position?: string;
+    inset?: {
+      top?: string;
+      right?: string;
+      bottom?: string;
+      left?: string;
+    }; // CSS lengths, percentages for centered or scaling constraints
+    transform?: string;
+    zIndex?: number; // Sibling order of positioned children that overlap earlier ones
     backgroundColor?: string;
+    backgroundImage?: string; // Gradient layers, topmost first, then an exported image fill
+    backgroundSize?: string;
+    backgroundPosition?: string;
+    backgroundRepeat?: string;
     borderRadius?: number;
     padding?: {
       top?: number;
@@ -251,18 +419,118 @@ export interface ProcessedNode {
     alignItems?: string;
     justifyContent?: string;
     gap?: number;
+    rowGap?: number;
+    flexWrap?: string;
+    alignContent?: string;
+    gridTemplateColumns?: string; // CSS track lists of grid containers
+    gridTemplateRows?: string;
+    columnGap?: number;
+    flexGrow?: number;
+    flexShrink?: number;
+    flexBasis?: number;
+    alignSelf?: string;
+    gridColumn?: string; // Placement of grid items, e.g. "2 / span 3"
+    gridRow?: string;
+    justifySelf?: string;
     fontSize?: number;
     fontWeight?: number;
     fontFamily?: string;
+    fontPostScriptName?: string; // Names the font file in the font manifest, not emitted as CSS
+    fontStyle?: string;
+    lineHeight?: string; // CSS value: pixels, or a unitless ratio of the font size
+    letterSpacing?: number;
+    fontFeatureSettings?: string;
+    fontVariantCaps?: string;
+    lineClamp?: number; // Lines shown before an ellipsis, for fixed-height text boxes
     color?: string;
     textAlign?: string;
+    textDecoration?: string;
+    textTransform?: string;
     border?: string;
+    borderWidth?: string; // Per-side widths when they differ
+    outline?: string; // Strokes drawn outside the box
     boxShadow?: string;
+    textShadow?: string;
+    filter?: string;
+    backdropFilter?: string;
     opacity?: number;
+    backgroundBlendMode?: string; // One mode per background-image layer, topmost first
+    mixBlendMode?: string;
+    isolation?: string; // isolate on containers whose children blend only with each other
+    overflow?: string; // hidden on frames that clip their content
+    clipPath?: string; // Shape of the mask the node is under, or the mask's box when it isn't a simple shape
+    maskImage?: string; // Exported mask layer, once exported
+    maskSize?: string;
+    maskPosition?: string;
+    maskRepeat?: string;
+    maskMode?: string;
   };
   content?: string; // For text nodes
+  textRuns?: TextRun[]; // Set when parts of the text are styled or linked differently
+  tokens?: Record<string, string>; // CSS property → design token name, for values bound to styles or variables
+  asset?: ProcessedAsset;
+  mask?: ProcessedMask; // Mask layer CSS shapes can't draw, exported as the node's mask-image
   isComponent?: boolean;
   componentName?: string;
+  componentProps?: ComponentProp[]; // Typed props of a component set or of a component with properties
+  variant?: Record<string, string>; // Prop name → option, on the variants of a component set
+  propertyReferences?: Record<string, string>; // Node field (visible, characters, mainComponent) → Figma property name
+  componentId?: string; // Main component of an instance
+  overrides?: Record<string, string[]>; // On instances: id of an overridden layer → its overridden fields
+  description?: string; // Description of the component, set or instance's main component, with its documentation links
+  comments?: string[]; // Unresolved comments pinned to the node, each with its replies
+  interaction?: Interaction; // What clicking the node does in the prototype
+  responsive?: ResponsiveVariant[]; // On frames merged with the same screen at larger breakpoints, narrowest first
   framePath?: string; // Full path showing parent hierarchy
   frameDepth?: number; // Nesting depth level
-}
\ No newline at end of file
+  descendantCount?: number; // Set on summaries whose children were left out
+}
+
+// Graphics that can't be rebuilt from CSS. With an imageRef the image is the node's
+// background and its children render on top; otherwise the node is exported whole
+// and rendered as an <img>.
+export interface ProcessedAsset {
+  kind: 'vector' | 'image';
+  imageRef?: string;
+  path?: string; // assets/… once exported, relative to the generated component
+}
+
+// A mask layer rendered on its own and applied to the nodes it masks as mask-image
+export interface ProcessedMask {
+  nodeId: string;
+  name: string;
+  path?: string; // assets/… once exported
+}
+
+// A component property as a prop. Variant props whose options are true and false are booleans.
+export interface ComponentProp {
+  name: string; // Identifier used in generated code
+  figmaName: string; // Property name in Figma, as used in propertyReferences
+  type: 'variant' | 'boolean' | 'text' | 'slot';
+  options?: string[]; // Variant options
+  defaultValue?: string | boolean;
+}
+
+// A span of characters sharing one style; styles only hold what differs from the text node
+export interface TextRun {
+  text: string;
+  styles: Pick<ProcessedNode['styles'], 'fontWeight' | 'color' | 'textDecoration' | 'textTransform'>;
+  href?: string;
+  nodeId?: string; // Frame a link to another node points at
+}
+
+// A click interaction from the prototype: go to another frame, open it as an overlay,
+// go back, close the overlay the node is in, or open a URL
+export interface Interaction {
+  kind: 'navigate' | 'overlay' | 'back' | 'close' | 'url';
+  destinationId?: string; // For navigate and overlay
+  url?: string;
+}
+
+// A larger breakpoint's frame of a screen, merged into the frame of its smallest breakpoint
+export interface ResponsiveVariant {
+  breakpoint: 'mobile' | 'tablet' | 'desktop'; // From the frame name
+  minWidth: number; // Viewport width from which this frame's design applies
+  tailwindPrefix: string; // sm, md, lg, or min-[<width>px] when the frame is narrower than its screen
+  node: ProcessedNode;
+}
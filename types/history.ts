@@ -0,0 +1,37 @@
+import { ComponentGenerationOptions, FlowGenerationOptions, GeneratedFile, GenerationType, PageGenerationOptions } from './codegen';
+
+// One generated component or page, as kept by the history store
+export interface GenerationRecord {
+  id: string;
+  fileKey?: string; // Source Figma file, absent for records saved without one
+  nodeIds: string[]; // Source node; pages list every node they were built from
+  frameName: string;
+  componentName: string;
+  generationType: GenerationType;
+  provider: string;
+  model?: string;
+  options: ComponentGenerationOptions & PageGenerationOptions & FlowGenerationOptions;
+  promptHash: string; // sha256 of the prompt inputs, equal for identical requests
+  code: string;
+  files: GeneratedFile[];
+  lineCount: number;
+  timestamp: number;
+}
+
+export type NewGenerationRecord = Omit<GenerationRecord, 'id' | 'lineCount' | 'timestamp'>;
+
+export interface HistoryQuery {
+  page?: number; // 1-based
+  pageSize?: number;
+  search?: string; // Case-insensitive substring of the frame name
+  frameName?: string; // Exact frame name, also matching its URL form ("Hero Section" or "hero-section")
+}
+
+export interface HistoryPage {
+  records: GenerationRecord[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  lastUpdated: number | null; // Newest matching record
+}
@@ -0,0 +1,39 @@
+export type DesignTokenType = 'color' | 'typography' | 'spacing' | 'radius' | 'shadow';
+
+export interface TypographyTokenValue {
+  fontFamily?: string; // Full CSS font stack
+  fontSize?: string;
+  fontWeight?: string;
+  lineHeight?: string;
+  letterSpacing?: string;
+}
+
+// One named design decision, taken from a published style or a bound variable
+export interface DesignToken {
+  name: string; // kebab-case, also the CSS custom property name without the leading --
+  path: string[]; // Name segments, used to nest groups in the W3C export
+  type: DesignTokenType;
+  value: string | TypographyTokenValue; // CSS values; typography tokens hold one per property
+  source: 'style' | 'variable';
+  sourceId: string; // Figma style or variable id
+}
+
+export interface DesignTokenSet {
+  tokens: DesignToken[];
+  styleTokens: Record<string, string>; // Figma style id → token name
+  variableTokens: Record<string, string>; // Figma variable id → token name
+}
+
+// Subset of GET /v1/files/:key/variables/local, used to name bound variables
+export interface FigmaVariablesMeta {
+  variables: Record<string, {
+    id: string;
+    name: string;
+    resolvedType: string;
+    variableCollectionId: string;
+  }>;
+  variableCollections?: Record<string, {
+    id: string;
+    name: string;
+  }>;
+}
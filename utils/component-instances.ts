@@ -0,0 +1,132 @@
+import { ProcessedNode } from '../types/figma';
+import { VariantLayer, matchLayers } from './component-variants';
+import { toPropName } from './figma';
+
+/**
+ * A value instances set on one layer of their component: its text or its fill
+ */
+export interface InstanceProp {
+  name: string;
+  kind: 'text' | 'color';
+  layerName: string;
+  nodeId: string; // The layer in the first instance, which the component is generated from
+  cssProperty?: string; // For colors: color on text, background-color otherwise
+}
+
+/**
+ * Instances of one main component and the props that tell them apart
+ */
+export interface InstanceComponent {
+  componentId: string;
+  name: string; // Layer name of the first instance
+  instances: ProcessedNode[];
+  props: InstanceProp[];
+  values: Array<Record<string, string>>; // Prop values of each instance
+}
+
+/**
+ * Collect instances that render as markup, not nested in another instance.
+ * Instances exported whole as images stay images, and those the caller renders
+ * inline are searched like any other layer.
+ */
+function collectInstances(node: ProcessedNode, found: ProcessedNode[], inline?: (instance: ProcessedNode) => boolean): void {
+  if (node.type === 'INSTANCE' && node.componentId && !(node.asset && !node.asset.imageRef) && !(inline && inline(node))) {
+    found.push(node);
+    return;
+  }
+  (node.children || []).forEach(child => collectInstances(child, found, inline));
+}
+
+/**
+ * Props of a group of instances: text layers whose characters are overridden, bound to a
+ * text property or different between instances, and solid fills that are overridden or differ
+ */
+function instanceProps(name: string, instances: ProcessedNode[], root: VariantLayer): InstanceProp[] {
+  const props: InstanceProp[] = [];
+  const usedNames: string[] = [];
+
+  const visit = (layer: VariantLayer, isRoot: boolean) => {
+    const node = layer.base;
+    const layerName = isRoot ? name : node.name;
+    const overridden = (field: string) => layer.nodes.some((n, i) => {
+      const overrides = instances[i].overrides;
+      return !!n && !!overrides && (overrides[n.id] || []).indexOf(field) !== -1;
+    });
+    const differs = (valueOf: (n: ProcessedNode) => string | undefined) => {
+      const values = layer.nodes.map(n => n ? valueOf(n) : undefined);
+      return values.some(value => value !== values[0]);
+    };
+
+    if (node.type === 'TEXT' &&
+        (overridden('characters') || differs(n => n.content) || !!(node.propertyReferences && node.propertyReferences.characters))) {
+      props.push({ name: toPropName(layerName, usedNames), kind: 'text', layerName, nodeId: node.id });
+    }
+
+    const colorKey = node.type === 'TEXT' ? 'color' : 'backgroundColor';
+    if (node.styles[colorKey] && (overridden('fills') || differs(n => n.styles[colorKey]))) {
+      props.push({
+        name: toPropName(`${layerName} color`, usedNames),
+        kind: 'color',
+        layerName,
+        nodeId: node.id,
+        cssProperty: node.type === 'TEXT' ? 'color' : 'background-color',
+      });
+    }
+
+    // Graphics exported whole render as images, their layers aren't props
+    if (!(node.asset && !node.asset.imageRef)) {
+      layer.children.forEach(child => visit(child, false));
+    }
+  };
+
+  visit(root, true);
+  return props;
+}
+
+/**
+ * Group the instances below the given roots by main component. Each group becomes one
+ * component, rendered at every instance with the text and fills that instance sets.
+ * Instances `inline` picks are left out, they render as plain markup.
+ */
+export function findInstanceComponents(roots: ProcessedNode[], inline?: (instance: ProcessedNode) => boolean): InstanceComponent[] {
+  const instances: ProcessedNode[] = [];
+  roots.forEach(root => (root.children || []).forEach(child => collectInstances(child, instances, inline)));
+
+  const groups: Record<string, ProcessedNode[]> = {};
+  const componentIds: string[] = [];
+  instances.forEach(instance => {
+    const componentId = instance.componentId as string;
+    if (!groups[componentId]) {
+      groups[componentId] = [];
+      componentIds.push(componentId);
+    }
+    groups[componentId].push(instance);
+  });
+
+  return componentIds.map(componentId => {
+    const group = groups[componentId];
+    const root = matchLayers(group);
+    const props = instanceProps(group[0].name, group, root);
+
+    // Walk the matched layers once more to read each instance's values
+    const layersById: Record<string, VariantLayer> = {};
+    const index = (layer: VariantLayer) => {
+      layersById[layer.base.id] = layer;
+      layer.children.forEach(index);
+    };
+    index(root);
+
+    const values = group.map((_, i) => {
+      const instanceValues: Record<string, string> = {};
+      props.forEach(prop => {
+        const node = layersById[prop.nodeId].nodes[i];
+        instanceValues[prop.name] = !node ? '' :
+          prop.kind === 'text' ? node.content || '' :
+          (node.type === 'TEXT' ? node.styles.color : node.styles.backgroundColor) || '';
+      });
+      return instanceValues;
+    });
+
+    return { componentId, name: group[0].name, instances: group, props, values };
+  });
+}
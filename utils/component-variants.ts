@@ -0,0 +1,187 @@
+import { ComponentProp, ProcessedNode } from '../types/figma';
+import { CSSDeclaration } from './styles';
+
+/**
+ * A layer of a component matched across its variants by name
+ */
+export interface VariantLayer {
+  base: ProcessedNode; // The layer in the first variant that has it
+  nodes: Array<ProcessedNode | undefined>; // The layer in each variant, undefined where it's missing
+  children: VariantLayer[];
+}
+
+/**
+ * The variants of a component set, or a component with properties as a single variant
+ */
+export interface ComponentVariants {
+  props: ComponentProp[];
+  variantProps: ComponentProp[]; // Props that pick the variant, in variant key order
+  variants: ProcessedNode[]; // The default variant first
+  keys: string[]; // Variant key of each variant: its options joined with "/"
+  root: VariantLayer;
+}
+
+/**
+ * How a value depends on the props: fixed, picked by one variant prop, or by the whole variant
+ */
+export type VariantSwitch =
+  | { kind: 'static'; value: string }
+  | { kind: 'prop'; prop: ComponentProp; values: Record<string, string> } // Option → value
+  | { kind: 'variant'; values: Record<string, string> }; // Variant key → value
+
+/**
+ * A layer's CSS split into what all variants share and what the props switch
+ */
+export interface VariantDeclarations {
+  base: CSSDeclaration[];
+  byProp: Array<{ prop: ComponentProp; values: Record<string, CSSDeclaration[]> }>;
+  byVariant?: Record<string, CSSDeclaration[]>;
+}
+
+/**
+ * Check whether a prop picks the variant rather than being a component property of its own
+ */
+export function isVariantProp(prop: ComponentProp): boolean {
+  return prop.options !== undefined;
+}
+
+/**
+ * The component prop a node field (visible, characters, mainComponent) is bound to.
+ * References to properties of nested instances' components don't resolve.
+ */
+export function resolvePropertyReference(node: ProcessedNode, field: string, props: ComponentProp[]): ComponentProp | undefined {
+  const figmaName = node.propertyReferences && node.propertyReferences[field];
+  return figmaName ? props.find(prop => prop.figmaName === figmaName) : undefined;
+}
+
+/**
+ * Match layers across variants or instances of a component by name, children in the
+ * order they first appear. Repeated names are matched by their occurrence.
+ */
+export function matchLayers(nodes: Array<ProcessedNode | undefined>): VariantLayer {
+  const base = nodes.find((node): node is ProcessedNode => !!node)!;
+  const keys: string[] = [];
+  const childrenByKey: Record<string, Array<ProcessedNode | undefined>> = {};
+
+  nodes.forEach((node, variantIndex) => {
+    const seen: Record<string, number> = {};
+    let insertAt = 0;
+    (node && node.children || []).forEach(child => {
+      seen[child.name] = (seen[child.name] || 0) + 1;
+      const key = `${child.name}#${seen[child.name]}`;
+      if (!childrenByKey[key]) {
+        childrenByKey[key] = nodes.map(() => undefined);
+        keys.splice(insertAt, 0, key);
+      }
+      childrenByKey[key][variantIndex] = child;
+      insertAt = keys.indexOf(key) + 1;
+    });
+  });
+
+  return { base, nodes, children: keys.map(key => matchLayers(childrenByKey[key])) };
+}
+
+/**
+ * Collect the variants of a component set, or treat a component with properties as
+ * its only variant. The variant matching every default option comes first.
+ */
+export function analyzeComponentVariants(node: ProcessedNode): ComponentVariants {
+  const props = node.componentProps || [];
+  const variantProps = props.filter(isVariantProp);
+  const defaults = variantProps.map(prop => String(prop.defaultValue));
+  const keyOf = (variant: ProcessedNode) =>
+    variantProps.map(prop => (variant.variant && variant.variant[prop.name]) || '').join('/');
+
+  let variants = [node];
+  if (node.type === 'COMPONENT_SET') {
+    const sets = (node.children || []).filter(child => child.type === 'COMPONENT');
+    const defaultVariant = sets.find(variant => keyOf(variant) === defaults.join('/')) || sets[0];
+    if (defaultVariant) {
+      variants = [defaultVariant].concat(sets.filter(variant => variant !== defaultVariant));
+    }
+  }
+
+  return { props, variantProps, variants, keys: variants.map(keyOf), root: matchLayers(variants) };
+}
+
+/**
+ * Work out how a value depends on the variant. Values are given per variant; undefined
+ * ones, for variants missing the layer, don't count.
+ */
+export function switchValues(values: Array<string | undefined>, variants: ComponentVariants): VariantSwitch {
+  const indexes = values.map((_, i) => i).filter(i => values[i] !== undefined);
+  const first = values[indexes[0]] as string;
+  if (indexes.every(i => values[i] === first)) {
+    return { kind: 'static', value: first };
+  }
+
+  for (const prop of variants.variantProps) {
+    const byOption: Record<string, string> = {};
+    const consistent = indexes.every(i => {
+      const option = (variants.variants[i].variant || {})[prop.name];
+      if (option in byOption) return byOption[option] === values[i];
+      byOption[option] = values[i] as string;
+      return true;
+    });
+    if (consistent) {
+      return { kind: 'prop', prop, values: byOption };
+    }
+  }
+
+  const byVariant: Record<string, string> = {};
+  indexes.forEach(i => { byVariant[variants.keys[i]] = values[i] as string; });
+  return { kind: 'variant', values: byVariant };
+}
+
+/**
+ * Split a layer's CSS, property by property, into shared declarations and the ones
+ * switched by a variant prop or by the whole variant
+ */
+export function splitDeclarations(
+  layer: VariantLayer,
+  variants: ComponentVariants,
+  declarationsOf: (node: ProcessedNode) => CSSDeclaration[]
+): VariantDeclarations {
+  const perVariant = layer.nodes.map(node => node ? declarationsOf(node) : undefined);
+  const properties: string[] = [];
+  perVariant.forEach(declarations => {
+    (declarations || []).forEach(([property]) => {
+      if (properties.indexOf(property) === -1) properties.push(property);
+    });
+  });
+
+  const result: VariantDeclarations = { base: [], byProp: [] };
+  properties.forEach(property => {
+    const values = perVariant.map(declarations => {
+      if (!declarations) return undefined;
+      const declaration = declarations.find(([name]) => name === property);
+      return declaration ? declaration[1] : '';
+    });
+
+    const valueSwitch = switchValues(values, variants);
+    if (valueSwitch.kind === 'static') {
+      if (valueSwitch.value) result.base.push([property, valueSwitch.value]);
+      return;
+    }
+
+    let target: Record<string, CSSDeclaration[]>;
+    if (valueSwitch.kind === 'prop') {
+      const prop = valueSwitch.prop;
+      let group = result.byProp.find(g => g.prop === prop);
+      if (!group) {
+        group = { prop, values: {} };
+        result.byProp.push(group);
+      }
+      target = group.values;
+    } else {
+      target = result.byVariant || (result.byVariant = {});
+    }
+
+    Object.entries(valueSwitch.values).forEach(([option, value]) => {
+      target[option] = target[option] || [];
+      if (value) target[option].push([property, value]);
+    });
+  });
+
+  return result;
+}
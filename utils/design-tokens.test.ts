@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FigmaFile } from '../types/figma';
+import { extractDesignTokens, tokensToTailwindConfig, tokensToW3C } from './design-tokens';
+
+/**
+ * A file with a "Primary" color style and a "Primary" color variable, used by two rectangles
+ */
+function fileWithSharedName(): FigmaFile {
+  return {
+    name: 'Tokens',
+    lastModified: '',
+    version: '1',
+    thumbnailUrl: '',
+    schemaVersion: 0,
+    components: {},
+    styles: { 'S:1': { key: 's1', name: 'Primary', description: '', remote: false, styleType: 'FILL' } },
+    document: {
+      id: '0:0',
+      name: 'Document',
+      type: 'DOCUMENT',
+      children: [
+        {
+          id: '1:1',
+          name: 'Styled',
+          type: 'RECTANGLE',
+          styles: { fill: 'S:1' },
+          fills: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0, a: 1 } }],
+        },
+        {
+          id: '1:2',
+          name: 'Bound',
+          type: 'RECTANGLE',
+          fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 1, a: 1 }, boundVariables: { color: { type: 'VARIABLE_ALIAS', id: 'V:1' } } }],
+        },
+      ],
+    },
+  };
+}
+
+const variables = {
+  variables: { 'V:1': { id: 'V:1', name: 'Primary', resolvedType: 'COLOR', variableCollectionId: 'C:1' } },
+};
+
+test('tokens sharing a name are numbered in their name and path', () => {
+  const set = extractDesignTokens(fileWithSharedName(), variables);
+  assert.deepEqual(set.tokens.map(token => [token.name, token.path]), [
+    ['color-primary', ['color', 'primary']],
+    ['color-primary-2', ['color', 'primary-2']],
+  ]);
+});
+
+test('tokens sharing a name keep their own keys in every export', () => {
+  const set = extractDesignTokens(fileWithSharedName(), variables);
+
+  const tailwind = tokensToTailwindConfig(set);
+  assert.match(tailwind, /"primary": "var\(--color-primary\)"/);
+  assert.match(tailwind, /"primary-2": "var\(--color-primary-2\)"/);
+
+  const w3c = JSON.parse(tokensToW3C(set));
+  assert.deepEqual(Object.keys(w3c.color), ['primary', 'primary-2']);
+});
@@ -0,0 +1,381 @@
+import { FigmaFile, FigmaNode, Paint, TypeStyle, VariableAlias } from '../types/figma';
+import { GeneratedFile } from '../types/codegen';
+import { DesignToken, DesignTokenSet, DesignTokenType, FigmaVariablesMeta, TypographyTokenValue } from '../types/tokens';
+import { effectsToBoxShadow, extractBackgroundColor, figmaColorToCSS } from './figma';
+import { fontFamilyStack, px } from './styles';
+
+// Name prefix per token type, also the top-level group in the W3C export
+const TYPE_PREFIXES: Record<DesignTokenType, string> = {
+  color: 'color',
+  typography: 'text',
+  spacing: 'spacing',
+  radius: 'radius',
+  shadow: 'shadow',
+};
+
+// Leading name segments designers use for each type, folded into the type prefix
+const GROUP_ALIASES: Record<DesignTokenType, string[]> = {
+  color: ['color', 'colors', 'colour', 'colours'],
+  typography: ['text', 'typography', 'type', 'font', 'fonts'],
+  spacing: ['spacing', 'space', 'spaces'],
+  radius: ['radius', 'radii', 'corner-radius'],
+  shadow: ['shadow', 'shadows', 'elevation', 'effects'],
+};
+
+// Style kinds as they appear in FigmaNode.styles
+const STYLE_TYPES: Record<string, DesignTokenType> = {
+  fill: 'color',
+  fills: 'color',
+  stroke: 'color',
+  strokes: 'color',
+  text: 'typography',
+  effect: 'shadow',
+  effects: 'shadow',
+};
+
+// Node properties whose bound variables become spacing or radius tokens
+const VARIABLE_PROPERTIES: Record<string, DesignTokenType> = {
+  itemSpacing: 'spacing',
+  counterAxisSpacing: 'spacing',
+  paddingTop: 'spacing',
+  paddingRight: 'spacing',
+  paddingBottom: 'spacing',
+  paddingLeft: 'spacing',
+  cornerRadius: 'radius',
+  topLeftRadius: 'radius',
+  topRightRadius: 'radius',
+  bottomRightRadius: 'radius',
+  bottomLeftRadius: 'radius',
+};
+
+/**
+ * Lowercase a name segment and dash everything that isn't a letter or digit
+ */
+function kebab(segment: string): string {
+  return segment
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Token path from a style or variable name like "Brand/Primary 500", prefixed with
+ * the token type; a leading "Colors/" or similar group is folded into the prefix
+ */
+function tokenPath(type: DesignTokenType, name: string): string[] {
+  const segments = name.split('/').map(kebab).filter(Boolean);
+  const rest = segments.length > 1 && GROUP_ALIASES[type].indexOf(segments[0]) !== -1 ? segments.slice(1) : segments;
+  return [TYPE_PREFIXES[type], ...rest];
+}
+
+/**
+ * Parse an rgb() or rgba() string into 0-255 channels and alpha
+ */
+function parseRGB(color: string): { r: number; g: number; b: number; a: number } | undefined {
+  const match = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/);
+  if (!match) return undefined;
+  return { r: +match[1], g: +match[2], b: +match[3], a: match[4] === undefined ? 1 : +match[4] };
+}
+
+/**
+ * Hex form of an rgb() color, with an alpha pair when translucent
+ */
+function toHex(color: string): string {
+  const rgb = parseRGB(color);
+  if (!rgb) return color;
+  const channels = [rgb.r, rgb.g, rgb.b];
+  if (rgb.a < 1) channels.push(Math.round(rgb.a * 255));
+  return `#${channels.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Name for a variable we have no metadata for, derived from its value. Lengths keep
+ * their unit so theme keys don't shadow Tailwind's numeric scale.
+ */
+function fallbackName(type: DesignTokenType, value: string): string {
+  return type === 'color' ? toHex(value).slice(1) : value.replace('.', '_');
+}
+
+/**
+ * Typography values of a text style, in CSS form
+ */
+function typographyValue(style: TypeStyle): TypographyTokenValue {
+  const value: TypographyTokenValue = {};
+  if (style.fontFamily) value.fontFamily = fontFamilyStack(style.fontFamily);
+  if (style.fontSize) value.fontSize = px(style.fontSize);
+  if (style.fontWeight) value.fontWeight = `${style.fontWeight}`;
+  if (style.lineHeightPx && style.lineHeightUnit !== 'INTRINSIC_%') value.lineHeight = px(style.lineHeightPx);
+  if (style.letterSpacing) value.letterSpacing = px(style.letterSpacing);
+  return value;
+}
+
+/**
+ * Value a published style has on a node that uses it
+ */
+function styleValue(kind: string, node: FigmaNode): DesignToken['value'] | undefined {
+  switch (STYLE_TYPES[kind]) {
+    case 'color':
+      return extractBackgroundColor(kind.startsWith('stroke') ? node.strokes : node.fills);
+    case 'typography':
+      return node.style ? typographyValue(node.style) : undefined;
+    case 'shadow':
+      return effectsToBoxShadow(node.effects);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build a token set from the published styles nodes use and the variables bound to
+ * their colors, spacing and radii. Values are read from the first node using each
+ * style or variable; variable names come from the variables API when it was available.
+ */
+export function extractDesignTokens(file: FigmaFile, variables?: FigmaVariablesMeta): DesignTokenSet {
+  const set: DesignTokenSet = { tokens: [], styleTokens: {}, variableTokens: {} };
+  const usedNames = new Set<string>();
+
+  const addToken = (
+    type: DesignTokenType,
+    name: string,
+    value: DesignToken['value'] | undefined,
+    source: DesignToken['source'],
+    sourceId: string
+  ) => {
+    const references = source === 'style' ? set.styleTokens : set.variableTokens;
+    if (!value || references[sourceId]) return;
+
+    // A name taken by another token is numbered on its last segment, so every export keys it apart
+    const basePath = tokenPath(type, name);
+    let path = basePath;
+    for (let counter = 2; usedNames.has(path.join('-')); counter++) {
+      path = basePath.slice(0, -1).concat(`${basePath[basePath.length - 1]}-${counter}`);
+    }
+    const tokenName = path.join('-');
+    usedNames.add(tokenName);
+
+    set.tokens.push({ name: tokenName, path, type, value, source, sourceId });
+    references[sourceId] = tokenName;
+  };
+
+  const addVariable = (type: DesignTokenType, alias: VariableAlias | VariableAlias[] | undefined, value: string | undefined) => {
+    const first = Array.isArray(alias) ? alias[0] : alias;
+    if (!first || !value) return;
+    addToken(type, variables?.variables[first.id]?.name || fallbackName(type, value), value, 'variable', first.id);
+  };
+
+  const addPaintVariable = (paints: Paint[] | undefined) => {
+    const paint = paints?.find(p => p.type === 'SOLID' && p.visible !== false);
+    if (paint?.color) addVariable('color', paint.boundVariables?.color, figmaColorToCSS(paint.color));
+  };
+
+  const visit = (node: FigmaNode) => {
+    Object.entries(node.styles || {}).forEach(([kind, styleId]) => {
+      const type = STYLE_TYPES[kind];
+      if (!type) return;
+      addToken(type, file.styles?.[styleId]?.name || `${kind} ${styleId}`, styleValue(kind, node), 'style', styleId);
+    });
+
+    addPaintVariable(node.fills);
+    addPaintVariable(node.strokes);
+    Object.entries(node.boundVariables || {}).forEach(([property, alias]) => {
+      const type = VARIABLE_PROPERTIES[property];
+      if (!type) return;
+      const value = type === 'radius' ? node.cornerRadius : (node as unknown as Record<string, number | undefined>)[property];
+      addVariable(type, alias, value === undefined ? undefined : px(value));
+    });
+
+    node.children?.forEach(visit);
+  };
+
+  visit(file.document);
+  return set;
+}
+
+/**
+ * Custom properties a token defines; typography tokens define one per property
+ */
+function cssVariables(token: DesignToken): Array<[name: string, value: string]> {
+  if (typeof token.value === 'string') {
+    return [[token.name, token.value]];
+  }
+  return Object.entries(token.value)
+    .filter(([, value]) => value !== undefined)
+    .map(([property, value]) => [`${token.name}-${kebab(property)}`, value as string]);
+}
+
+/**
+ * Export tokens as CSS custom properties on :root
+ */
+export function tokensToCSS(set: DesignTokenSet): string {
+  const declarations: string[] = [];
+  set.tokens.forEach(token => {
+    cssVariables(token).forEach(([name, value]) => declarations.push(`  --${name}: ${value};`));
+  });
+
+  return ['/* Design tokens extracted from Figma */', ':root {', ...declarations, '}', ''].join('\n');
+}
+
+/**
+ * Key of a token inside its Tailwind theme section, without the type prefix
+ */
+function themeKey(token: DesignToken): string {
+  return token.path.slice(1).join('-') || token.path[0];
+}
+
+/**
+ * Export tokens as a Tailwind preset whose theme.extend points at the CSS custom properties
+ */
+export function tokensToTailwindConfig(set: DesignTokenSet): string {
+  const extend: Record<string, Record<string, unknown>> = {};
+  const add = (section: string, key: string, value: unknown) => {
+    extend[section] = { ...extend[section], [key]: value };
+  };
+
+  set.tokens.forEach(token => {
+    const key = themeKey(token);
+    const reference = `var(--${token.name})`;
+
+    switch (token.type) {
+      case 'color':
+        add('colors', key, reference);
+        break;
+      case 'spacing':
+        add('spacing', key, reference);
+        break;
+      case 'radius':
+        add('borderRadius', key, reference);
+        break;
+      case 'shadow':
+        add('boxShadow', key, reference);
+        break;
+      case 'typography': {
+        const value = token.value as TypographyTokenValue;
+        const property = (name: keyof TypographyTokenValue) => value[name] && `var(--${token.name}-${kebab(name)})`;
+        if (value.fontFamily) add('fontFamily', key, property('fontFamily'));
+        if (value.fontSize) {
+          const options: Record<string, string> = {};
+          (['lineHeight', 'fontWeight', 'letterSpacing'] as const).forEach(name => {
+            if (value[name]) options[name] = property(name) as string;
+          });
+          add('fontSize', key, [property('fontSize'), options]);
+        }
+        break;
+      }
+    }
+  });
+
+  return [
+    '// Design tokens extracted from Figma. Use as a preset in tailwind.config.js:',
+    "// presets: [require('./tailwind.tokens.js')]",
+    `module.exports = ${JSON.stringify({ theme: { extend } }, null, 2)};`,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Split a CSS value on a separator, ignoring separators inside parentheses
+ */
+function splitTopLevel(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value.split('')) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// A token in the W3C Design Tokens format
+interface W3CToken {
+  $type: string;
+  $value: unknown;
+}
+
+// Tokens and nested groups keyed by name segment
+interface W3CTokenGroup {
+  [key: string]: W3CToken | W3CTokenGroup;
+}
+
+/**
+ * Check whether a W3C group entry is a token rather than a nested group
+ */
+function isW3CToken(entry: W3CToken | W3CTokenGroup): entry is W3CToken {
+  return '$value' in entry;
+}
+
+/**
+ * W3C `$type` and `$value` for a token
+ */
+function w3cToken(token: DesignToken): W3CToken {
+  switch (token.type) {
+    case 'color':
+      return { $type: 'color', $value: toHex(token.value as string) };
+    case 'spacing':
+    case 'radius':
+      return { $type: 'dimension', $value: token.value };
+    case 'shadow': {
+      const shadows = splitTopLevel(token.value as string, ',').map(shadow => {
+        const parts = splitTopLevel(shadow, ' ');
+        const inset = parts[0] === 'inset';
+        const [offsetX, offsetY, blur, spread, ...color] = inset ? parts.slice(1) : parts;
+        return { color: toHex(color.join(' ')), offsetX, offsetY, blur, spread, ...(inset ? { inset } : {}) };
+      });
+      return { $type: 'shadow', $value: shadows.length === 1 ? shadows[0] : shadows };
+    }
+    case 'typography': {
+      const value = token.value as TypographyTokenValue;
+      return {
+        $type: 'typography',
+        $value: {
+          ...value,
+          fontFamily: value.fontFamily && splitTopLevel(value.fontFamily, ',').map(family => family.replace(/"/g, '')),
+          fontWeight: value.fontWeight && Number(value.fontWeight),
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Export tokens in the W3C Design Tokens format, grouped by their name path.
+ * A path that clashes with an existing token or group keeps its remaining segments as one key.
+ */
+export function tokensToW3C(set: DesignTokenSet): string {
+  const root: W3CTokenGroup = {};
+
+  set.tokens.forEach(token => {
+    let group = root;
+    const path = token.path.slice();
+    while (path.length > 1) {
+      const next = group[path[0]] || (group[path[0]] = {});
+      if (isW3CToken(next)) break;
+      group = next;
+      path.shift();
+    }
+
+    const key = path.join('-');
+    group[group[key] ? `${key}-${token.name}` : key] = w3cToken(token);
+  });
+
+  return `${JSON.stringify(root, null, 2)}\n`;
+}
+
+/**
+ * Every token export, as files to add to a generated project
+ */
+export function designTokenFiles(set: DesignTokenSet): GeneratedFile[] {
+  return [
+    { name: 'tokens.css', content: tokensToCSS(set), type: 'css' },
+    { name: 'tailwind.tokens.js', content: tokensToTailwindConfig(set), type: 'js' },
+    { name: 'tokens.json', content: tokensToW3C(set), type: 'json' },
+  ];
+}
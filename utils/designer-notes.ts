@@ -0,0 +1,123 @@
+import { FigmaComment, FigmaComponentSet, FigmaFile, ProcessedNode } from '../types/figma';
+
+/**
+ * A designer note on a layer of a component or page: a comment or a component description
+ */
+export interface DesignerNote {
+  layer?: string; // Name of the layer it's on; absent for the root
+  text: string;
+}
+
+/**
+ * Description of a component or component set, with its documentation links
+ */
+function describeComponent(entry: FigmaComponentSet | undefined): string | undefined {
+  if (!entry) return undefined;
+  const links = (entry.documentationLinks || []).map(link => link.uri);
+  const text = [entry.description.trim()].concat(links.length > 0 ? [`Docs: ${links.join(', ')}`] : []).filter(Boolean).join('\n');
+  return text || undefined;
+}
+
+/**
+ * Check whether a point on the canvas lies inside a node
+ */
+function containsPoint(node: ProcessedNode, x: number, y: number): boolean {
+  const box = node.absoluteBoundingBox;
+  return !!box && x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height;
+}
+
+/**
+ * Copy processed nodes with designer notes attached: the descriptions of components,
+ * component sets and instances' main components, and unresolved comments with their
+ * replies. Comments pinned to a layer go on that layer; comments placed on the canvas
+ * go on the innermost layer under them.
+ */
+export function attachDesignerNotes(
+  nodes: ProcessedNode[],
+  file: Pick<FigmaFile, 'components' | 'componentSets'>,
+  comments: FigmaComment[] = []
+): ProcessedNode[] {
+  const replies: Record<string, FigmaComment[]> = {};
+  comments.filter(comment => comment.parent_id).forEach(reply => {
+    (replies[reply.parent_id!] = replies[reply.parent_id!] || []).push(reply);
+  });
+  const threads = comments.filter(comment => !comment.parent_id && !comment.resolved_at && comment.message.trim());
+  const threadText = (comment: FigmaComment) =>
+    [comment.message.trim()].concat((replies[comment.id] || []).map(reply => `Reply: ${reply.message.trim()}`)).join('\n');
+
+  // Comments by the layer they belong to, found in the given trees
+  const byNode: Record<string, string[]> = {};
+  const pin = (nodeId: string, comment: FigmaComment) => {
+    (byNode[nodeId] = byNode[nodeId] || []).push(threadText(comment));
+  };
+  const nodeIds = new Set<string>();
+  const collectIds = (node: ProcessedNode) => {
+    nodeIds.add(node.id);
+    (node.children || []).forEach(collectIds);
+  };
+  nodes.forEach(collectIds);
+
+  const innermostAt = (node: ProcessedNode, x: number, y: number): string | undefined => {
+    if (!containsPoint(node, x, y)) return undefined;
+    for (const child of (node.children || []).slice().reverse()) {
+      const found = innermostAt(child, x, y);
+      if (found) return found;
+    }
+    return node.id;
+  };
+
+  threads.forEach(comment => {
+    const meta = comment.client_meta;
+    if (!meta) return;
+    if ('node_id' in meta) {
+      if (nodeIds.has(meta.node_id)) pin(meta.node_id, comment);
+      return;
+    }
+    for (const node of nodes) {
+      const found = innermostAt(node, meta.x, meta.y);
+      if (found) {
+        pin(found, comment);
+        return;
+      }
+    }
+  });
+
+  const componentSets = file.componentSets || {};
+  const attach = (node: ProcessedNode): ProcessedNode => {
+    const description = node.type === 'COMPONENT_SET' ? describeComponent(componentSets[node.id]) :
+      node.type === 'COMPONENT' ? describeComponent(file.components[node.id]) :
+      node.type === 'INSTANCE' && node.componentId ? describeComponent(file.components[node.componentId]) :
+      undefined;
+
+    const result: ProcessedNode = { ...node };
+    if (description) result.description = description;
+    if (byNode[node.id]) result.comments = byNode[node.id];
+    if (node.children) result.children = node.children.map(attach);
+    return result;
+  };
+
+  return nodes.map(attach);
+}
+
+/**
+ * Collect the designer notes in a node's tree, root first. Notes repeated on several
+ * layers, such as the description of a component instanced more than once, are listed once.
+ */
+export function collectDesignerNotes(root: ProcessedNode): DesignerNote[] {
+  const notes: DesignerNote[] = [];
+  const seen: string[] = [];
+
+  const visit = (node: ProcessedNode) => {
+    const layer = node === root ? undefined : node.name;
+    const texts = (node.description ? [node.description] : []).concat(node.comments || []);
+    texts.forEach(text => {
+      if (seen.indexOf(text) !== -1) return;
+      seen.push(text);
+      notes.push({ layer, text });
+    });
+    (node.children || []).forEach(visit);
+  };
+
+  visit(root);
+  return notes;
+}
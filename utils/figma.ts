@@ -1,38 +1,74 @@
-import { FigmaNode, ProcessedNode, Color, Paint, TypeStyle } from '../types/figma';
+import { FigmaNode, ProcessedNode, ProcessedAsset, ComponentProp, Color, Paint, Effect, TypeStyle, SizingMode, Vector, Hyperlink, TextRun, VariableAlias, Interaction, PrototypeAction, Rectangle } from '../types/figma';
+import { DesignTokenSet } from '../types/tokens';
+import { gridAutoLayout, inferGridLayout } from './layout-grids';
+import { applyMasks } from './masks';
+
+export interface FigmaUrlInfo {
+  fileKey: string; // The branch's own key for branch URLs
+  mainFileKey?: string; // Set for branch URLs
+  nodeIds: string[]; // Linked nodes in API form ("12:345"), the prototype starting point last
+}
 
 /**
- * Extract file key from Figma URL
- * Supports various Figma URL formats including direct API URLs
+ * Decode a URL parameter, keeping malformed escapes as they are
  */
-export function extractFileKey(url: string): string | null {
-  // Handle direct API URL format: https://api.figma.com/v1/files/FILE_KEY
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Read the file key and linked nodes from a Figma URL. Handles file, design, proto and
+ * branch URLs with node-id and starting-point-node-id parameters, API URLs including
+ * /nodes?ids=, and bare file keys.
+ */
+export function parseFigmaUrl(url: string): FigmaUrlInfo | null {
+  const query = (name: string): string | undefined => {
+    const match = url.match(new RegExp(`[?&#]${name}=([^&#]+)`));
+    return match ? match[1] : undefined;
+  };
+
+  // Handle direct API URL format: https://api.figma.com/v1/files/FILE_KEY[/nodes?ids=1:2,3:4]
   const apiUrlMatch = url.match(/api\.figma\.com\/v1\/files\/([a-zA-Z0-9]+)/);
   if (apiUrlMatch) {
-    return apiUrlMatch[1];
+    const ids = query('ids');
+    return { fileKey: apiUrlMatch[1], nodeIds: ids ? decodeParam(ids).split(',').filter(Boolean) : [] };
   }
 
-  // Handle different Figma URL formats
-  const patterns = [
-    /figma\.com\/file\/([a-zA-Z0-9]+)/,
-    /figma\.com\/design\/([a-zA-Z0-9]+)/,
-    /figma\.com\/proto\/([a-zA-Z0-9]+)/,
-  ];
+  // Handle file, design and proto URLs, optionally pointing at a branch
+  const urlMatch = url.match(/figma\.com\/(?:file|design|proto)\/([a-zA-Z0-9]+)/);
+  if (urlMatch) {
+    const branchMatch = url.match(/figma\.com\/(?:file|design|proto)\/[a-zA-Z0-9]+\/branch\/([a-zA-Z0-9]+)/);
+    const nodeIds = [query('node-id'), query('starting-point-node-id')]
+      .filter((id): id is string => !!id)
+      // Browser URLs write "12:345" as "12-345"
+      .map(id => decodeParam(id).replace(/-/g, ':'))
+      .filter((id, index, ids) => ids.indexOf(id) === index);
 
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match) {
-      return match[1];
-    }
+    return branchMatch ?
+      { fileKey: branchMatch[1], mainFileKey: urlMatch[1], nodeIds } :
+      { fileKey: urlMatch[1], nodeIds };
   }
 
   // If it's already just a file key
   if (/^[a-zA-Z0-9]+$/.test(url)) {
-    return url;
+    return { fileKey: url, nodeIds: [] };
   }
 
   return null;
 }
 
+/**
+ * Extract file key from Figma URL, the branch key for branch URLs
+ */
+export function extractFileKey(url: string): string | null {
+  const info = parseFigmaUrl(url);
+  return info ? info.fileKey : null;
+}
+
 /**
  * Convert Figma Color to CSS color string
  */
@@ -53,32 +89,278 @@ export function figmaColorToCSS(color: Color): string {
   }
 }
 
+// Figma blend modes CSS has too. CSS has no linear burn, and linear dodge only as
+// mix-blend-mode's plus-lighter, so those use the nearest modes.
+const BLEND_MODES: Record<string, string> = {
+  DARKEN: 'darken',
+  MULTIPLY: 'multiply',
+  LINEAR_BURN: 'color-burn',
+  COLOR_BURN: 'color-burn',
+  LIGHTEN: 'lighten',
+  SCREEN: 'screen',
+  LINEAR_DODGE: 'color-dodge',
+  COLOR_DODGE: 'color-dodge',
+  OVERLAY: 'overlay',
+  SOFT_LIGHT: 'soft-light',
+  HARD_LIGHT: 'hard-light',
+  DIFFERENCE: 'difference',
+  EXCLUSION: 'exclusion',
+  HUE: 'hue',
+  SATURATION: 'saturation',
+  COLOR: 'color',
+  LUMINOSITY: 'luminosity',
+};
+
 /**
- * Extract background color from fills
+ * Convert a Figma blend mode to mix-blend-mode, or to background-blend-mode for a paint.
+ * Normal and pass-through blending need no CSS.
+ */
+export function convertBlendMode(blendMode: string | undefined, isPaint = false): string | undefined {
+  if (blendMode === 'LINEAR_DODGE' && !isPaint) return 'plus-lighter';
+  return BLEND_MODES[blendMode || ''];
+}
+
+/**
+ * Check whether a paint is drawn: visible and not fully transparent
+ */
+function isDrawnPaint(paint: Paint): boolean {
+  return paint.visible !== false && paint.opacity !== 0;
+}
+
+/**
+ * A solid paint's color with the paint's own opacity applied
+ */
+function solidPaintColor(paint: Paint): Color {
+  const { a = 1 } = paint.color!;
+  return { ...paint.color!, a: a * (paint.opacity ?? 1) };
+}
+
+/**
+ * Composite stacked colors, bottom first, the way Figma paints stacked fills
+ */
+function compositeColors(colors: Color[]): Color {
+  return colors.reduce((bottom, top) => {
+    const a = top.a + bottom.a * (1 - top.a);
+    const channel = (key: 'r' | 'g' | 'b') => a === 0 ? 0 : (top[key] * top.a + bottom[key] * bottom.a * (1 - top.a)) / a;
+    return { r: channel('r'), g: channel('g'), b: channel('b'), a };
+  }, { r: 0, g: 0, b: 0, a: 0 });
+}
+
+/**
+ * CSS color of the given solid fills stacked, or undefined without any
+ */
+function stackedColor(fills: Paint[]): string | undefined {
+  const colors = fills.filter(fill => fill.type === 'SOLID' && fill.color && isDrawnPaint(fill)).map(solidPaintColor);
+  if (colors.length === 0) return undefined;
+
+  const { r, g, b, a } = compositeColors(colors);
+  return figmaColorToCSS({ r, g, b, a: Math.round(a * 1000) / 1000 });
+}
+
+/**
+ * Split drawn fills, bottom first, into the plain solid fills at the bottom, which stack
+ * into one background color, and the layers from the first gradient, image or blending
+ * fill up, which background-color would wrongly paint under
+ */
+function splitFills(fills: Paint[] | undefined): { base: Paint[]; layers: Paint[] } {
+  const drawn = (fills || []).filter(isDrawnPaint);
+  const firstLayer = drawn.findIndex(fill => fill.type !== 'SOLID' || !fill.color || !!convertBlendMode(fill.blendMode, true));
+  return firstLayer === -1 ?
+    { base: drawn, layers: [] } :
+    { base: drawn.slice(0, firstLayer), layers: drawn.slice(firstLayer) };
+}
+
+/**
+ * Extract background color from fills, stacking the solid fills under any gradient or image
  */
 export function extractBackgroundColor(fills: Paint[] | undefined): string | undefined {
-  if (!fills || fills.length === 0) return undefined;
-  
-  const solidFill = fills.find(fill => fill.type === 'SOLID' && fill.visible !== false);
-  if (solidFill && solidFill.color) {
-    return figmaColorToCSS(solidFill.color);
-  }
-  
-  return undefined;
+  return stackedColor(splitFills(fills).base);
 }
 
 /**
- * Extract text color from style
+ * Extract text color from a style's solid fills, stacked
  */
 export function extractTextColor(style: TypeStyle | undefined): string | undefined {
-  if (!style || !style.fills || style.fills.length === 0) return undefined;
-  
-  const textFill = style.fills.find(fill => fill.type === 'SOLID' && fill.visible !== false);
-  if (textFill && textFill.color) {
-    return figmaColorToCSS(textFill.color);
+  return style && style.fills ? stackedColor(style.fills) : undefined;
+}
+
+/**
+ * Round away floating point noise from Figma geometry
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * CSS color for a paint color, with the paint's own opacity applied
+ */
+function paintColor(color: Color, opacity: number = 1): string {
+  const { a = 1 } = color;
+  return figmaColorToCSS({ ...color, a: Math.round(a * opacity * 1000) / 1000 });
+}
+
+/**
+ * Convert strokes to a border, or an outline for strokes drawn outside the box.
+ * Lines become a top border; text strokes are left alone.
+ */
+export function extractStrokeStyles(node: FigmaNode): Pick<ProcessedNode['styles'], 'border' | 'borderWidth' | 'outline'> {
+  const stroke = node.strokes?.find(paint => paint.visible !== false);
+  if (!stroke || node.type === 'TEXT') return {};
+
+  // CSS borders can't be gradients, so gradient strokes use their first stop
+  const strokeColor = stroke.color || stroke.gradientStops?.[0]?.color;
+  if (!strokeColor) return {};
+
+  const sides = node.individualStrokeWeights;
+  const weight = sides ? Math.max(sides.top, sides.right, sides.bottom, sides.left) : node.strokeWeight ?? 1;
+  if (!weight) return {};
+
+  const lineStyle = node.strokeDashes && node.strokeDashes.length > 0 ? 'dashed' : 'solid';
+  const value = `${round(weight)}px ${lineStyle} ${paintColor(strokeColor, stroke.opacity)}`;
+
+  if (node.type === 'LINE') {
+    return { border: value, borderWidth: `${round(weight)}px 0 0 0` };
   }
-  
-  return undefined;
+  if (node.strokeAlign === 'OUTSIDE' && !sides) {
+    return { outline: value };
+  }
+  if (sides && !(sides.top === sides.right && sides.right === sides.bottom && sides.bottom === sides.left)) {
+    return {
+      border: value,
+      borderWidth: [sides.top, sides.right, sides.bottom, sides.left].map(side => `${round(side)}px`).join(' '),
+    };
+  }
+  return { border: value };
+}
+
+/**
+ * Convert visible drop and inner shadows to a box-shadow list, topmost first
+ */
+export function effectsToBoxShadow(effects: Effect[] | undefined): string | undefined {
+  // Figma lists effects bottom to top, CSS paints the first shadow on top
+  const shadows = (effects || [])
+    .filter(effect => effect.visible !== false && (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW'))
+    .reverse();
+  if (shadows.length === 0) return undefined;
+
+  return shadows
+    .map(effect => [
+      effect.type === 'INNER_SHADOW' ? 'inset' : '',
+      `${round(effect.offset?.x || 0)}px`,
+      `${round(effect.offset?.y || 0)}px`,
+      `${round(effect.radius || 0)}px`,
+      `${round(effect.spread || 0)}px`,
+      paintColor(effect.color || { r: 0, g: 0, b: 0, a: 0.25 }),
+    ].filter(Boolean).join(' '))
+    .join(', ');
+}
+
+/**
+ * Convert shadows and blurs. Text gets text-shadow; Figma blur radii are twice the CSS blur.
+ */
+export function extractEffectStyles(node: FigmaNode): Pick<ProcessedNode['styles'], 'boxShadow' | 'textShadow' | 'filter' | 'backdropFilter'> {
+  const effects = (node.effects || []).filter(effect => effect.visible !== false);
+  const styles: Pick<ProcessedNode['styles'], 'boxShadow' | 'textShadow' | 'filter' | 'backdropFilter'> = {};
+
+  if (node.type === 'TEXT') {
+    const textShadows = effects
+      .filter(effect => effect.type === 'DROP_SHADOW')
+      .reverse()
+      .map(effect => `${round(effect.offset?.x || 0)}px ${round(effect.offset?.y || 0)}px ${round(effect.radius || 0)}px ${paintColor(effect.color || { r: 0, g: 0, b: 0, a: 0.25 })}`);
+    if (textShadows.length > 0) styles.textShadow = textShadows.join(', ');
+  } else {
+    styles.boxShadow = effectsToBoxShadow(effects);
+  }
+
+  const layerBlur = effects.find(effect => effect.type === 'LAYER_BLUR');
+  if (layerBlur?.radius) styles.filter = `blur(${round(layerBlur.radius / 2)}px)`;
+
+  const backgroundBlur = effects.find(effect => effect.type === 'BACKGROUND_BLUR');
+  if (backgroundBlur?.radius) styles.backdropFilter = `blur(${round(backgroundBlur.radius / 2)}px)`;
+
+  return styles;
+}
+
+/**
+ * Convert one gradient paint to a CSS gradient. Handle positions are relative to the
+ * node box, so the node size is needed to keep angles and radii right.
+ */
+export function gradientToCSS(paint: Paint, width: number, height: number): string | undefined {
+  const handles = paint.gradientHandlePositions;
+  const stops = paint.gradientStops;
+  if (!handles || handles.length < 2 || !stops || stops.length === 0) return undefined;
+
+  const [start, end, widthHandle] = handles;
+  const toPixels = (from: Vector, to: Vector) => ({ x: (to.x - from.x) * width, y: (to.y - from.y) * height });
+  const angleOf = (vector: Vector) => Math.atan2(vector.x, -vector.y); // 0 points up, like CSS
+  const degrees = (radians: number) => round(((radians * 180) / Math.PI + 360) % 360);
+  const stopList = (positions: number[]) => stops
+    .map((stop, i) => `${paintColor(stop.color, paint.opacity)} ${round(positions[i] * 100)}%`)
+    .join(', ');
+
+  switch (paint.type) {
+    case 'GRADIENT_LINEAR': {
+      const angle = angleOf(toPixels(start, end));
+      // CSS runs the gradient line through the center, long enough to reach the corners;
+      // project Figma's handles onto it so stops land where they were designed
+      const ux = Math.sin(angle);
+      const uy = -Math.cos(angle);
+      const length = Math.abs(width * ux) + Math.abs(height * uy) || 1;
+      const project = (point: Vector) => (((point.x - 0.5) * width * ux) + ((point.y - 0.5) * height * uy)) / length + 0.5;
+      const from = project(start);
+      const to = project(end);
+      return `linear-gradient(${degrees(angle)}deg, ${stopList(stops.map(stop => from + stop.position * (to - from)))})`;
+    }
+    case 'GRADIENT_RADIAL':
+    case 'GRADIENT_DIAMOND': {
+      // Diamond gradients have no CSS equivalent; rotated ellipses are drawn axis-aligned
+      const radiusVector = toPixels(start, end);
+      const rx = Math.hypot(radiusVector.x, radiusVector.y);
+      const ry = widthHandle ? Math.hypot(toPixels(start, widthHandle).x, toPixels(start, widthHandle).y) : rx;
+      return `radial-gradient(ellipse ${round(rx)}px ${round(ry)}px at ${round(start.x * 100)}% ${round(start.y * 100)}%, ${stopList(stops.map(stop => stop.position))})`;
+    }
+    case 'GRADIENT_ANGULAR': {
+      const angle = angleOf(toPixels(start, end));
+      return `conic-gradient(from ${degrees(angle)}deg at ${round(start.x * 100)}% ${round(start.y * 100)}%, ${stopList(stops.map(stop => stop.position))})`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert the fills above the background color to background-image layers, topmost first,
+ * with their blend modes. Solid fills become flat gradients so they can sit over the others.
+ * Image fills are left out: the exported image is added as the bottom layer.
+ */
+export function extractBackgroundLayers(
+  fills: Paint[] | undefined,
+  width: number,
+  height: number
+): Pick<ProcessedNode['styles'], 'backgroundImage' | 'backgroundBlendMode'> {
+  const images: string[] = [];
+  const blendModes: string[] = [];
+  let imageBlendMode: string | undefined;
+
+  splitFills(fills).layers.forEach(fill => {
+    const blendMode = convertBlendMode(fill.blendMode, true) || 'normal';
+    if (fill.type === 'IMAGE') {
+      if (fill.imageRef && imageBlendMode === undefined) imageBlendMode = blendMode;
+      return;
+    }
+    const color = fill.type === 'SOLID' ? stackedColor([fill]) : undefined;
+    const image = color ? `linear-gradient(${color}, ${color})` : gradientToCSS(fill, width, height);
+    if (image) {
+      images.unshift(image);
+      blendModes.unshift(blendMode);
+    }
+  });
+  if (imageBlendMode) blendModes.push(imageBlendMode);
+
+  const styles: Pick<ProcessedNode['styles'], 'backgroundImage' | 'backgroundBlendMode'> = {};
+  if (images.length > 0) styles.backgroundImage = images.join(', ');
+  if (blendModes.some(mode => mode !== 'normal')) styles.backgroundBlendMode = blendModes.join(', ');
+  return styles;
 }
 
 /**
@@ -91,6 +373,9 @@ export function convertLayoutMode(layoutMode: string | undefined): {
   if (!layoutMode || layoutMode === 'NONE') {
     return { display: 'block' };
   }
+  if (layoutMode === 'GRID') {
+    return { display: 'grid' };
+  }
   
   return {
     display: 'flex',
@@ -116,17 +401,14 @@ export function convertAlignment(
     if (primaryAxisAlignItems) {
       result.justifyContent = convertAlignmentValue(primaryAxisAlignItems);
     }
-    if (counterAxisAlignItems) {
-      result.alignItems = convertAlignmentValue(counterAxisAlignItems);
-    }
+    // Figma leaves out its default, MIN, but flex would stretch children across the axis
+    result.alignItems = convertAlignmentValue(counterAxisAlignItems || 'MIN');
   } else if (layoutMode === 'VERTICAL') {
-    // In vertical layout, primary axis is vertical
+    // In vertical layout, primary axis is vertical, which is the main axis of a column
     if (primaryAxisAlignItems) {
-      result.alignItems = convertAlignmentValue(primaryAxisAlignItems);
-    }
-    if (counterAxisAlignItems) {
-      result.justifyContent = convertAlignmentValue(counterAxisAlignItems);
+      result.justifyContent = convertAlignmentValue(primaryAxisAlignItems);
     }
+    result.alignItems = convertAlignmentValue(counterAxisAlignItems || 'MIN');
   }
   
   return result;
@@ -149,6 +431,8 @@ function convertAlignmentValue(alignment: string): string {
       return 'space-around';
     case 'SPACE_EVENLY':
       return 'space-evenly';
+    case 'BASELINE':
+      return 'baseline';
     default:
       return 'flex-start';
   }
@@ -174,6 +458,232 @@ export function convertTextAlign(textAlign: string | undefined): string | undefi
   }
 }
 
+/**
+ * Convert Figma text decoration to CSS text-decoration
+ */
+export function convertTextDecoration(textDecoration: string | undefined): string | undefined {
+  switch (textDecoration) {
+    case 'UNDERLINE':
+      return 'underline';
+    case 'STRIKETHROUGH':
+      return 'line-through';
+    case 'NONE':
+      return 'none';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert Figma text case to CSS text-transform. Small caps have no transform equivalent.
+ */
+export function convertTextCase(textCase: string | undefined): string | undefined {
+  switch (textCase) {
+    case 'UPPER':
+      return 'uppercase';
+    case 'LOWER':
+      return 'lowercase';
+    case 'TITLE':
+      return 'capitalize';
+    case 'ORIGINAL':
+      return 'none';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert Figma's small caps text cases to CSS font-variant-caps
+ */
+export function convertSmallCaps(textCase: string | undefined): string | undefined {
+  switch (textCase) {
+    case 'SMALL_CAPS':
+      return 'small-caps';
+    case 'SMALL_CAPS_FORCED':
+      return 'all-small-caps';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * CSS line-height of a text style: pixels, or a ratio when it's set as a percentage of
+ * the font size. Auto line height is left to the font.
+ */
+export function convertLineHeight(style: TypeStyle): string | undefined {
+  switch (style.lineHeightUnit) {
+    case 'INTRINSIC_%':
+      return undefined;
+    case 'FONT_SIZE_%':
+      return style.lineHeightPercentFontSize ? `${round(style.lineHeightPercentFontSize / 100)}` : undefined;
+    default:
+      return style.lineHeightPx ? `${round(style.lineHeightPx)}px` : undefined;
+  }
+}
+
+/**
+ * CSS font-feature-settings for the OpenType features a text style turns on or off
+ */
+export function convertOpenTypeFlags(flags: Record<string, number> | undefined): string | undefined {
+  const tags = Object.keys(flags || {});
+  return tags.length > 0 ? tags.map(tag => `"${tag.toLowerCase()}" ${flags![tag]}`).join(', ') : undefined;
+}
+
+/**
+ * Convert Figma vertical text alignment to align-content, which places the lines of a
+ * fixed-height block. Top is the default.
+ */
+export function convertTextAlignVertical(textAlignVertical: string | undefined): string | undefined {
+  switch (textAlignVertical) {
+    case 'CENTER':
+      return 'center';
+    case 'BOTTOM':
+      return 'flex-end';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Lines a fixed-height text box shows before an ellipsis: Figma's max lines when it
+ * truncates, otherwise as many as fit the box
+ */
+function textLineClamp(node: FigmaNode): number | undefined {
+  const style = node.style || {};
+  if (style.textTruncation === 'ENDING' && style.maxLines) return style.maxLines;
+
+  const height = node.absoluteBoundingBox?.height;
+  const lineHeight = style.lineHeightPx || (style.fontSize ? style.fontSize * 1.2 : undefined);
+  return height && lineHeight ? Math.max(1, Math.floor((height + 1) / lineHeight)) : undefined;
+}
+
+/**
+ * URL a text hyperlink points to; links to other nodes are left to prototype handling
+ */
+function hyperlinkHref(hyperlink: Hyperlink | undefined): string | undefined {
+  return hyperlink && hyperlink.type === 'URL' ? hyperlink.url : undefined;
+}
+
+/**
+ * Node a text hyperlink points to, for links between frames of a flow
+ */
+function hyperlinkNodeId(hyperlink: Hyperlink | undefined): string | undefined {
+  return hyperlink && hyperlink.type === 'NODE' ? hyperlink.nodeID : undefined;
+}
+
+/**
+ * Styles of an override that differ from the text node's own styles
+ */
+function textRunStyles(override: TypeStyle, base: ProcessedNode['styles']): TextRun['styles'] {
+  const styles: TextRun['styles'] = {};
+
+  if (override.fontWeight !== undefined && override.fontWeight !== base.fontWeight) {
+    styles.fontWeight = override.fontWeight;
+  }
+
+  const color = extractTextColor(override);
+  if (color && color !== base.color) {
+    styles.color = color;
+  }
+
+  const textDecoration = convertTextDecoration(override.textDecoration);
+  if (textDecoration && textDecoration !== (base.textDecoration || 'none')) {
+    styles.textDecoration = textDecoration;
+  }
+
+  const textTransform = convertTextCase(override.textCase);
+  if (textTransform && textTransform !== (base.textTransform || 'none')) {
+    styles.textTransform = textTransform;
+  }
+
+  return styles;
+}
+
+/**
+ * Split a text node into runs using its per-character style overrides. Returns
+ * undefined when the whole text shares one style and no link.
+ */
+export function extractTextRuns(node: FigmaNode, base: ProcessedNode['styles']): TextRun[] | undefined {
+  const characters = node.characters || '';
+  if (!characters) return undefined;
+
+  // Characters past the end of the override list use the node style (override 0)
+  const overrides = node.characterStyleOverrides || [];
+  const table = node.styleOverrideTable || {};
+  const baseHref = hyperlinkHref(node.style?.hyperlink);
+  const baseNodeId = hyperlinkNodeId(node.style?.hyperlink);
+
+  const runs: TextRun[] = [];
+  let start = 0;
+  for (let i = 1; i <= characters.length; i++) {
+    if (i < characters.length && (overrides[i] || 0) === (overrides[start] || 0)) continue;
+
+    const override = table[String(overrides[start] || 0)] || {};
+    const run: TextRun = { text: characters.slice(start, i), styles: textRunStyles(override, base) };
+    const href = hyperlinkHref(override.hyperlink) || baseHref;
+    if (href) run.href = href;
+    const nodeId = hyperlinkNodeId(override.hyperlink) || (href ? undefined : baseNodeId);
+    if (nodeId) run.nodeId = nodeId;
+
+    // Overrides of properties we don't map leave neighbouring runs identical
+    const previous = runs[runs.length - 1];
+    if (previous && previous.href === run.href && previous.nodeId === run.nodeId && JSON.stringify(previous.styles) === JSON.stringify(run.styles)) {
+      previous.text += run.text;
+    } else {
+      runs.push(run);
+    }
+    start = i;
+  }
+
+  const plain = runs.length === 1 && !runs[0].href && !runs[0].nodeId && Object.keys(runs[0].styles).length === 0;
+  return plain ? undefined : runs;
+}
+
+/**
+ * Click interaction of a node from its prototype reactions. Hover and timed
+ * interactions have no equivalent in the generated routes and are ignored.
+ */
+export function extractInteraction(node: FigmaNode): Interaction | undefined {
+  const clicks = (node.reactions || []).filter(reaction =>
+    !reaction.trigger || reaction.trigger.type === 'ON_CLICK' || reaction.trigger.type === 'ON_PRESS'
+  );
+  const actions: PrototypeAction[] = [];
+  clicks.forEach(reaction => {
+    (reaction.actions || (reaction.action ? [reaction.action] : [])).forEach(action => actions.push(action));
+  });
+
+  for (const action of actions) {
+    if (action.type === 'BACK') return { kind: 'back' };
+    if (action.type === 'CLOSE') return { kind: 'close' };
+    if (action.type === 'URL' && action.url) return { kind: 'url', url: action.url };
+    if (action.type === 'NODE' && action.destinationId) {
+      switch (action.navigation) {
+        case 'OVERLAY':
+        case 'SWAP':
+          return { kind: 'overlay', destinationId: action.destinationId };
+        case 'SCROLL_TO':
+        case 'CHANGE_TO':
+          continue; // Stay on the same route
+        default:
+          return { kind: 'navigate', destinationId: action.destinationId };
+      }
+    }
+  }
+
+  // Files saved before reactions only record where a click goes
+  return actions.length === 0 && node.transitionNodeID ?
+    { kind: 'navigate', destinationId: node.transitionNodeID } :
+    undefined;
+}
+
+/**
+ * JSON of processed nodes as sent to a model or hashed for reuse. Canvas positions are left
+ * out: dragging a frame changes them without changing the code generated from it.
+ */
+export function nodesToJSON(nodes: ProcessedNode | ProcessedNode[], space?: number): string {
+  return JSON.stringify(nodes, (key, value) => key === 'absoluteBoundingBox' ? undefined : value, space);
+}
+
 /**
  * Generate a clean component name from Figma node name
  */
@@ -195,7 +705,7 @@ export function shouldTreatAsComponent(node: FigmaNode): boolean {
   // 2. It's a frame with multiple children that looks reusable
   // 3. It has a name that suggests it's a component (starts with uppercase)
   
-  if (node.type === 'COMPONENT' || node.type === 'INSTANCE') {
+  if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET' || node.type === 'INSTANCE') {
     return true;
   }
   
@@ -208,10 +718,376 @@ export function shouldTreatAsComponent(node: FigmaNode): boolean {
   return false;
 }
 
+// Prop names generated components already use for something else
+const RESERVED_PROP_NAMES = ['className', 'children', 'key', 'ref', 'style'];
+
+/**
+ * Turn a component property or layer name into a camelCase prop name, dropping the
+ * "#<id>" suffix of property names
+ */
+export function toPropName(figmaName: string, usedNames: string[]): string {
+  const words = figmaName.replace(/#[^#]*$/, '').replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  let name = words
+    .map((word, i) => i === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  if (!/^[a-zA-Z]/.test(name)) name = `prop${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+  if (RESERVED_PROP_NAMES.indexOf(name) !== -1) name = `${name}Prop`;
+
+  let unique = name;
+  for (let counter = 2; usedNames.indexOf(unique) !== -1; counter++) {
+    unique = `${name}${counter}`;
+  }
+  usedNames.push(unique);
+  return unique;
+}
+
+/**
+ * Read the variant properties from a variant's name, e.g. "Size=Small, State=Hover"
+ */
+export function parseVariantName(name: string): Record<string, string> {
+  const variant: Record<string, string> = {};
+  name.split(',').forEach(part => {
+    const separator = part.indexOf('=');
+    if (separator > 0) {
+      variant[part.slice(0, separator).trim()] = part.slice(separator + 1).trim();
+    }
+  });
+  return variant;
+}
+
+/**
+ * Typed props of a component set or component from its property definitions. Sets
+ * without definitions, as in older files, get variant props from their variants' names.
+ */
+export function extractComponentProps(node: FigmaNode): ComponentProp[] | undefined {
+  const definitions = { ...node.componentPropertyDefinitions };
+
+  if (node.type === 'COMPONENT_SET') {
+    (node.children || []).forEach(child => {
+      Object.entries(parseVariantName(child.name)).forEach(([property, option]) => {
+        if (node.componentPropertyDefinitions && node.componentPropertyDefinitions[property]) return;
+        const definition = definitions[property] || (definitions[property] = { type: 'VARIANT', defaultValue: option, variantOptions: [] });
+        if (definition.variantOptions && definition.variantOptions.indexOf(option) === -1) {
+          definition.variantOptions.push(option);
+        }
+      });
+    });
+  }
+
+  const usedNames: string[] = [];
+  const props = Object.entries(definitions).map(([figmaName, definition]): ComponentProp => {
+    const name = toPropName(figmaName, usedNames);
+    switch (definition.type) {
+      case 'VARIANT': {
+        const options = definition.variantOptions || [];
+        const isBoolean = options.length === 2 &&
+          options.map(option => option.toLowerCase()).sort().join(',') === 'false,true';
+        return isBoolean ?
+          { name, figmaName, type: 'boolean', options: ['true', 'false'], defaultValue: String(definition.defaultValue).toLowerCase() === 'true' } :
+          { name, figmaName, type: 'variant', options, defaultValue: String(definition.defaultValue) };
+      }
+      case 'BOOLEAN':
+        return { name, figmaName, type: 'boolean', defaultValue: definition.defaultValue === true };
+      case 'TEXT':
+        return { name, figmaName, type: 'text', defaultValue: String(definition.defaultValue) };
+      default:
+        return { name, figmaName, type: 'slot' };
+    }
+  });
+
+  return props.length > 0 ? props : undefined;
+}
+
+const VECTOR_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'REGULAR_POLYGON'];
+const ICON_CONTAINER_TYPES = ['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE'];
+const ICON_MAX_SIZE = 64;
+
+/**
+ * Check whether a node is drawn with vector paths CSS can't reproduce: vector shapes,
+ * and small or icon-named containers holding nothing but shapes
+ */
+export function isVectorGraphic(node: FigmaNode): boolean {
+  if (VECTOR_TYPES.indexOf(node.type) !== -1) return true;
+  if (ICON_CONTAINER_TYPES.indexOf(node.type) === -1 || !node.children || node.children.length === 0) return false;
+
+  const box = node.absoluteBoundingBox;
+  const iconSized = !!box && box.width <= ICON_MAX_SIZE && box.height <= ICON_MAX_SIZE;
+  if (!iconSized && !/icon/i.test(node.name)) return false;
+
+  const visibleChildren = node.children.filter(child => child.visible !== false);
+  return visibleChildren.some(isVectorGraphic) &&
+    visibleChildren.every(child => isVectorGraphic(child) || ['ELLIPSE', 'RECTANGLE', 'LINE'].indexOf(child.type) !== -1);
+}
+
+/**
+ * Decide whether a node needs an exported asset. Image fills on leaves export the
+ * node itself so crops and filters are kept; on containers the original image
+ * becomes the background.
+ */
+export function detectAsset(node: FigmaNode): ProcessedAsset | undefined {
+  if (isVectorGraphic(node)) {
+    return { kind: 'vector' };
+  }
+
+  const imageFill = node.fills?.find(fill => fill.type === 'IMAGE' && fill.visible !== false && fill.imageRef);
+  if (!imageFill) return undefined;
+
+  return node.children && node.children.length > 0 ?
+    { kind: 'image', imageRef: imageFill.imageRef } :
+    { kind: 'image' };
+}
+
+/**
+ * CSS background sizing for an image fill's scale mode
+ */
+function imageFillBackground(paint: Paint): Pick<ProcessedNode['styles'], 'backgroundSize' | 'backgroundPosition' | 'backgroundRepeat'> {
+  switch (paint.scaleMode) {
+    case 'FIT':
+      return { backgroundSize: 'contain', backgroundPosition: 'center', backgroundRepeat: 'no-repeat' };
+    case 'TILE':
+      return { backgroundRepeat: 'repeat' };
+    case 'STRETCH':
+      return { backgroundSize: '100% 100%', backgroundRepeat: 'no-repeat' };
+    default:
+      return { backgroundSize: 'cover', backgroundPosition: 'center', backgroundRepeat: 'no-repeat' };
+  }
+}
+
+// Containers whose children keep their design positions when they don't use auto-layout
+const FREEFORM_PARENT_TYPES = ['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE'];
+
+/**
+ * Check whether two boxes share any area
+ */
+function boxesOverlap(a: Rectangle, b: Rectangle): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Check whether a node lays out its children with auto-layout
+ */
+function isAutoLayout(node: FigmaNode | undefined): boolean {
+  return !!node && (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL');
+}
+
+/**
+ * Check whether a node takes part in its parent's auto-layout flow
+ */
+function isAutoLayoutChild(node: FigmaNode, parent: FigmaNode | undefined): boolean {
+  return isAutoLayout(parent) && node.layoutPositioning !== 'ABSOLUTE';
+}
+
+/**
+ * Resolve Figma's fixed/hug/fill sizing for both axes of a node
+ */
+export function resolveSizing(node: FigmaNode, parent?: FigmaNode): { horizontal: SizingMode; vertical: SizingMode } {
+  const resolveAxis = (explicit: string | undefined, horizontal: boolean): SizingMode => {
+    // Newer files state the sizing directly
+    if (explicit === 'FIXED' || explicit === 'HUG' || explicit === 'FILL') {
+      return explicit.toLowerCase() as SizingMode;
+    }
+
+    // Fill: grow along the parent's primary axis, stretch across its counter axis
+    if (isAutoLayoutChild(node, parent)) {
+      const alongParentPrimary = (parent!.layoutMode === 'HORIZONTAL') === horizontal;
+      if (alongParentPrimary ? node.layoutGrow === 1 : node.layoutAlign === 'STRETCH') {
+        return 'fill';
+      }
+    }
+
+    // Hug: auto-layout frames sized by their content (AUTO is the API default)
+    if (isAutoLayout(node)) {
+      const alongPrimary = (node.layoutMode === 'HORIZONTAL') === horizontal;
+      const mode = alongPrimary ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+      if (!mode || mode === 'AUTO') {
+        return 'hug';
+      }
+    }
+
+    // Auto-resizing text hugs its content
+    const autoResize = node.style?.textAutoResize;
+    if (node.type === 'TEXT' && (autoResize === 'WIDTH_AND_HEIGHT' || (!horizontal && autoResize === 'HEIGHT'))) {
+      return 'hug';
+    }
+
+    return 'fixed';
+  };
+
+  return {
+    horizontal: resolveAxis(node.layoutSizingHorizontal, true),
+    vertical: resolveAxis(node.layoutSizingVertical, false),
+  };
+}
+
+/**
+ * Clockwise rotation of a node in degrees from its relative transform, 0 when it isn't rotated
+ */
+export function rotationDegrees(node: FigmaNode): number {
+  const matrix = node.relativeTransform;
+  if (!matrix) return 0;
+  const degrees = round((Math.atan2(matrix[1][0], matrix[0][0]) * 180) / Math.PI);
+  return Math.abs(degrees) < 0.01 ? 0 : degrees;
+}
+
+/**
+ * A rotated node's box before rotation, centered where its bounding box is. The size comes
+ * from the node's size when the file has it, otherwise from its bounding box and rotation.
+ */
+export function unrotatedBox(node: FigmaNode, degrees: number): Rectangle {
+  const box = node.absoluteBoundingBox!;
+  const cos = Math.abs(Math.cos((degrees * Math.PI) / 180));
+  const sin = Math.abs(Math.sin((degrees * Math.PI) / 180));
+
+  let width = node.size?.x;
+  let height = node.size?.y;
+  if (width === undefined || height === undefined) {
+    // The bounding box is w·cos + h·sin wide and w·sin + h·cos high; near 45° that can't be solved, so assume a square
+    const determinant = cos * cos - sin * sin;
+    if (Math.abs(determinant) < 0.01) {
+      width = height = box.width / (cos + sin);
+    } else {
+      width = (box.width * cos - box.height * sin) / determinant;
+      height = (box.height * cos - box.width * sin) / determinant;
+    }
+  }
+
+  return {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Position an absolutely placed node inside its parent from its constraints. Groups don't
+ * lay out their children, they resize them with themselves, so group children scale.
+ */
+export function constraintPosition(node: FigmaNode, parent: FigmaNode, box: Rectangle = node.absoluteBoundingBox!): {
+  inset: NonNullable<ProcessedNode['styles']['inset']>;
+  transform?: string;
+  stretchHorizontal: boolean;
+  stretchVertical: boolean;
+} {
+  const parentBox = parent.absoluteBoundingBox!;
+  const constraints = parent.type === 'GROUP' ? { horizontal: 'SCALE', vertical: 'SCALE' } : node.constraints;
+  const inset: NonNullable<ProcessedNode['styles']['inset']> = {};
+
+  // Place one axis, returning whether the node stretches or centers along it
+  const placeAxis = (
+    constraint: string | undefined,
+    start: number,
+    size: number,
+    parentSize: number,
+    startSide: 'left' | 'top',
+    endSide: 'right' | 'bottom'
+  ): { stretch: boolean; center: boolean } => {
+    const end = parentSize - start - size;
+    switch (constraint) {
+      case 'RIGHT':
+      case 'BOTTOM':
+        inset[endSide] = `${round(end)}px`;
+        return { stretch: false, center: false };
+      case 'CENTER':
+        // Keep the offset from the parent's center
+        inset[startSide] = `calc(50% + ${round(start + size / 2 - parentSize / 2)}px)`;
+        return { stretch: false, center: true };
+      case 'LEFT_RIGHT':
+      case 'TOP_BOTTOM':
+        inset[startSide] = `${round(start)}px`;
+        inset[endSide] = `${round(end)}px`;
+        return { stretch: true, center: false };
+      case 'SCALE':
+        inset[startSide] = `${round((start / parentSize) * 100)}%`;
+        inset[endSide] = `${round((end / parentSize) * 100)}%`;
+        return { stretch: true, center: false };
+      default:
+        inset[startSide] = `${round(start)}px`;
+        return { stretch: false, center: false };
+    }
+  };
+
+  const horizontal = placeAxis(
+    constraints?.horizontal, box.x - parentBox.x, box.width, parentBox.width, 'left', 'right'
+  );
+  const vertical = placeAxis(
+    constraints?.vertical, box.y - parentBox.y, box.height, parentBox.height, 'top', 'bottom'
+  );
+
+  const transform = horizontal.center || vertical.center ?
+    `translate(${horizontal.center ? '-50%' : '0'}, ${vertical.center ? '-50%' : '0'})` :
+    undefined;
+  return { inset, transform, stretchHorizontal: horizontal.stretch, stretchVertical: vertical.stretch };
+}
+
+/**
+ * Token names for the CSS properties a node binds to published styles or variables.
+ * Variables win over styles because they are the more specific binding.
+ */
+export function extractTokenReferences(node: FigmaNode, tokens: DesignTokenSet): Record<string, string> | undefined {
+  const references: Record<string, string> = {};
+  const isText = node.type === 'TEXT';
+
+  const styleToken = (...kinds: string[]) => {
+    const kind = kinds.find(k => node.styles?.[k] && tokens.styleTokens[node.styles[k]]);
+    return kind ? tokens.styleTokens[node.styles![kind]] : undefined;
+  };
+  const variableToken = (alias: VariableAlias | VariableAlias[] | undefined) => {
+    const first = Array.isArray(alias) ? alias[0] : alias;
+    return first ? tokens.variableTokens[first.id] : undefined;
+  };
+  // A color variable only stands in for a single solid paint drawn at full opacity
+  const paintToken = (paints: Paint[] | undefined) => {
+    const drawn = (paints || []).filter(isDrawnPaint);
+    return drawn.length === 1 && drawn[0].type === 'SOLID' && (drawn[0].opacity ?? 1) === 1 ?
+      variableToken(drawn[0].boundVariables?.color) :
+      undefined;
+  };
+
+  const fill = paintToken(node.fills) || styleToken('fill', 'fills');
+  if (fill) references[isText ? 'color' : 'background-color'] = fill;
+
+  const stroke = paintToken(node.strokes) || styleToken('stroke', 'strokes');
+  if (stroke && !isText) references['border-color'] = stroke;
+
+  const effect = styleToken('effect', 'effects');
+  if (effect) references[isText ? 'text-shadow' : 'box-shadow'] = effect;
+
+  const text = styleToken('text');
+  const typography = text && tokens.tokens.find(token => token.name === text);
+  if (isText && typography && typeof typography.value === 'object') {
+    Object.keys(typography.value).forEach(property => {
+      const cssProperty = property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+      references[cssProperty] = `${text}-${cssProperty}`;
+    });
+  }
+
+  const bound = node.boundVariables || {};
+  const spacing: Record<string, string> = {
+    itemSpacing: 'gap',
+    counterAxisSpacing: 'row-gap',
+    paddingTop: 'padding-top',
+    paddingRight: 'padding-right',
+    paddingBottom: 'padding-bottom',
+    paddingLeft: 'padding-left',
+  };
+  Object.keys(spacing).forEach(property => {
+    const token = variableToken(bound[property]);
+    if (token) references[spacing[property]] = token;
+  });
+
+  // CSS has one border-radius value, so only a radius bound on every corner maps to a token
+  const corners = ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius'].map(corner => variableToken(bound[corner]));
+  const radius = variableToken(bound.cornerRadius) || (corners.every(corner => corner && corner === corners[0]) ? corners[0] : undefined);
+  if (radius) references['border-radius'] = radius;
+
+  return Object.keys(references).length > 0 ? references : undefined;
+}
+
 /**
  * Process a Figma node tree into our simplified format
  */
-export function processNode(node: FigmaNode): ProcessedNode {
+export function processNode(node: FigmaNode, parent?: FigmaNode, tokens?: DesignTokenSet): ProcessedNode {
   const processed: ProcessedNode = {
     id: node.id,
     name: node.name,
@@ -228,16 +1104,119 @@ export function processNode(node: FigmaNode): ProcessedNode {
     processed.componentName = generateComponentName(node.name);
   }
 
-  // Extract dimensions
+  // Component properties become typed props; each variant records its options
+  if (node.type === 'COMPONENT_SET' || node.type === 'COMPONENT') {
+    const componentProps = extractComponentProps(node);
+    if (componentProps) {
+      processed.componentProps = componentProps;
+    }
+  }
+  if (node.type === 'COMPONENT' && parent?.type === 'COMPONENT_SET') {
+    const setProps = extractComponentProps(parent) || [];
+    const variant: Record<string, string> = {};
+    Object.entries(parseVariantName(node.name)).forEach(([property, option]) => {
+      const prop = setProps.find(p => p.figmaName === property);
+      // Boolean variants are keyed "true" and "false" whatever their case in Figma
+      if (prop) variant[prop.name] = prop.type === 'boolean' ? option.toLowerCase() : option;
+    });
+    processed.variant = variant;
+  }
+  if (node.componentPropertyReferences) {
+    processed.propertyReferences = { ...node.componentPropertyReferences };
+  }
+  if (node.type === 'INSTANCE' && node.componentId) {
+    processed.componentId = node.componentId;
+    if (node.overrides && node.overrides.length > 0) {
+      const overrides: Record<string, string[]> = {};
+      node.overrides.forEach(override => { overrides[override.id] = override.overriddenFields; });
+      processed.overrides = overrides;
+    }
+  }
+
+  // Extract dimensions and how they respond to the layout
   if (node.absoluteBoundingBox) {
+    processed.absoluteBoundingBox = { ...node.absoluteBoundingBox };
     processed.styles.width = node.absoluteBoundingBox.width;
     processed.styles.height = node.absoluteBoundingBox.height;
+    processed.styles.sizing = resolveSizing(node, parent);
   }
+  if (node.minWidth) processed.styles.minWidth = node.minWidth;
+  if (node.maxWidth) processed.styles.maxWidth = node.maxWidth;
+  if (node.minHeight) processed.styles.minHeight = node.minHeight;
+  if (node.maxHeight) processed.styles.maxHeight = node.maxHeight;
 
-  // Extract background color
-  const backgroundColor = extractBackgroundColor(node.fills);
-  if (backgroundColor) {
-    processed.styles.backgroundColor = backgroundColor;
+  // Behavior as a child of an auto-layout frame
+  if (parent && isAutoLayoutChild(node, parent) && processed.styles.sizing) {
+    const parentHorizontal = parent.layoutMode === 'HORIZONTAL';
+    const primary = parentHorizontal ? processed.styles.sizing.horizontal : processed.styles.sizing.vertical;
+    const counter = parentHorizontal ? processed.styles.sizing.vertical : processed.styles.sizing.horizontal;
+
+    if (primary === 'fill') {
+      processed.styles.flexGrow = 1;
+      processed.styles.flexBasis = 0;
+    } else {
+      // Figma never shrinks fixed or hugging children to fit
+      processed.styles.flexShrink = 0;
+    }
+    if (counter === 'fill') {
+      processed.styles.alignSelf = 'stretch';
+    }
+  }
+
+  // Graphics exported whole carry their paints and effects in the asset
+  const asset = detectAsset(node);
+  const exportedWhole = !!asset && !asset.imageRef;
+  if (asset) {
+    processed.asset = asset;
+  }
+
+  // Children of frames and groups without auto-layout, and children taken out of an
+  // auto-layout flow, are placed from their constraints
+  const freeform = !!parent && FREEFORM_PARENT_TYPES.indexOf(parent.type) !== -1 && !isAutoLayout(parent) && parent.layoutMode !== 'GRID';
+  if (parent && (freeform || node.layoutPositioning === 'ABSOLUTE') && node.absoluteBoundingBox && parent.absoluteBoundingBox) {
+    // Exported graphics are rendered rotated already
+    const rotation = exportedWhole ? 0 : rotationDegrees(node);
+    const box = rotation ? unrotatedBox(node, rotation) : node.absoluteBoundingBox;
+    const position = constraintPosition(node, parent, box);
+    processed.styles.position = 'absolute';
+    processed.styles.inset = position.inset;
+    if (rotation) {
+      processed.styles.width = round(box.width);
+      processed.styles.height = round(box.height);
+    }
+    const transforms = [position.transform, rotation ? `rotate(${rotation}deg)` : undefined].filter(Boolean);
+    if (transforms.length > 0) {
+      processed.styles.transform = transforms.join(' ');
+    }
+    if (processed.styles.sizing) {
+      processed.styles.sizing = {
+        horizontal: position.stretchHorizontal ? 'fill' : processed.styles.sizing.horizontal,
+        vertical: position.stretchVertical ? 'fill' : processed.styles.sizing.vertical,
+      };
+    }
+  }
+
+  // Extract fills; on text they color the glyphs rather than a background
+  if (node.type !== 'TEXT' && !exportedWhole) {
+    const backgroundColor = extractBackgroundColor(node.fills);
+    if (backgroundColor) {
+      processed.styles.backgroundColor = backgroundColor;
+    }
+
+    if (node.absoluteBoundingBox) {
+      Object.assign(processed.styles, extractBackgroundLayers(node.fills, node.absoluteBoundingBox.width, node.absoluteBoundingBox.height));
+    }
+
+    // The image itself is added to backgroundImage once exported
+    const imageFill = asset?.imageRef && node.fills?.find(fill => fill.imageRef === asset.imageRef);
+    if (imageFill) {
+      Object.assign(processed.styles, imageFillBackground(imageFill));
+    }
+  }
+
+  // Extract strokes, shadows and blurs
+  if (!exportedWhole) {
+    Object.assign(processed.styles, extractStrokeStyles(node), extractEffectStyles(node));
   }
 
   // Extract border radius
@@ -255,8 +1234,13 @@ export function processNode(node: FigmaNode): ProcessedNode {
     };
   }
 
+  // Grid auto-layout, and children laid out on a column layout grid, become CSS Grid
+  const grid = gridAutoLayout(node) || (isAutoLayout(node) ? undefined : inferGridLayout(node));
+
   // Extract layout properties
-  if (node.layoutMode) {
+  if (grid) {
+    Object.assign(processed.styles, grid.container);
+  } else if (node.layoutMode) {
     const layoutStyles = convertLayoutMode(node.layoutMode);
     processed.styles.display = layoutStyles.display;
     processed.styles.flexDirection = layoutStyles.flexDirection;
@@ -269,9 +1253,20 @@ export function processNode(node: FigmaNode): ProcessedNode {
     processed.styles.alignItems = alignmentStyles.alignItems;
     processed.styles.justifyContent = alignmentStyles.justifyContent;
 
-    if (node.itemSpacing) {
+    // Space-between distributes children itself, the item spacing only applies otherwise
+    if (node.itemSpacing && node.primaryAxisAlignItems !== 'SPACE_BETWEEN') {
       processed.styles.gap = node.itemSpacing;
     }
+
+    if (node.layoutWrap === 'WRAP') {
+      processed.styles.flexWrap = 'wrap';
+      if (node.counterAxisSpacing !== undefined) {
+        processed.styles.rowGap = node.counterAxisSpacing;
+      }
+      if (node.counterAxisAlignContent === 'SPACE_BETWEEN') {
+        processed.styles.alignContent = 'space-between';
+      }
+    }
   }
 
   // Extract text content and styles
@@ -282,12 +1277,60 @@ export function processNode(node: FigmaNode): ProcessedNode {
       processed.styles.fontSize = node.style.fontSize;
       processed.styles.fontWeight = node.style.fontWeight;
       processed.styles.fontFamily = node.style.fontFamily;
+      if (node.style.fontPostScriptName) {
+        processed.styles.fontPostScriptName = node.style.fontPostScriptName;
+      }
       processed.styles.textAlign = convertTextAlign(node.style.textAlignHorizontal);
-      
-      const textColor = extractTextColor(node.style);
-      if (textColor) {
-        processed.styles.color = textColor;
+
+      if (node.style.italic || /italic|oblique/i.test(node.style.fontPostScriptName || '')) {
+        processed.styles.fontStyle = 'italic';
       }
+      const lineHeight = convertLineHeight(node.style);
+      if (lineHeight) {
+        processed.styles.lineHeight = lineHeight;
+      }
+      if (node.style.letterSpacing) {
+        processed.styles.letterSpacing = round(node.style.letterSpacing);
+      }
+      const fontFeatureSettings = convertOpenTypeFlags(node.style.opentypeFlags);
+      if (fontFeatureSettings) {
+        processed.styles.fontFeatureSettings = fontFeatureSettings;
+      }
+      const fontVariantCaps = convertSmallCaps(node.style.textCase);
+      if (fontVariantCaps) {
+        processed.styles.fontVariantCaps = fontVariantCaps;
+      }
+
+      // Fixed-height boxes place their lines vertically and cut off what doesn't fit
+      if (processed.styles.sizing?.vertical === 'fixed') {
+        const alignContent = convertTextAlignVertical(node.style.textAlignVertical);
+        if (alignContent) {
+          processed.styles.alignContent = alignContent;
+        }
+        const lineClamp = textLineClamp(node);
+        if (lineClamp) {
+          processed.styles.lineClamp = lineClamp;
+        }
+      }
+
+      const textDecoration = convertTextDecoration(node.style.textDecoration);
+      if (textDecoration && textDecoration !== 'none') {
+        processed.styles.textDecoration = textDecoration;
+      }
+      const textTransform = convertTextCase(node.style.textCase);
+      if (textTransform && textTransform !== 'none') {
+        processed.styles.textTransform = textTransform;
+      }
+    }
+
+    const textColor = extractTextColor(node.style) || stackedColor(node.fills || []);
+    if (textColor) {
+      processed.styles.color = textColor;
+    }
+
+    const textRuns = extractTextRuns(node, processed.styles);
+    if (textRuns) {
+      processed.textRuns = textRuns;
     }
   }
 
@@ -303,14 +1346,78 @@ export function processNode(node: FigmaNode): ProcessedNode {
     }
   }
 
-  // Extract opacity
+  // Prototype click behaviour, followed by flow generation
+  const interaction = extractInteraction(node);
+  if (interaction) {
+    processed.interaction = interaction;
+  }
+
+  // Extract opacity and how the node blends with what's behind it
   if (node.opacity !== undefined && node.opacity !== 1) {
     processed.styles.opacity = node.opacity;
   }
+  const mixBlendMode = convertBlendMode(node.blendMode);
+  if (mixBlendMode) {
+    processed.styles.mixBlendMode = mixBlendMode;
+  }
 
-  // Process children
-  if (node.children && node.children.length > 0) {
-    processed.children = node.children.map(child => processNode(child));
+  // Frames clip their children to their edges
+  if (node.clipsContent && node.children && node.children.length > 0 && !exportedWhole) {
+    processed.styles.overflow = 'hidden';
+  }
+
+  // Design tokens the node's values come from
+  const tokenReferences = tokens && extractTokenReferences(node, tokens);
+  if (tokenReferences) {
+    processed.tokens = tokenReferences;
+  }
+
+  // Process children; vector graphics are exported with theirs
+  if (node.children && node.children.length > 0 && asset?.kind !== 'vector') {
+    processed.children = node.children.map(child => processNode(child, node, tokens));
+
+    // Grid items flow into their cells instead of keeping their design positions
+    if (grid) {
+      processed.children.forEach((child, index) => {
+        const item = grid.items[index];
+        if (!item) return;
+        if (child.styles.position === 'absolute') {
+          delete child.styles.position;
+          delete child.styles.inset;
+          delete child.styles.transform;
+          child.styles.sizing = resolveSizing(node.children![index], node);
+        }
+        if (grid.fillColumns && child.styles.sizing) {
+          child.styles.sizing = { ...child.styles.sizing, horizontal: 'fill' };
+        }
+        Object.assign(child.styles, item);
+      });
+    }
+
+    // Absolutely positioned children are placed against this node
+    if (!processed.styles.position && processed.children.some(child => child.styles.position === 'absolute')) {
+      processed.styles.position = 'relative';
+    }
+
+    // Later siblings paint over earlier ones; positioned children that overlap one say so.
+    // Masks aren't drawn, so nothing needs to paint over them.
+    node.children.forEach((child, index) => {
+      const box = child.absoluteBoundingBox;
+      const overlaps = !!box && node.children!.slice(0, index).some(sibling =>
+        !sibling.isMask && !!sibling.absoluteBoundingBox && boxesOverlap(box, sibling.absoluteBoundingBox)
+      );
+      if (overlaps && processed.children![index].styles.position === 'absolute') {
+        processed.children![index].styles.zIndex = index + 1;
+      }
+    });
+
+    processed.children = applyMasks(node, processed.children);
+
+    // A group or frame that doesn't pass blending through keeps its children's blend modes to itself
+    const blends = processed.children.some(child => !!child.styles.mixBlendMode);
+    if (blends && node.blendMode && node.blendMode !== 'PASS_THROUGH' && !processed.styles.mixBlendMode) {
+      processed.styles.isolation = 'isolate';
+    }
   }
 
   return processed;
@@ -325,6 +1432,11 @@ export function findComponents(node: ProcessedNode): ProcessedNode[] {
   if (node.isComponent) {
     components.push(node);
   }
+
+  // Variants are generated as part of their set
+  if (node.type === 'COMPONENT_SET') {
+    return components;
+  }
   
   if (node.children) {
     node.children.forEach(child => {
@@ -335,30 +1447,6 @@ export function findComponents(node: ProcessedNode): ProcessedNode[] {
   return components;
 }
 
-/**
- * Calculate responsive breakpoints based on frame sizes
- */
-export function calculateBreakpoints(frames: ProcessedNode[]): {
-  mobile: number;
-  tablet: number;
-  desktop: number;
-} {
-  const widths = frames
-    .filter(frame => frame.styles.width)
-    .map(frame => frame.styles.width as number)
-    .sort((a, b) => a - b);
-
-  if (widths.length === 0) {
-    return { mobile: 375, tablet: 768, desktop: 1024 };
-  }
-
-  const mobile = widths[0] || 375;
-  const tablet = widths[Math.floor(widths.length / 2)] || 768;
-  const desktop = widths[widths.length - 1] || 1024;
-
-  return { mobile, tablet, desktop };
-}
-
 /**
  * Extract all text content from a node tree
  */
@@ -426,6 +1514,9 @@ export function analyzeContentType(node: ProcessedNode): string {
  * Count all nested children in a node tree
  */
 export function countAllChildren(node: ProcessedNode): number {
+  // Summaries keep the count of the children they left out
+  if (node.descendantCount !== undefined) return node.descendantCount;
+
   let count = 0;
   
   if (node.children && node.children.length > 0) {
@@ -439,14 +1530,27 @@ export function countAllChildren(node: ProcessedNode): number {
   return count;
 }
 
+/**
+ * Copy a node with its children cut off below the given depth, for listing frames
+ * without shipping whole subtrees. Cut nodes record how many descendants they had.
+ */
+export function summarizeNode(node: ProcessedNode, depth: number): ProcessedNode {
+  if (!node.children || node.children.length === 0) return node;
+  if (depth <= 0) {
+    const { children, ...summary } = node;
+    return { ...summary, descendantCount: countAllChildren(node) };
+  }
+  return { ...node, children: node.children.map(child => summarizeNode(child, depth - 1)) };
+}
+
 /**
  * Extract all frames from a node tree, including nested frames
  */
 export function extractAllFrames(node: ProcessedNode, parentPath: string = ''): ProcessedNode[] {
   const frames: ProcessedNode[] = [];
   
-  // If this node is a frame, include it with enhanced information
-  if (node.type === 'FRAME') {
+  // If this node is a frame or component set, include it with enhanced information
+  if (node.type === 'FRAME' || node.type === 'COMPONENT_SET') {
     const frameCopy = { ...node };
     
     // Add path information for better identification
@@ -466,8 +1570,8 @@ export function extractAllFrames(node: ProcessedNode, parentPath: string = ''):
     frames.push(frameCopy);
   }
   
-  // Recursively search children for more frames
-  if (node.children && node.children.length > 0) {
+  // Recursively search children for more frames; a set's variants are generated with it
+  if (node.children && node.children.length > 0 && node.type !== 'COMPONENT_SET') {
     const currentPath = node.type === 'FRAME' ? 
       (parentPath ? `${parentPath} > ${node.name}` : node.name) : 
       parentPath;
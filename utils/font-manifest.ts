@@ -0,0 +1,243 @@
+import { GeneratedFile, Router } from '../types/codegen';
+import { ProcessedNode } from '../types/figma';
+import { genericFontFamily } from './styles';
+
+/**
+ * A font family the design uses, with every weight and style it's used in
+ */
+export interface ManifestFont {
+  family: string;
+  faces: ManifestFontFace[]; // Normal before italic, lightest first
+  google: boolean; // Served by Google Fonts; other fonts are expected as local files
+  fallback: string; // Generic family
+  variable: string; // Custom property next/font defines the family in, e.g. --font-inter
+}
+
+interface ManifestFontFace {
+  weight: number;
+  style: 'normal' | 'italic';
+  postScriptName?: string;
+}
+
+// Google Fonts families designs commonly use
+const GOOGLE_FONTS = [
+  'Archivo', 'Barlow', 'Cormorant Garamond', 'DM Sans', 'DM Serif Display', 'Figtree', 'Fira Code',
+  'Fira Sans', 'Fraunces', 'IBM Plex Mono', 'IBM Plex Sans', 'IBM Plex Serif', 'Inter', 'JetBrains Mono',
+  'Karla', 'Lato', 'Lexend', 'Libre Baskerville', 'Lora', 'Manrope', 'Merriweather', 'Montserrat', 'Mulish',
+  'Noto Sans', 'Noto Serif', 'Nunito', 'Nunito Sans', 'Open Sans', 'Oswald', 'Outfit', 'Playfair Display',
+  'Plus Jakarta Sans', 'Poppins', 'PT Sans', 'PT Serif', 'Quicksand', 'Raleway', 'Roboto', 'Roboto Mono',
+  'Roboto Slab', 'Rubik', 'Sora', 'Source Code Pro', 'Source Sans 3', 'Source Serif 4', 'Space Grotesk',
+  'Space Mono', 'Urbanist', 'Work Sans',
+];
+
+const WEIGHT_NAMES: Record<number, string> = {
+  100: 'Thin',
+  200: 'ExtraLight',
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'SemiBold',
+  700: 'Bold',
+  800: 'ExtraBold',
+  900: 'Black',
+};
+
+/**
+ * Custom property holding a family loaded with next/font, e.g. "Playfair Display" → --font-playfair-display
+ */
+export function fontVariable(family: string): string {
+  return `--font-${family.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'family'}`;
+}
+
+/**
+ * Every font family used by text below the nodes, with the weights and styles used,
+ * in the order they're first used
+ */
+export function collectFonts(nodes: ProcessedNode[]): ManifestFont[] {
+  const fonts: ManifestFont[] = [];
+
+  const addFace = (family: string, face: ManifestFontFace) => {
+    let font = fonts.find(f => f.family === family);
+    if (!font) {
+      font = {
+        family,
+        faces: [],
+        google: GOOGLE_FONTS.indexOf(family) !== -1,
+        fallback: genericFontFamily(family),
+        variable: fontVariable(family),
+      };
+      fonts.push(font);
+    }
+    const existing = font.faces.find(f => f.weight === face.weight && f.style === face.style);
+    if (!existing) {
+      font.faces.push(face);
+    } else if (!existing.postScriptName && face.postScriptName) {
+      existing.postScriptName = face.postScriptName;
+    }
+  };
+
+  const visit = (node: ProcessedNode) => {
+    const { fontFamily, fontWeight = 400, fontStyle, fontPostScriptName } = node.styles;
+    if (fontFamily) {
+      const style = fontStyle === 'italic' ? 'italic' : 'normal';
+      addFace(fontFamily, { weight: fontWeight, style, postScriptName: fontPostScriptName });
+      // Bold or light runs use other faces of the same family
+      (node.textRuns || []).forEach(run => {
+        if (run.styles.fontWeight) addFace(fontFamily, { weight: run.styles.fontWeight, style });
+      });
+    }
+    (node.children || []).forEach(visit);
+    (node.responsive || []).forEach(variant => visit(variant.node));
+  };
+  nodes.forEach(visit);
+
+  fonts.forEach(font => font.faces.sort((a, b) =>
+    a.style === b.style ? a.weight - b.weight : a.style === 'normal' ? -1 : 1
+  ));
+  return fonts;
+}
+
+/**
+ * File name a local font face is expected under, e.g. Circular-BoldItalic
+ */
+function fontFileName(family: string, face: ManifestFontFace): string {
+  if (face.postScriptName) return face.postScriptName;
+  const italic = face.style === 'italic';
+  const weight = italic && face.weight === 400 ? '' : WEIGHT_NAMES[face.weight] || `${face.weight}`;
+  return `${family.replace(/\s+/g, '')}-${weight}${italic ? 'Italic' : ''}`;
+}
+
+/**
+ * Google Fonts stylesheet URL loading the faces of the given families
+ */
+function googleFontsURL(fonts: ManifestFont[]): string {
+  const families = fonts.map(font => {
+    const name = font.family.replace(/\s+/g, '+');
+    const italic = font.faces.some(face => face.style === 'italic');
+    const tuples = font.faces.map(face => italic ? `${face.style === 'italic' ? 1 : 0},${face.weight}` : `${face.weight}`);
+    return `family=${name}:${italic ? 'ital,' : ''}wght@${tuples.join(';')}`;
+  });
+  return `https://fonts.googleapis.com/css2?${families.join('&')}&display=swap`;
+}
+
+/**
+ * Stylesheet loading the fonts: an import of the Google Fonts ones, and @font-face
+ * rules for the rest pointing at files in fonts/
+ */
+export function fontFaceCSS(fonts: ManifestFont[]): string {
+  const google = fonts.filter(font => font.google);
+  const local = fonts.filter(font => !font.google);
+  const blocks: string[] = [];
+
+  if (google.length > 0) {
+    blocks.push(`@import url('${googleFontsURL(google)}');`);
+  }
+  local.forEach(font => font.faces.forEach(face => {
+    const sources = (face.postScriptName ? [`local("${face.postScriptName}")`] : [])
+      .concat(`url("./fonts/${fontFileName(font.family, face)}.woff2") format("woff2")`);
+    blocks.push([
+      `@font-face {`,
+      `  font-family: "${font.family}";`,
+      `  src: ${sources.join(', ')};`,
+      `  font-weight: ${face.weight};`,
+      `  font-style: ${face.style};`,
+      `  font-display: swap;`,
+      `}`,
+    ].join('\n'));
+  }));
+
+  const fallbacks = fonts.map(font => `${font.family}: ${font.fallback}`).join(', ');
+  return `/* Fonts used by the design (fallbacks: ${fallbacks}) */\n${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Name a family's loader is exported under, e.g. "Playfair Display" → playfairDisplay
+ */
+function loaderName(family: string): string {
+  const words = family.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const name = words.map((word, i) => i === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('');
+  return /^[a-z]/.test(name) ? name : `font${name}`;
+}
+
+/**
+ * next/font module loading the fonts: Google Fonts through next/font/google and the
+ * rest from files in app/fonts/ through next/font/local. Each font defines its CSS
+ * variable, and fontVariables puts them all on the root layout.
+ */
+export function nextFontModule(fonts: ManifestFont[]): string {
+  const google = fonts.filter(font => font.google);
+  const usedNames = new Set<string>();
+  const names = fonts.map(font => {
+    let name = loaderName(font.family);
+    for (let counter = 2; usedNames.has(name); counter++) name = `${loaderName(font.family)}${counter}`;
+    usedNames.add(name);
+    return name;
+  });
+  const lines: string[] = [];
+
+  if (google.length > 0) {
+    lines.push(`import { ${google.map(font => font.family.replace(/\s+/g, '_')).join(', ')} } from 'next/font/google';`);
+  }
+  if (google.length < fonts.length) {
+    lines.push(`import localFont from 'next/font/local';`);
+  }
+
+  fonts.forEach((font, i) => {
+    const shared = [
+      `  variable: '${font.variable}',`,
+      `  fallback: ['${font.fallback}'],`,
+      `  display: 'swap',`,
+    ];
+    lines.push('');
+    if (font.google) {
+      const weights = font.faces.map(face => `${face.weight}`).filter((weight, j, all) => all.indexOf(weight) === j);
+      const styles = font.faces.map(face => face.style).filter((style, j, all) => all.indexOf(style) === j);
+      lines.push(
+        `export const ${names[i]} = ${font.family.replace(/\s+/g, '_')}({`,
+        `  subsets: ['latin'],`,
+        `  weight: [${weights.map(weight => `'${weight}'`).join(', ')}],`,
+        ...(styles.length > 1 || styles[0] === 'italic' ? [`  style: [${styles.map(style => `'${style}'`).join(', ')}],`] : []),
+        ...shared,
+        `});`
+      );
+    } else {
+      lines.push(
+        `export const ${names[i]} = localFont({`,
+        `  src: [`,
+        ...font.faces.map(face => `    { path: './fonts/${fontFileName(font.family, face)}.woff2', weight: '${face.weight}', style: '${face.style}' },`),
+        `  ],`,
+        ...shared,
+        `});`
+      );
+    }
+  });
+
+  lines.push(
+    '',
+    `// Class names defining every font's variable, for the root layout's <html>`,
+    `export const fontVariables = [${names.map(name => `${name}.variable`).join(', ')}].join(' ');`
+  );
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * CSS font stack through a font's next/font variable
+ */
+export function fontVariableStack(font: ManifestFont): string {
+  return `var(${font.variable}), ${font.fallback}`;
+}
+
+/**
+ * Font manifest files for generated code: next/font loaders for a Next.js app,
+ * otherwise a stylesheet to include globally. Empty when no text sets a font.
+ */
+export function fontManifestFiles(nodes: ProcessedNode[], options: { router?: Router; typescript?: boolean }): GeneratedFile[] {
+  const fonts = collectFonts(nodes);
+  if (fonts.length === 0) return [];
+
+  if (options.router === 'next-app') {
+    const extension = options.typescript === false ? 'js' : 'ts';
+    return [{ name: `app/fonts.${extension}`, content: nextFontModule(fonts), type: extension }];
+  }
+  return [{ name: options.router === 'react-router' ? 'src/fonts.css' : 'fonts.css', content: fontFaceCSS(fonts), type: 'css' }];
+}
@@ -0,0 +1,85 @@
+import { GeneratedFile, GenerationEvent, GenerationResult, GenerationStreamEvent } from '../types/codegen';
+
+/**
+ * Read Server-Sent Events from a streaming /api/generate response
+ */
+export async function readGenerationStream(
+  response: Response,
+  onEvent: (event: GenerationStreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() || '';
+
+    messages.forEach(message => {
+      const data = message
+        .split('\n')
+        .filter(line => line.startsWith('data: '))
+        .map(line => line.slice(6))
+        .join('\n');
+      if (data) {
+        onEvent(JSON.parse(data));
+      }
+    });
+  }
+}
+
+/**
+ * Apply a streamed event to the partial result, returning a new object for React state
+ */
+export function applyGenerationEvent(result: GenerationResult, event: GenerationEvent): GenerationResult {
+  if (event.component === undefined) {
+    const files = updateFiles(result.files || [], event);
+    return { ...result, files, code: mainFileContent(files) };
+  }
+
+  const components = (result.components || []).slice();
+  const existing = components[event.component];
+  const component = existing || {
+    componentName: event.type === 'progress' ? event.componentName : `Component ${event.component + 1}`,
+    code: '',
+    files: [],
+  };
+  const files = updateFiles(component.files, event);
+  components[event.component] = { ...component, files, code: mainFileContent(files) };
+  return { ...result, components };
+}
+
+/**
+ * Start a new file, append a delta to the file being written, or clear files on a retry
+ */
+function updateFiles(files: GeneratedFile[], event: GenerationEvent): GeneratedFile[] {
+  switch (event.type) {
+    case 'reset':
+      return [];
+    case 'file':
+      // Text before the first marker was streamed into the main file; the marker restarts it
+      return [...files.filter(f => f.name !== event.name), { name: event.name, content: '', type: event.fileType }];
+    case 'delta':
+      if (files.length === 0) return files;
+      const last = files[files.length - 1];
+      return [...files.slice(0, -1), { ...last, content: last.content + event.text }];
+    default:
+      return files;
+  }
+}
+
+/**
+ * Content of the TSX (JSX for JavaScript flows, TypeScript for Angular) file, which backs
+ * the copy and download buttons
+ */
+function mainFileContent(files: GeneratedFile[]): string {
+  return files.find(f => f.type === 'tsx' || f.type === 'jsx' || f.type === 'typescript')?.content || '';
+}
@@ -0,0 +1,264 @@
+import { FigmaNode, LayoutGrid, ProcessedNode, Rectangle } from '../types/figma';
+
+type Styles = ProcessedNode['styles'];
+
+/**
+ * CSS Grid for a frame: the container's styles and where each of its children goes.
+ * Children left out of the grid, such as absolutely positioned ones, have no item.
+ */
+export interface GridLayout {
+  container: Pick<Styles, 'display' | 'gridTemplateColumns' | 'gridTemplateRows' | 'columnGap' | 'rowGap' | 'alignItems' | 'justifyContent' | 'padding'>;
+  items: Array<Pick<Styles, 'gridColumn' | 'gridRow' | 'justifySelf' | 'alignSelf'> | undefined>;
+  fillColumns: boolean; // Items fill their cells rather than keep their design width
+}
+
+// Zero-based cell an item starts at and how many tracks it covers
+interface Placement {
+  column: number;
+  columnSpan: number;
+  row: number;
+  rowSpan: number;
+}
+
+// Distance in pixels within which an edge counts as sitting on a grid line
+const SNAP_TOLERANCE = 1;
+
+const SELF_ALIGNMENT: Record<string, string> = {
+  MIN: 'start',
+  CENTER: 'center',
+  MAX: 'end',
+};
+
+/**
+ * Round away floating point noise from Figma geometry
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Track list of equal tracks sharing the available space, Tailwind's grid-cols-N
+ */
+function equalTracks(count: number): string {
+  return `repeat(${count}, minmax(0, 1fr))`;
+}
+
+/**
+ * Check whether CSS auto-placement, filling rows left to right in document order,
+ * puts every item where it's placed, so only spans need writing
+ */
+function matchesAutoPlacement(placements: Placement[], columns: number): boolean {
+  const taken: Record<string, boolean> = {};
+  let row = 0;
+  let column = 0;
+
+  return placements.every(placement => {
+    if (placement.columnSpan > columns) return false;
+    const fits = () => {
+      if (column + placement.columnSpan > columns) return false;
+      for (let r = row; r < row + placement.rowSpan; r++) {
+        for (let c = column; c < column + placement.columnSpan; c++) {
+          if (taken[`${r}:${c}`]) return false;
+        }
+      }
+      return true;
+    };
+    while (!fits()) {
+      column++;
+      if (column + placement.columnSpan > columns) {
+        row++;
+        column = 0;
+      }
+    }
+    if (row !== placement.row || column !== placement.column) return false;
+
+    for (let r = row; r < row + placement.rowSpan; r++) {
+      for (let c = column; c < column + placement.columnSpan; c++) {
+        taken[`${r}:${c}`] = true;
+      }
+    }
+    column += placement.columnSpan;
+    return true;
+  });
+}
+
+/**
+ * grid-column and grid-row of each item: just the spans when auto-placement lays the
+ * items out the same, explicit start lines otherwise
+ */
+function placementStyles(placements: Placement[], columns: number): Array<Pick<Styles, 'gridColumn' | 'gridRow'>> {
+  const explicit = !matchesAutoPlacement(placements, columns);
+  return placements.map(placement => {
+    const styles: Pick<Styles, 'gridColumn' | 'gridRow'> = {};
+    if (explicit) {
+      styles.gridColumn = `${placement.column + 1} / span ${placement.columnSpan}`;
+      styles.gridRow = `${placement.row + 1} / span ${placement.rowSpan}`;
+    } else {
+      if (placement.columnSpan > 1) styles.gridColumn = `span ${placement.columnSpan} / span ${placement.columnSpan}`;
+      if (placement.rowSpan > 1) styles.gridRow = `span ${placement.rowSpan} / span ${placement.rowSpan}`;
+    }
+    return styles;
+  });
+}
+
+/**
+ * CSS Grid for a frame using Figma's grid auto-layout, placing children at their anchors
+ */
+export function gridAutoLayout(node: FigmaNode): GridLayout | undefined {
+  if (node.layoutMode !== 'GRID') return undefined;
+
+  const columns = Math.max(node.gridColumnCount || 1, 1);
+  const children = node.children || [];
+  const inFlow = children.map(child => child.layoutPositioning !== 'ABSOLUTE');
+
+  // Anchors only mean something when every child has one; otherwise children flow in order
+  const flowing = children.filter((child, i) => inFlow[i]);
+  const anchored = flowing.length > 0 &&
+    flowing.every(child => (child.gridColumnAnchorIndex ?? -1) >= 0 && (child.gridRowAnchorIndex ?? -1) >= 0);
+  const placements = anchored ?
+    placementStyles(flowing.map(child => ({
+      column: child.gridColumnAnchorIndex!,
+      columnSpan: child.gridColumnSpan || 1,
+      row: child.gridRowAnchorIndex!,
+      rowSpan: child.gridRowSpan || 1,
+    })), columns) :
+    flowing.map(child => {
+      const columnSpan = child.gridColumnSpan || 1;
+      const rowSpan = child.gridRowSpan || 1;
+      return {
+        gridColumn: columnSpan > 1 ? `span ${columnSpan} / span ${columnSpan}` : undefined,
+        gridRow: rowSpan > 1 ? `span ${rowSpan} / span ${rowSpan}` : undefined,
+      };
+    });
+
+  let next = 0;
+  const items = children.map((child, i): GridLayout['items'][number] => {
+    if (!inFlow[i]) return undefined;
+    const item: NonNullable<GridLayout['items'][number]> = {};
+    const placement = placements[next++];
+    if (placement.gridColumn) item.gridColumn = placement.gridColumn;
+    if (placement.gridRow) item.gridRow = placement.gridRow;
+    const justifySelf = SELF_ALIGNMENT[child.gridChildHorizontalAlign || ''];
+    if (justifySelf) item.justifySelf = justifySelf;
+    const alignSelf = SELF_ALIGNMENT[child.gridChildVerticalAlign || ''];
+    if (alignSelf) item.alignSelf = alignSelf;
+    return item;
+  });
+
+  const container: GridLayout['container'] = {
+    display: 'grid',
+    gridTemplateColumns: node.gridColumnsSizing || equalTracks(columns),
+  };
+  if (node.gridRowsSizing) container.gridTemplateRows = node.gridRowsSizing;
+  if (node.gridColumnGap) container.columnGap = node.gridColumnGap;
+  if (node.gridRowGap) container.rowGap = node.gridRowGap;
+
+  return { container, items, fillColumns: false };
+}
+
+/**
+ * Left and right edges of a column grid's tracks inside a frame of the given width
+ */
+function columnTracks(grid: LayoutGrid, width: number): Array<{ start: number; end: number }> | undefined {
+  const count = grid.count || 0;
+  if (count < 1) return undefined;
+
+  const gutter = grid.gutterSize || 0;
+  const offset = grid.offset || 0;
+  const size = grid.alignment === 'STRETCH' ?
+    (width - 2 * offset - (count - 1) * gutter) / count :
+    grid.sectionSize;
+  const total = count * size + (count - 1) * gutter;
+  const first = grid.alignment === 'MAX' ? width - offset - total :
+    grid.alignment === 'CENTER' ? (width - total) / 2 :
+    offset;
+
+  const tracks: Array<{ start: number; end: number }> = [];
+  for (let i = 0; i < count; i++) {
+    const start = first + i * (size + gutter);
+    tracks.push({ start, end: start + size });
+  }
+  return tracks;
+}
+
+/**
+ * Check whether two boxes share any area
+ */
+function overlap(a: Rectangle, b: Rectangle): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * CSS Grid for a frame without auto-layout whose children sit on its column layout grid:
+ * each child's left and right edges on the edges of columns, and no children stacked.
+ * Rows are the distinct top edges of the children; undefined when they don't fit a grid.
+ */
+export function inferGridLayout(node: FigmaNode): GridLayout | undefined {
+  const frame = node.absoluteBoundingBox;
+  const grids = (node.layoutGrids || []).filter(grid => grid.visible !== false);
+  const columnGrid = grids.find(grid => grid.pattern === 'COLUMNS');
+  const children = node.children || [];
+  if (!frame || !columnGrid || children.length < 2) return undefined;
+
+  const tracks = columnTracks(columnGrid, frame.width);
+  // Rotated children can't sit on grid lines
+  const rotated = (child: FigmaNode) => !!child.relativeTransform && Math.abs(child.relativeTransform[1][0]) > 0.001;
+  if (!tracks || children.some(child => !child.absoluteBoundingBox || rotated(child))) return undefined;
+
+  const boxes = children.map(child => {
+    const box = child.absoluteBoundingBox!;
+    return { x: box.x - frame.x, y: box.y - frame.y, width: box.width, height: box.height };
+  });
+  if (boxes.some((box, i) => boxes.slice(0, i).some(other => overlap(box, other)))) return undefined;
+
+  const near = (a: number, b: number) => Math.abs(a - b) <= SNAP_TOLERANCE;
+  const columns = boxes.map(box => ({
+    start: tracks.findIndex(track => near(track.start, box.x)),
+    end: tracks.findIndex(track => near(track.end, box.x + box.width)),
+  }));
+  if (columns.some(column => column.start === -1 || column.end < column.start)) return undefined;
+
+  // Rows start at the children's distinct top edges
+  const rowStarts: number[] = [];
+  boxes.map(box => box.y).sort((a, b) => a - b).forEach(top => {
+    if (rowStarts.length === 0 || !near(rowStarts[rowStarts.length - 1], top)) rowStarts.push(top);
+  });
+  const placements: Placement[] = boxes.map((box, i) => {
+    const row = rowStarts.findIndex(start => near(start, box.y));
+    const rowSpan = rowStarts.filter(start => start >= rowStarts[row] && start < box.y + box.height - SNAP_TOLERANCE).length;
+    return { column: columns[i].start, columnSpan: columns[i].end - columns[i].start + 1, row, rowSpan };
+  });
+
+  // Rows are as tall as their tallest child, so the gap is what's left before the next row
+  const rowGrid = grids.find(grid => grid.pattern === 'ROWS');
+  let rowGap = rowGrid ? rowGrid.gutterSize || 0 : undefined;
+  if (rowGap === undefined && rowStarts.length > 1) {
+    const gaps = rowStarts.slice(0, -1).map((start, row) => {
+      const bottoms = boxes
+        .filter((box, i) => placements[i].row + placements[i].rowSpan - 1 === row)
+        .map(box => box.y + box.height);
+      return bottoms.length > 0 ? rowStarts[row + 1] - Math.max(...bottoms) : Infinity;
+    });
+    rowGap = Math.max(0, Math.min(...gaps));
+  }
+
+  const stretch = columnGrid.alignment === 'STRETCH';
+  const offset = columnGrid.offset || 0;
+  const container: GridLayout['container'] = {
+    display: 'grid',
+    gridTemplateColumns: stretch ? equalTracks(tracks.length) : `repeat(${tracks.length}, ${round(columnGrid.sectionSize)}px)`,
+    alignItems: 'flex-start',
+    padding: {
+      top: round(rowStarts[0]),
+      right: stretch || columnGrid.alignment === 'MAX' ? offset : 0,
+      bottom: 0,
+      left: stretch || columnGrid.alignment === 'MIN' ? offset : 0,
+    },
+  };
+  if (columnGrid.gutterSize) container.columnGap = columnGrid.gutterSize;
+  if (rowGap && isFinite(rowGap)) container.rowGap = round(rowGap);
+  if (columnGrid.alignment === 'MAX') container.justifyContent = 'flex-end';
+  if (columnGrid.alignment === 'CENTER') container.justifyContent = 'center';
+
+  return { container, items: placementStyles(placements, tracks.length), fillColumns: stretch };
+}
@@ -0,0 +1,103 @@
+import { FigmaNode, ProcessedMask, ProcessedNode, Rectangle } from '../types/figma';
+import { px } from './styles';
+
+type MaskStyles = Pick<ProcessedNode['styles'], 'clipPath' | 'maskSize' | 'maskPosition' | 'maskRepeat' | 'maskMode'>;
+
+// Mask layers whose outline clip-path can draw
+const SHAPE_MASK_TYPES = ['RECTANGLE', 'ELLIPSE'];
+
+/**
+ * Check whether a node is rotated, so its box isn't its bounding box
+ */
+function isRotated(node: FigmaNode): boolean {
+  return !!node.relativeTransform && Math.abs(node.relativeTransform[1][0]) > 0.001;
+}
+
+/**
+ * Check whether a mask cuts what it masks to its outline alone: an upright rectangle or
+ * ellipse drawn fully opaque, or used as an outline mask. Translucent, gradient and image
+ * fills fade what they mask instead.
+ */
+function isShapeMask(mask: FigmaNode): boolean {
+  if (SHAPE_MASK_TYPES.indexOf(mask.type) === -1 || isRotated(mask) || mask.maskType === 'LUMINANCE') return false;
+  if (mask.maskType === 'VECTOR') return true;
+
+  const fills = (mask.fills || []).filter(fill => fill.visible !== false);
+  return (mask.opacity ?? 1) === 1 &&
+    fills.every(fill => fill.type === 'SOLID' && (fill.color?.a ?? 1) * (fill.opacity ?? 1) === 1);
+}
+
+/**
+ * clip-path cutting a node to a mask's outline, or to the mask's box for masks that
+ * aren't plain shapes, in the node's own coordinates. Undefined when it cuts nothing.
+ */
+function maskClipPath(mask: FigmaNode, maskBox: Rectangle, box: Rectangle, shape: boolean): string | undefined {
+  const top = maskBox.y - box.y;
+  const left = maskBox.x - box.x;
+  const right = box.x + box.width - (maskBox.x + maskBox.width);
+  const bottom = box.y + box.height - (maskBox.y + maskBox.height);
+  const sameBox = [top, right, bottom, left].every(side => Math.abs(side) < 0.5);
+
+  if (shape && mask.type === 'ELLIPSE') {
+    return sameBox ?
+      'ellipse(50% 50% at 50% 50%)' :
+      `ellipse(${px(maskBox.width / 2)} ${px(maskBox.height / 2)} at ${px(left + maskBox.width / 2)} ${px(top + maskBox.height / 2)})`;
+  }
+
+  // Mask edges outside the node cut nothing on that side
+  const sides = [top, right, bottom, left].map(side => side > 0.5 ? px(side) : '0');
+  const radius = shape && mask.cornerRadius ? ` round ${px(mask.cornerRadius)}` : '';
+  if (!radius && sides.every(side => side === '0')) return undefined;
+  return `inset(${sides.join(' ')}${radius})`;
+}
+
+/**
+ * Styles cutting a node to a mask layer below it. Plain shapes become a clip-path; other
+ * masks are exported and applied as mask-image over the mask's box, and clip to that
+ * box until they are. Rotated nodes keep their full shape.
+ */
+function maskStyles(mask: FigmaNode, node: FigmaNode): { styles: MaskStyles; mask?: ProcessedMask } | undefined {
+  const maskBox = mask.absoluteBoundingBox;
+  const box = node.absoluteBoundingBox;
+  if (!maskBox || !box || isRotated(node)) return undefined;
+
+  const shape = isShapeMask(mask);
+  const styles: MaskStyles = {};
+  const clipPath = maskClipPath(mask, maskBox, box, shape);
+  if (clipPath) styles.clipPath = clipPath;
+  if (shape) return { styles };
+
+  const sameBox = Math.abs(maskBox.x - box.x) < 0.5 && Math.abs(maskBox.y - box.y) < 0.5 &&
+    Math.abs(maskBox.width - box.width) < 0.5 && Math.abs(maskBox.height - box.height) < 0.5;
+  styles.maskSize = sameBox ? '100% 100%' : `${px(maskBox.width)} ${px(maskBox.height)}`;
+  if (!sameBox) styles.maskPosition = `${px(maskBox.x - box.x)} ${px(maskBox.y - box.y)}`;
+  styles.maskRepeat = 'no-repeat';
+  if (mask.maskType === 'LUMINANCE') styles.maskMode = 'luminance';
+
+  return { styles, mask: { nodeId: mask.id, name: mask.name } };
+}
+
+/**
+ * Apply the mask layers among a node's children to the siblings above them, and leave the
+ * masks themselves out: Figma doesn't draw a mask, it cuts every later sibling to it.
+ * Children are in the same order as the node's; a hidden mask masks nothing.
+ */
+export function applyMasks(node: FigmaNode, children: ProcessedNode[]): ProcessedNode[] {
+  const sources = node.children || [];
+  let mask: FigmaNode | undefined;
+
+  return children.filter((child, index) => {
+    const source = sources[index];
+    if (source.isMask) {
+      mask = source.visible === false ? undefined : source;
+      return false;
+    }
+
+    const masking = mask && maskStyles(mask, source);
+    if (masking) {
+      Object.assign(child.styles, masking.styles);
+      if (masking.mask) child.mask = masking.mask;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FigmaNode } from '../types/figma';
+import { nodesToJSON, processNode } from './figma';
+import { diffDocuments } from './node-diff';
+
+/**
+ * A page holding a "Hero" frame at the given position, with a title inside it
+ */
+function page(heroX: number, titleX: number): FigmaNode {
+  return {
+    id: '0:1',
+    name: 'Page 1',
+    type: 'CANVAS',
+    children: [
+      {
+        id: '1:1',
+        name: 'Hero',
+        type: 'FRAME',
+        absoluteBoundingBox: { x: heroX, y: 0, width: 400, height: 300 },
+        children: [
+          {
+            id: '1:2',
+            name: 'Title',
+            type: 'TEXT',
+            characters: 'Welcome',
+            absoluteBoundingBox: { x: heroX + titleX, y: 20, width: 200, height: 40 },
+          },
+        ],
+      },
+      {
+        id: '2:1',
+        name: 'Footer',
+        type: 'FRAME',
+        absoluteBoundingBox: { x: 0, y: 400, width: 400, height: 100 },
+      },
+    ],
+  };
+}
+
+const versions = { from: 'v1', to: 'v2' };
+
+/**
+ * Status of each frame of a diff by name
+ */
+function frameStatuses(diff: ReturnType<typeof diffDocuments>): Record<string, string> {
+  const statuses: Record<string, string> = {};
+  diff.frames.forEach(entry => { statuses[entry.name] = entry.status; });
+  return statuses;
+}
+
+test('unchanged versions have no changes', () => {
+  const diff = diffDocuments(processNode(page(0, 20)), processNode(page(0, 20)), versions);
+  assert.deepEqual(frameStatuses(diff), { Hero: 'unchanged', Footer: 'unchanged' });
+});
+
+test('moving a frame on the canvas is reported as a move, not a change', () => {
+  const diff = diffDocuments(processNode(page(0, 20)), processNode(page(500, 20)), versions);
+  assert.deepEqual(frameStatuses(diff), { Hero: 'unchanged', Footer: 'unchanged' });
+
+  const hero = diff.frames.find(entry => entry.name === 'Hero')!;
+  assert.deepEqual(hero.moved, { before: '0, 0', after: '500, 0' });
+  assert.equal(diff.frames.find(entry => entry.name === 'Footer')!.moved, undefined);
+});
+
+test('moving a frame leaves the JSON sent to prompts and reuse hashes as it was', () => {
+  assert.equal(nodesToJSON(processNode(page(0, 20))), nodesToJSON(processNode(page(500, 20))));
+  assert.notEqual(nodesToJSON(processNode(page(0, 20))), nodesToJSON(processNode(page(0, 60))));
+});
+
+test('moving a layer inside a frame is a position change relative to the frame', () => {
+  const diff = diffDocuments(processNode(page(0, 20)), processNode(page(0, 60)), versions);
+  const hero = diff.frames.find(entry => entry.name === 'Hero')!;
+
+  assert.equal(hero.status, 'changed');
+  const position = hero.changes.find(change => change.property === 'position')!;
+  assert.deepEqual([position.nodeName, position.before, position.after], ['Title', '20, 20', '60, 20']);
+});
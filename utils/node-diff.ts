@@ -0,0 +1,143 @@
+import { ProcessedNode, Rectangle } from '../types/figma';
+import { ChangeKind, DesignDiff, DiffEntry, DiffStatus, NodeChange } from '../types/diff';
+import { extractAllFrames, findComponents } from './figma';
+
+// Style properties reported as layout changes; the rest are visual style changes
+const LAYOUT_PROPERTIES = [
+  'width', 'height', 'sizing', 'minWidth', 'maxWidth', 'minHeight', 'maxHeight', 'position', 'inset',
+  'transform', 'padding', 'margin', 'display', 'flexDirection', 'alignItems', 'justifyContent', 'gap',
+  'rowGap', 'flexWrap', 'alignContent', 'flexGrow', 'flexShrink', 'flexBasis', 'alignSelf',
+];
+
+/**
+ * Readable form of a compared value
+ */
+function formatValue(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Position of a box relative to the frame or component being compared
+ */
+function relativePosition(box: Rectangle | undefined, origin: Rectangle | undefined): string | undefined {
+  if (!box) return undefined;
+  const x = Math.round(box.x - (origin ? origin.x : 0));
+  const y = Math.round(box.y - (origin ? origin.y : 0));
+  return `${x}, ${y}`;
+}
+
+/**
+ * Compare two versions of the same node and its descendants. Children are matched by id;
+ * positions below the root are compared relative to it, so moving a whole frame is one
+ * change rather than one per layer.
+ */
+function diffNode(
+  before: ProcessedNode,
+  after: ProcessedNode,
+  origins: { before?: Rectangle; after?: Rectangle },
+  changes: NodeChange[]
+): void {
+  const add = (kind: ChangeKind, property: string, beforeValue: unknown, afterValue: unknown) => {
+    const formattedBefore = formatValue(beforeValue);
+    const formattedAfter = formatValue(afterValue);
+    if (formattedBefore === formattedAfter) return;
+    changes.push({ nodeId: after.id, nodeName: after.name, kind, property, before: formattedBefore, after: formattedAfter });
+  };
+
+  add('structure', 'name', before.name, after.name);
+  add('text', 'content', before.content, after.content);
+  add('text', 'textRuns', before.textRuns, after.textRuns);
+  add('layout', 'position',
+    relativePosition(before.absoluteBoundingBox, origins.before),
+    relativePosition(after.absoluteBoundingBox, origins.after));
+
+  const properties = Object.keys(before.styles).concat(Object.keys(after.styles))
+    .filter((property, index, all) => all.indexOf(property) === index);
+  properties.forEach(property => {
+    add(LAYOUT_PROPERTIES.indexOf(property) !== -1 ? 'layout' : 'style', property,
+      (before.styles as Record<string, unknown>)[property],
+      (after.styles as Record<string, unknown>)[property]);
+  });
+  add('style', 'tokens', before.tokens, after.tokens);
+  add('style', 'asset', before.asset && before.asset.kind, after.asset && after.asset.kind);
+
+  const beforeChildren = before.children || [];
+  const afterChildren = after.children || [];
+  const beforeIds = beforeChildren.map(child => child.id);
+  const afterIds = afterChildren.map(child => child.id);
+
+  afterChildren.filter(child => beforeIds.indexOf(child.id) === -1).forEach(child => {
+    changes.push({ nodeId: after.id, nodeName: after.name, kind: 'structure', property: 'children', after: child.name });
+  });
+  beforeChildren.filter(child => afterIds.indexOf(child.id) === -1).forEach(child => {
+    changes.push({ nodeId: after.id, nodeName: after.name, kind: 'structure', property: 'children', before: child.name });
+  });
+
+  const kept = afterIds.filter(id => beforeIds.indexOf(id) !== -1);
+  const keptBefore = beforeIds.filter(id => afterIds.indexOf(id) !== -1);
+  if (kept.join(',') !== keptBefore.join(',')) {
+    changes.push({ nodeId: after.id, nodeName: after.name, kind: 'structure', property: 'order' });
+  }
+
+  kept.forEach(id => {
+    diffNode(
+      beforeChildren[beforeIds.indexOf(id)],
+      afterChildren[afterIds.indexOf(id)],
+      origins,
+      changes
+    );
+  });
+}
+
+/**
+ * Diff two lists of frames or components, matched by node id
+ */
+function diffUnits(before: ProcessedNode[], after: ProcessedNode[]): DiffEntry[] {
+  const beforeById: Record<string, ProcessedNode> = {};
+  before.forEach(node => { beforeById[node.id] = node; });
+  const afterIds = after.map(node => node.id);
+
+  const entries: DiffEntry[] = after.map(node => {
+    const previous = beforeById[node.id];
+    if (!previous) {
+      return { id: node.id, name: node.name, status: 'added' as DiffStatus, changes: [] };
+    }
+
+    // Descendants are compared relative to the root. Moving the root on the canvas leaves its
+    // code as it was, so it is reported apart from the changes that need regenerating.
+    const changes: NodeChange[] = [];
+    diffNode(previous, node, { before: previous.absoluteBoundingBox, after: node.absoluteBoundingBox }, changes);
+    const entry: DiffEntry = { id: node.id, name: node.name, status: changes.length > 0 ? 'changed' : 'unchanged', changes };
+
+    const beforePosition = relativePosition(previous.absoluteBoundingBox, undefined);
+    const afterPosition = relativePosition(node.absoluteBoundingBox, undefined);
+    if (beforePosition && afterPosition && beforePosition !== afterPosition) {
+      entry.moved = { before: beforePosition, after: afterPosition };
+    }
+    return entry;
+  });
+
+  before.filter(node => afterIds.indexOf(node.id) === -1).forEach(node => {
+    entries.push({ id: node.id, name: node.name, status: 'removed', changes: [] });
+  });
+  return entries;
+}
+
+/**
+ * Structural diff of two processed versions of a file: which frames and components were
+ * added, removed or changed, and what changed in their text, styles, layout and structure
+ */
+export function diffDocuments(
+  before: ProcessedNode,
+  after: ProcessedNode,
+  versions: { from: string; to: string }
+): DesignDiff {
+  const frames = diffUnits(extractAllFrames(before), extractAllFrames(after));
+  const components = diffUnits(findComponents(before), findComponents(after));
+
+  const summary: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  frames.concat(components).forEach(entry => { summary[entry.status]++; });
+
+  return { from: versions.from, to: versions.to, frames, components, summary };
+}
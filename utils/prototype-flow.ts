@@ -0,0 +1,119 @@
+import { Interaction, ProcessedNode } from '../types/figma';
+
+/**
+ * A selected frame in a prototype flow: a route of its own, or a modal opened
+ * over the routes whose elements trigger it
+ */
+export interface FlowScreen {
+  node: ProcessedNode;
+  kind: 'route' | 'modal';
+  path?: string; // Route path, "/" for the first route
+  modals: string[]; // Ids of the modal screens this screen opens
+}
+
+/**
+ * How the selected frames connect. Interactions pointing at frames outside the
+ * selection are left out, their elements render without behaviour.
+ */
+export interface PrototypeFlow {
+  screens: FlowScreen[]; // Routes first, in selection order, then modals
+  byId: Record<string, FlowScreen>;
+  connections: Array<{ from: string; to: string; kind: 'navigate' | 'overlay' }>; // Frame ids
+}
+
+/**
+ * URL segment for a frame name, e.g. "Product Detail" → "product-detail"
+ */
+function toSlug(name: string): string {
+  const slug = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return slug || 'screen';
+}
+
+/**
+ * Every interaction in a node's tree, text links included as navigations
+ */
+export function collectInteractions(node: ProcessedNode): Interaction[] {
+  const interactions: Interaction[] = [];
+  const visit = (current: ProcessedNode) => {
+    if (current.interaction) interactions.push(current.interaction);
+    (current.textRuns || []).forEach(run => {
+      if (run.nodeId) interactions.push({ kind: 'navigate', destinationId: run.nodeId });
+    });
+    (current.children || []).forEach(visit);
+  };
+  visit(node);
+  return interactions;
+}
+
+/**
+ * Work out routes and modals from the prototype connections between the selected
+ * frames. The first frame is the index route. A frame only ever opened as an
+ * overlay becomes a modal; one that is also navigated to stays a route, and
+ * overlays of it navigate there instead.
+ */
+export function analyzeFlow(frames: ProcessedNode[]): PrototypeFlow {
+  const ids = frames.map(frame => frame.id);
+  const interactionsById: Record<string, Interaction[]> = {};
+  const connections: PrototypeFlow['connections'] = [];
+  const overlayTargets: string[] = [];
+  const navigateTargets: string[] = [];
+
+  frames.forEach(frame => {
+    const interactions = collectInteractions(frame);
+    interactionsById[frame.id] = interactions;
+    interactions.forEach(interaction => {
+      const target = interaction.destinationId;
+      if (!target || ids.indexOf(target) === -1 || target === frame.id) return;
+      if (interaction.kind !== 'navigate' && interaction.kind !== 'overlay') return;
+      if (!connections.some(c => c.from === frame.id && c.to === target && c.kind === interaction.kind)) {
+        connections.push({ from: frame.id, to: target, kind: interaction.kind });
+      }
+      (interaction.kind === 'overlay' ? overlayTargets : navigateTargets).push(target);
+    });
+  });
+
+  const isModal = (frame: ProcessedNode, index: number) =>
+    index > 0 && overlayTargets.indexOf(frame.id) !== -1 && navigateTargets.indexOf(frame.id) === -1;
+
+  const usedPaths: string[] = ['/'];
+  const routes: FlowScreen[] = [];
+  const modals: FlowScreen[] = [];
+  frames.forEach((frame, index) => {
+    if (isModal(frame, index)) {
+      modals.push({ node: frame, kind: 'modal', modals: [] });
+      return;
+    }
+
+    let path = '/';
+    if (index > 0) {
+      const base = `/${toSlug(frame.name)}`;
+      path = base;
+      for (let counter = 2; usedPaths.indexOf(path) !== -1; counter++) {
+        path = `${base}-${counter}`;
+      }
+      usedPaths.push(path);
+    }
+    routes.push({ node: frame, kind: 'route', path, modals: [] });
+  });
+
+  const screens = routes.concat(modals);
+  const byId: Record<string, FlowScreen> = {};
+  screens.forEach(screen => {
+    byId[screen.node.id] = screen;
+  });
+  screens.forEach(screen => {
+    interactionsById[screen.node.id].forEach(interaction => {
+      const target = interaction.kind === 'overlay' && interaction.destinationId ? byId[interaction.destinationId] : undefined;
+      if (target && target.kind === 'modal' && target !== screen && screen.modals.indexOf(target.node.id) === -1) {
+        screen.modals.push(target.node.id);
+      }
+    });
+  });
+
+  return { screens, byId, connections };
+}
+
@@ -0,0 +1,120 @@
+import { ProcessedNode, ResponsiveVariant } from '../types/figma';
+import { VariantLayer, matchLayers } from './component-variants';
+import { generateComponentName } from './figma';
+
+type Breakpoint = ResponsiveVariant['breakpoint'];
+
+const BREAKPOINT_ORDER: Breakpoint[] = ['mobile', 'tablet', 'desktop'];
+
+// Words designers end frame names with, e.g. "Home / Mobile" or "Home - Desktop"
+const BREAKPOINT_WORDS: Record<string, Breakpoint> = {
+  mobile: 'mobile',
+  phone: 'mobile',
+  sm: 'mobile',
+  tablet: 'tablet',
+  ipad: 'tablet',
+  md: 'tablet',
+  desktop: 'desktop',
+  web: 'desktop',
+  lg: 'desktop',
+};
+
+// Tailwind's default screens, smallest first
+const TAILWIND_SCREENS: Array<{ prefix: string; minWidth: number }> = [
+  { prefix: 'sm', minWidth: 640 },
+  { prefix: 'md', minWidth: 768 },
+  { prefix: 'lg', minWidth: 1024 },
+];
+
+// Share of layers every frame must have for frames of one screen to be merged
+const MIN_SHARED_LAYERS = 0.5;
+
+/**
+ * Screen name and breakpoint of a frame named like "Home / Mobile"; undefined when the
+ * last part of the name isn't a breakpoint
+ */
+export function parseBreakpointName(name: string): { screen: string; breakpoint: Breakpoint } | undefined {
+  const match = name.match(/^(.*\S)\s*[/\-–|]\s*([A-Za-z]+)\s*$/);
+  const breakpoint = match ? BREAKPOINT_WORDS[match[2].toLowerCase()] : undefined;
+  return match && breakpoint ? { screen: match[1], breakpoint } : undefined;
+}
+
+/**
+ * Share of the matched layers that every frame has
+ */
+function sharedLayerRatio(root: VariantLayer): number {
+  let total = 0;
+  let shared = 0;
+  const visit = (layer: VariantLayer) => {
+    total++;
+    if (layer.nodes.every(node => !!node)) shared++;
+    layer.children.forEach(visit);
+  };
+  visit(root);
+  return shared / total;
+}
+
+/**
+ * Viewport width from which a frame's design applies: the largest Tailwind screen that
+ * fits the frame, or the frame's own width when that screen is taken by a smaller frame
+ */
+function mediaBreakpoint(width: number, previousMinWidth: number): Pick<ResponsiveVariant, 'minWidth' | 'tailwindPrefix'> {
+  const screens = TAILWIND_SCREENS.filter(screen => screen.minWidth <= width);
+  const screen = screens[screens.length - 1];
+  if (screen && screen.minWidth > previousMinWidth) {
+    return { minWidth: screen.minWidth, tailwindPrefix: screen.prefix };
+  }
+  const minWidth = Math.max(Math.round(width), previousMinWidth + 1);
+  return { minWidth, tailwindPrefix: `min-[${minWidth}px]` };
+}
+
+/**
+ * Merge frames that draw the same screen at different breakpoints, such as "Home / Mobile",
+ * "Home / Tablet" and "Home / Desktop", into one node: the smallest frame, named after the
+ * screen, with the larger ones as its responsive variants. Frames are merged when their
+ * names match and most of their layers match by name; other frames are returned unchanged.
+ */
+export function mergeResponsiveFrames(nodes: ProcessedNode[]): ProcessedNode[] {
+  const groups: Record<string, Array<{ node: ProcessedNode; breakpoint: Breakpoint }>> = {};
+  nodes.forEach(node => {
+    const parsed = parseBreakpointName(node.name);
+    if (!parsed) return;
+    const key = parsed.screen.toLowerCase();
+    (groups[key] = groups[key] || []).push({ node, breakpoint: parsed.breakpoint });
+  });
+
+  const merged: Record<string, ProcessedNode> = {}; // Id of the group's first frame → merged node
+  const absorbed: string[] = [];
+  Object.keys(groups).forEach(key => {
+    const frames = groups[key]
+      .filter((frame, i, all) => all.findIndex(other => other.breakpoint === frame.breakpoint) === i)
+      .sort((a, b) => BREAKPOINT_ORDER.indexOf(a.breakpoint) - BREAKPOINT_ORDER.indexOf(b.breakpoint));
+    if (frames.length < 2 || sharedLayerRatio(matchLayers(frames.map(frame => frame.node))) < MIN_SHARED_LAYERS) return;
+
+    let previousMinWidth = 0;
+    const responsive: ResponsiveVariant[] = frames.slice(1).map(frame => {
+      const media = mediaBreakpoint(frame.node.styles.width || 0, previousMinWidth);
+      previousMinWidth = media.minWidth;
+      return { breakpoint: frame.breakpoint, ...media, node: frame.node };
+    });
+
+    // The merged node takes the place of the first of its frames in the selection
+    const base = frames[0].node;
+    const screen = parseBreakpointName(base.name)!.screen;
+    const first = groups[key].find(frame => frames.indexOf(frame) !== -1)!;
+    merged[first.node.id] = { ...base, name: screen, componentName: generateComponentName(screen), responsive };
+    frames.forEach(frame => absorbed.push(frame.node.id));
+    console.log(`📱 Merged ${frames.length} breakpoints of "${screen}": ${frames.map(frame => frame.breakpoint).join(', ')}`);
+  });
+
+  return nodes
+    .map(node => merged[node.id] || (absorbed.indexOf(node.id) === -1 ? node : undefined))
+    .filter((node): node is ProcessedNode => !!node);
+}
+
+/**
+ * The frames of a merged node, smallest breakpoint first, with the layers matched across them
+ */
+export function responsiveLayers(node: ProcessedNode): VariantLayer {
+  return matchLayers([node].concat((node.responsive || []).map(variant => variant.node)));
+}
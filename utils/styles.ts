@@ -0,0 +1,399 @@
+import { ProcessedNode, SizingMode } from '../types/figma';
+
+export type CSSDeclaration = [property: string, value: string];
+
+/**
+ * Format a pixel value, rounding away floating point noise from Figma coordinates
+ */
+export function px(value: number): string {
+  return `${Math.round(value * 100) / 100}px`;
+}
+
+/**
+ * Generic family to fall back to for a font, guessed from its name
+ */
+export function genericFontFamily(fontFamily: string): string {
+  if (/mono|code|courier|consolas|menlo/i.test(fontFamily)) return 'monospace';
+  if (/sans/i.test(fontFamily)) return 'sans-serif';
+  if (/serif|slab|georgia|times|garamond|playfair|merriweather|lora|baskerville|didot|bodoni|caslon|crimson|cormorant|fraunces/i.test(fontFamily)) {
+    return 'serif';
+  }
+  return 'sans-serif';
+}
+
+/**
+ * Quote a font family and append a generic fallback
+ */
+export function fontFamilyStack(fontFamily: string): string {
+  return `"${fontFamily}", ${genericFontFamily(fontFamily)}`;
+}
+
+/**
+ * CSS value for one axis of a node's size. Hugging nodes size to their content; filling
+ * nodes are sized by flex-grow, align-self or their insets, and fall back to 100%.
+ */
+function sizeDeclaration(
+  size: number | undefined,
+  mode: SizingMode | undefined,
+  styles: ProcessedNode['styles']
+): string | undefined {
+  if (size === undefined || mode === 'hug') return undefined;
+  if (mode !== 'fill') return px(size);
+
+  const sizedByLayout = styles.flexGrow !== undefined || styles.alignSelf === 'stretch' || styles.position === 'absolute';
+  return sizedByLayout ? undefined : '100%';
+}
+
+// Styles that place a node in its parent rather than style the node itself
+const PLACEMENT_STYLES: Array<keyof ProcessedNode['styles']> = [
+  'inset', 'transform', 'zIndex', 'flexGrow', 'flexShrink', 'flexBasis', 'alignSelf', 'gridColumn', 'gridRow', 'justifySelf',
+];
+
+/**
+ * Split a node's styles into its own and those placing it in its parent: absolute
+ * positioning, offsets, rotation, stacking and flex or grid item behavior. Nodes emitted
+ * as components of their own keep only their own styles, and stay the positioning
+ * context of absolutely placed children.
+ */
+export function splitPlacement(node: ProcessedNode): { own: ProcessedNode['styles']; placement: ProcessedNode['styles'] } {
+  const own: ProcessedNode['styles'] = { ...node.styles };
+  const placement: ProcessedNode['styles'] = {};
+
+  PLACEMENT_STYLES.forEach(property => {
+    if (own[property] === undefined) return;
+    (placement as Record<string, unknown>)[property] = own[property];
+    delete own[property];
+  });
+  if (own.position === 'absolute') {
+    placement.position = own.position;
+    delete own.position;
+    if ((node.children || []).some(child => child.styles.position === 'absolute')) own.position = 'relative';
+  }
+
+  return { own, placement };
+}
+
+/**
+ * Swap design values for the custom properties of the tokens they come from.
+ * Shorthands keep their literal parts and only reference tokens for the bound ones.
+ */
+function applyTokens(declarations: CSSDeclaration[], tokens: Record<string, string>): CSSDeclaration[] {
+  const reference = (name: string) => `var(--${name})`;
+
+  return declarations.map(([property, value]): CSSDeclaration => {
+    if (tokens[property]) return [property, reference(tokens[property])];
+
+    if (property === 'padding') {
+      const sides = value.split(' ');
+      const bound = ['top', 'right', 'bottom', 'left'].map((side, i) => {
+        const token = tokens[`padding-${side}`];
+        return token ? reference(token) : sides[i];
+      });
+      return [property, bound.join(' ')];
+    }
+
+    // Border and outline are `<width> <style> <color>`; the color may contain spaces
+    if ((property === 'border' || property === 'outline') && tokens['border-color']) {
+      return [property, `${value.split(' ').slice(0, 2).join(' ')} ${reference(tokens['border-color'])}`];
+    }
+
+    return [property, value];
+  });
+}
+
+/**
+ * Convert ProcessedNode styles into ordered CSS declarations, referencing design tokens when given
+ */
+export function stylesToCSS(styles: ProcessedNode['styles'], tokens?: Record<string, string>): CSSDeclaration[] {
+  const declarations: CSSDeclaration[] = [];
+
+  // Positioning
+  if (styles.position) declarations.push(['position', styles.position]);
+  if (styles.inset) {
+    const { top, right, bottom, left } = styles.inset;
+    if (top) declarations.push(['top', top]);
+    if (right) declarations.push(['right', right]);
+    if (bottom) declarations.push(['bottom', bottom]);
+    if (left) declarations.push(['left', left]);
+  }
+  if (styles.transform) declarations.push(['transform', styles.transform]);
+  if (styles.zIndex !== undefined) declarations.push(['z-index', `${styles.zIndex}`]);
+
+  // Layout
+  if (styles.display) declarations.push(['display', styles.display]);
+  if (styles.flexDirection) declarations.push(['flex-direction', styles.flexDirection]);
+  if (styles.flexWrap) declarations.push(['flex-wrap', styles.flexWrap]);
+  if (styles.alignItems) declarations.push(['align-items', styles.alignItems]);
+  if (styles.justifyContent) declarations.push(['justify-content', styles.justifyContent]);
+  if (styles.alignContent) declarations.push(['align-content', styles.alignContent]);
+  if (styles.gap) declarations.push(['gap', px(styles.gap)]);
+  if (styles.rowGap !== undefined) declarations.push(['row-gap', px(styles.rowGap)]);
+  if (styles.columnGap !== undefined) declarations.push(['column-gap', px(styles.columnGap)]);
+  if (styles.gridTemplateColumns) declarations.push(['grid-template-columns', styles.gridTemplateColumns]);
+  if (styles.gridTemplateRows) declarations.push(['grid-template-rows', styles.gridTemplateRows]);
+
+  // Flex item
+  if (styles.flexGrow !== undefined) declarations.push(['flex-grow', `${styles.flexGrow}`]);
+  if (styles.flexShrink !== undefined) declarations.push(['flex-shrink', `${styles.flexShrink}`]);
+  if (styles.flexBasis !== undefined) declarations.push(['flex-basis', px(styles.flexBasis)]);
+  if (styles.alignSelf) declarations.push(['align-self', styles.alignSelf]);
+
+  // Grid item
+  if (styles.gridColumn) declarations.push(['grid-column', styles.gridColumn]);
+  if (styles.gridRow) declarations.push(['grid-row', styles.gridRow]);
+  if (styles.justifySelf) declarations.push(['justify-self', styles.justifySelf]);
+
+  // Box
+  const width = sizeDeclaration(styles.width, styles.sizing?.horizontal, styles);
+  if (width) declarations.push(['width', width]);
+  const height = sizeDeclaration(styles.height, styles.sizing?.vertical, styles);
+  if (height) declarations.push(['height', height]);
+  if (styles.minWidth) declarations.push(['min-width', px(styles.minWidth)]);
+  if (styles.maxWidth) declarations.push(['max-width', px(styles.maxWidth)]);
+  if (styles.minHeight) declarations.push(['min-height', px(styles.minHeight)]);
+  if (styles.maxHeight) declarations.push(['max-height', px(styles.maxHeight)]);
+  if (styles.padding) {
+    const { top = 0, right = 0, bottom = 0, left = 0 } = styles.padding;
+    declarations.push(['padding', [top, right, bottom, left].map(px).join(' ')]);
+  }
+  if (styles.margin) {
+    const { top = 0, right = 0, bottom = 0, left = 0 } = styles.margin;
+    declarations.push(['margin', [top, right, bottom, left].map(px).join(' ')]);
+  }
+
+  // Visuals
+  if (styles.backgroundColor) declarations.push(['background-color', styles.backgroundColor]);
+  if (styles.backgroundImage) declarations.push(['background-image', styles.backgroundImage]);
+  if (styles.backgroundSize) declarations.push(['background-size', styles.backgroundSize]);
+  if (styles.backgroundPosition) declarations.push(['background-position', styles.backgroundPosition]);
+  if (styles.backgroundRepeat) declarations.push(['background-repeat', styles.backgroundRepeat]);
+  if (styles.backgroundBlendMode) declarations.push(['background-blend-mode', styles.backgroundBlendMode]);
+  if (styles.borderRadius) declarations.push(['border-radius', px(styles.borderRadius)]);
+  if (styles.border) declarations.push(['border', styles.border]);
+  if (styles.borderWidth) declarations.push(['border-width', styles.borderWidth]);
+  if (styles.outline) declarations.push(['outline', styles.outline]);
+  if (styles.boxShadow) declarations.push(['box-shadow', styles.boxShadow]);
+  if (styles.textShadow) declarations.push(['text-shadow', styles.textShadow]);
+  if (styles.filter) declarations.push(['filter', styles.filter]);
+  if (styles.backdropFilter) declarations.push(['backdrop-filter', styles.backdropFilter]);
+  if (styles.opacity !== undefined) declarations.push(['opacity', `${styles.opacity}`]);
+  if (styles.mixBlendMode) declarations.push(['mix-blend-mode', styles.mixBlendMode]);
+  if (styles.isolation) declarations.push(['isolation', styles.isolation]);
+
+  // Clipping and masking; clamped text sets its own overflow
+  if (styles.overflow && !styles.lineClamp) declarations.push(['overflow', styles.overflow]);
+  if (styles.clipPath) declarations.push(['clip-path', styles.clipPath]);
+  if (styles.maskImage) {
+    declarations.push(['mask-image', styles.maskImage]);
+    if (styles.maskSize) declarations.push(['mask-size', styles.maskSize]);
+    if (styles.maskPosition) declarations.push(['mask-position', styles.maskPosition]);
+    if (styles.maskRepeat) declarations.push(['mask-repeat', styles.maskRepeat]);
+    if (styles.maskMode) declarations.push(['mask-mode', styles.maskMode]);
+  }
+
+  // Typography
+  if (styles.fontFamily) declarations.push(['font-family', fontFamilyStack(styles.fontFamily)]);
+  if (styles.fontSize) declarations.push(['font-size', px(styles.fontSize)]);
+  if (styles.fontWeight) declarations.push(['font-weight', `${styles.fontWeight}`]);
+  if (styles.fontStyle) declarations.push(['font-style', styles.fontStyle]);
+  if (styles.lineHeight) declarations.push(['line-height', styles.lineHeight]);
+  if (styles.letterSpacing) declarations.push(['letter-spacing', px(styles.letterSpacing)]);
+  if (styles.fontFeatureSettings) declarations.push(['font-feature-settings', styles.fontFeatureSettings]);
+  if (styles.fontVariantCaps) declarations.push(['font-variant-caps', styles.fontVariantCaps]);
+  if (styles.color) declarations.push(['color', styles.color]);
+  if (styles.textAlign) declarations.push(['text-align', styles.textAlign]);
+  if (styles.textDecoration) declarations.push(['text-decoration', styles.textDecoration]);
+  if (styles.textTransform) declarations.push(['text-transform', styles.textTransform]);
+
+  // Truncation: one line ends in an ellipsis, more are clamped
+  if (styles.lineClamp === 1) {
+    declarations.push(['overflow', 'hidden'], ['text-overflow', 'ellipsis'], ['white-space', 'nowrap']);
+  } else if (styles.lineClamp) {
+    declarations.push(
+      ['display', '-webkit-box'],
+      ['-webkit-box-orient', 'vertical'],
+      ['-webkit-line-clamp', `${styles.lineClamp}`],
+      ['overflow', 'hidden']
+    );
+  }
+
+  return tokens ? applyTokens(declarations, tokens) : declarations;
+}
+
+/**
+ * Render CSS declarations as an indented declaration block body
+ */
+export function formatDeclarations(declarations: CSSDeclaration[], indent = '  '): string {
+  return declarations.map(([property, value]) => `${indent}${property}: ${value};`).join('\n');
+}
+
+/**
+ * Escape a value for use inside a Tailwind arbitrary value bracket
+ */
+function arbitrary(value: string): string {
+  return value.replace(/_/g, '\\_').replace(/\s+/g, '_');
+}
+
+const BLEND_MODES = [
+  'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn', 'hard-light',
+  'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity',
+];
+
+/**
+ * Tailwind classes for single blend modes, e.g. mix-blend-multiply
+ */
+function blendModeClasses(prefix: string): Record<string, string> {
+  const classes: Record<string, string> = {};
+  BLEND_MODES.forEach(mode => { classes[mode] = `${prefix}-${mode}`; });
+  return classes;
+}
+
+const KEYWORD_CLASSES: Record<string, Record<string, string>> = {
+  'display': { flex: 'flex', block: 'block', grid: 'grid', 'inline-flex': 'inline-flex', none: 'hidden' },
+  'flex-direction': { row: 'flex-row', column: 'flex-col' },
+  'align-items': {
+    'flex-start': 'items-start',
+    center: 'items-center',
+    'flex-end': 'items-end',
+    stretch: 'items-stretch',
+    baseline: 'items-baseline',
+  },
+  'justify-content': {
+    'flex-start': 'justify-start',
+    center: 'justify-center',
+    'flex-end': 'justify-end',
+    'space-between': 'justify-between',
+    'space-around': 'justify-around',
+    'space-evenly': 'justify-evenly',
+  },
+  'text-align': { left: 'text-left', center: 'text-center', right: 'text-right', justify: 'text-justify' },
+  'background-size': { cover: 'bg-cover', contain: 'bg-contain' },
+  'background-position': { center: 'bg-center' },
+  'background-repeat': { 'no-repeat': 'bg-no-repeat', repeat: 'bg-repeat' },
+  'text-decoration': { underline: 'underline', 'line-through': 'line-through', none: 'no-underline' },
+  'text-transform': { uppercase: 'uppercase', lowercase: 'lowercase', capitalize: 'capitalize', none: 'normal-case' },
+  'position': { relative: 'relative', absolute: 'absolute', fixed: 'fixed' },
+  'inset': { '0': 'inset-0' },
+  'cursor': { pointer: 'cursor-pointer' },
+  'font-style': { italic: 'italic', normal: 'not-italic' },
+  'overflow': { hidden: 'overflow-hidden' },
+  'mix-blend-mode': blendModeClasses('mix-blend'),
+  'background-blend-mode': blendModeClasses('bg-blend'),
+  'isolation': { isolate: 'isolate' },
+  'text-overflow': { ellipsis: 'text-ellipsis' },
+  'white-space': { nowrap: 'whitespace-nowrap' },
+  'flex-wrap': { wrap: 'flex-wrap', nowrap: 'flex-nowrap' },
+  'align-content': { 'space-between': 'content-between', center: 'content-center', 'flex-start': 'content-start', 'flex-end': 'content-end' },
+  'align-self': { stretch: 'self-stretch', 'flex-start': 'self-start', start: 'self-start', center: 'self-center', 'flex-end': 'self-end', end: 'self-end' },
+  'justify-self': { start: 'justify-self-start', center: 'justify-self-center', end: 'justify-self-end', stretch: 'justify-self-stretch' },
+  'flex-grow': { '1': 'grow', '0': 'grow-0' },
+  'flex-shrink': { '1': 'shrink', '0': 'shrink-0' },
+  'flex-basis': { '0px': 'basis-0' },
+  'width': { '100%': 'w-full' },
+  'height': { '100%': 'h-full' },
+};
+
+const ARBITRARY_PREFIXES: Record<string, string> = {
+  'top': 'top',
+  'right': 'right',
+  'bottom': 'bottom',
+  'left': 'left',
+  'z-index': 'z',
+  'gap': 'gap',
+  'row-gap': 'gap-y',
+  'column-gap': 'gap-x',
+  'grid-template-columns': 'grid-cols',
+  'grid-template-rows': 'grid-rows',
+  'grid-column': 'col',
+  'grid-row': 'row',
+  'width': 'w',
+  'height': 'h',
+  'min-width': 'min-w',
+  'max-width': 'max-w',
+  'min-height': 'min-h',
+  'max-height': 'max-h',
+  'background-color': 'bg',
+  'background-image': 'bg',
+  'border-radius': 'rounded',
+  'box-shadow': 'shadow',
+  'opacity': 'opacity',
+  'font-size': 'text',
+  'font-weight': 'font',
+  'line-height': 'leading',
+  'letter-spacing': 'tracking',
+  'color': 'text',
+};
+
+const VARIABLE_HINTS: Record<string, string> = {
+  'background-color': 'color:',
+  'font-size': 'length:',
+  'font-weight': 'number:',
+  'box-shadow': 'shadow:',
+};
+
+/**
+ * Convert CSS declarations into Tailwind classes, using arbitrary values for exact design values.
+ * Zero padding and margin sides are left out unless they override a breakpoint below.
+ */
+export function cssToTailwind(declarations: CSSDeclaration[], keepZeroSides = false): string[] {
+  const classes: string[] = [];
+  // line-clamp-N sets the box, orientation and overflow the clamp needs
+  const clamped = declarations.some(([property]) => property === '-webkit-line-clamp');
+
+  declarations.forEach(([property, value]) => {
+    if (clamped && ((property === 'display' && value === '-webkit-box') || property === '-webkit-box-orient' || property === 'overflow')) {
+      return;
+    }
+    if (property === '-webkit-line-clamp') {
+      classes.push(Number(value) <= 6 ? `line-clamp-${value}` : `line-clamp-[${value}]`);
+      return;
+    }
+
+    const keyword = KEYWORD_CLASSES[property]?.[value];
+    if (keyword) {
+      classes.push(keyword);
+      return;
+    }
+
+    if ((property === 'padding' || property === 'margin') && value.split(' ').length === 4) {
+      const prefix = property === 'padding' ? 'p' : 'm';
+      const [top, right, bottom, left] = value.split(' ');
+      ([['t', top], ['r', right], ['b', bottom], ['l', left]] as const).forEach(([side, sideValue]) => {
+        if (sideValue !== '0px' || keepZeroSides) classes.push(`${prefix}${side}-[${sideValue}]`);
+      });
+      return;
+    }
+
+    // Equal tracks and plain spans have Tailwind classes of their own, up to 12 columns and 6 rows
+    const columns = property === 'grid-template-columns' || property === 'grid-column';
+    const tracks = value.match(/^repeat\((\d+), minmax\(0, 1fr\)\)$/);
+    if (tracks && (property === 'grid-template-columns' || property === 'grid-template-rows') && Number(tracks[1]) <= (columns ? 12 : 6)) {
+      classes.push(`${columns ? 'grid-cols' : 'grid-rows'}-${tracks[1]}`);
+      return;
+    }
+    const span = value.match(/^span (\d+) \/ span \1$/);
+    if (span && (property === 'grid-column' || property === 'grid-row') && Number(span[1]) <= (columns ? 12 : 6)) {
+      classes.push(`${columns ? 'col' : 'row'}-span-${span[1]}`);
+      return;
+    }
+
+    if (property === 'font-family') {
+      classes.push(value.startsWith('var(') ?
+        `font-[family-name:${arbitrary(value)}]` :
+        `font-['${arbitrary(value.split(',')[0].replace(/"/g, ''))}']`);
+      return;
+    }
+
+    const prefix = ARBITRARY_PREFIXES[property];
+    if (prefix) {
+      // Tailwind can't tell a color from a length for `text-[...]`, nor what a `var()` holds, so hint the type
+      const hint = property === 'color' ? 'color:' : value.startsWith('var(') ? VARIABLE_HINTS[property] || '' : '';
+      classes.push(`${prefix}-[${hint}${arbitrary(value)}]`);
+      return;
+    }
+
+    classes.push(`[${property}:${arbitrary(value)}]`);
+  });
+
+  return classes;
+}